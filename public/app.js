@@ -5,7 +5,9 @@ let currentPage = {
   issues: 1,
   sideEffects: 1,
   unusedFiles: 1,
-  unusedDeps: 1
+  unusedDeps: 1,
+  startupModules: 1,
+  inlineData: 1
 };
 const ITEMS_PER_PAGE = 50;
 
@@ -52,6 +54,8 @@ function renderApp() {
       <div class="tabs">
         <button class="tab active" onclick="switchTab('overview')">📊 Overview</button>
         <button class="tab" onclick="switchTab('packages')">📦 Packages</button>
+        <button class="tab" onclick="switchTab('startup')">🚀 Startup</button>
+        <button class="tab" onclick="switchTab('inlinedata')">🗃️ Inline Data</button>
         <button class="tab" onclick="switchTab('deadcode')">🧹 Dead Code</button>
         <button class="tab" onclick="switchTab('treeshake')">🌲 Tree-Shaking</button>
         <button class="tab" onclick="switchTab('optimizations')">💡 Optimizations</button>
@@ -154,7 +158,9 @@ function switchTab(tabName) {
       issues: 1,
       sideEffects: 1,
       unusedFiles: 1,
-      unusedDeps: 1
+      unusedDeps: 1,
+      startupModules: 1,
+      inlineData: 1
     };
   }
 
@@ -173,6 +179,8 @@ function switchTab(tabName) {
   switch(tabName) {
     case 'overview': renderOverview(content); break;
     case 'packages': renderPackages(content); break;
+    case 'startup': renderStartup(content); break;
+    case 'inlinedata': renderInlineData(content); break;
     case 'deadcode': renderDeadCode(content); break;
     case 'treeshake': renderTreeShake(content); break;
     case 'optimizations': renderOptimizations(content); break;
@@ -196,6 +204,13 @@ function renderOverview(container) {
         <div class="stat-value">${yourCodePct}%</div>
         <div style="color: #8b92a7; font-size: 0.9em;">${formatBytes(analysisData.yourCodeSize)}</div>
       </div>
+      ${analysisData.workspaceSize ? `
+      <div class="stat-card">
+        <div class="stat-label">Workspace Packages</div>
+        <div class="stat-value">${((analysisData.workspaceSize / totalSize) * 100).toFixed(1)}%</div>
+        <div style="color: #8b92a7; font-size: 0.9em;">${formatBytes(analysisData.workspaceSize)}</div>
+      </div>
+      ` : ''}
       <div class="stat-card">
         <div class="stat-label">node_modules</div>
         <div class="stat-value">${nodeModulesPct}%</div>
@@ -206,6 +221,19 @@ function renderOverview(container) {
         <div class="stat-value">${reactNativePct}%</div>
         <div style="color: #8b92a7; font-size: 0.9em;">${formatBytes(analysisData.reactNativeSize)}</div>
       </div>
+      ${analysisData.runtimeSize ? `
+      <div class="stat-card">
+        <div class="stat-label">Runtime / Polyfills</div>
+        <div class="stat-value">${((analysisData.runtimeSize / totalSize) * 100).toFixed(1)}%</div>
+        <div style="color: #8b92a7; font-size: 0.9em;">${formatBytes(analysisData.runtimeSize)}</div>
+      </div>
+      ` : ''}
+      ${analysisData.unexplainedSize ? `
+      <div class="stat-card">
+        <div class="stat-label">Unexplained Bytes</div>
+        <div class="stat-value">${formatBytes(analysisData.unexplainedSize)}</div>
+      </div>
+      ` : ''}
     </div>
     
     ${analysisData.deadCode || analysisData.treeShake ? `
@@ -235,6 +263,34 @@ function renderOverview(container) {
     </div>
     ` : ''}
     
+    ${analysisData.workspaceSize ? `
+    <div class="section">
+      <h2 class="section-title">🗂️ Workspace Packages</h2>
+      <table class="table">
+        <thead>
+          <tr>
+            <th>Workspace</th>
+            <th>Directory</th>
+            <th>Size</th>
+            <th>% of Bundle</th>
+            <th>Modules</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${analysisData.packages.filter(pkg => pkg.workspace).map(pkg => `
+            <tr>
+              <td><strong>${pkg.name}</strong></td>
+              <td style="color: #8b92a7;">${pkg.workspace}</td>
+              <td>${formatBytes(pkg.size)}</td>
+              <td>${pkg.percentage.toFixed(2)}%</td>
+              <td>${pkg.modules.length}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+    ` : ''}
+
     <div class="section">
       <h2 class="section-title">📦 Top 10 Packages</h2>
       <table class="table">
@@ -290,6 +346,40 @@ function renderPackages(container) {
   }
 
   container.innerHTML = `
+    ${analysisData.directDependencies ? `
+    <div class="section">
+      <h2 class="section-title">💰 Cost per Direct Dependency</h2>
+      <p style="color: #8b92a7;">
+        Each dependency in package.json with the transitive packages it brings in.
+        Packages brought in by several dependencies are split evenly between them (marked *).
+      </p>
+      <table class="table">
+        <thead>
+          <tr>
+            <th>Dependency</th>
+            <th>Own</th>
+            <th>Transitive</th>
+            <th>Shared</th>
+            <th>Total</th>
+            <th>Brings In</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${analysisData.directDependencies.map(dep => `
+            <tr>
+              <td><strong>${dep.name}</strong>${dep.version ? ` <span style="color: #8b92a7;">${dep.version}</span>` : ''}</td>
+              <td>${formatBytes(dep.size)}</td>
+              <td>${formatBytes(dep.exclusiveSize)}</td>
+              <td>${formatBytes(dep.sharedSize)}</td>
+              <td><strong>${formatBytes(dep.totalSize)}</strong></td>
+              <td style="color: #8b92a7;">${dep.transitive.map(t => t.name + (t.sharedWith.length > 0 ? '*' : '')).join(', ')}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+    ` : ''}
+
     <div class="section">
       <h2 class="section-title">📦 All Packages (${analysisData.packages.length})</h2>
       <table class="table">
@@ -403,6 +493,160 @@ function renderDeadCode(container) {
   `;
 }
 
+function renderStartup(container) {
+  const startup = analysisData.startup;
+
+  if (!startup) {
+    container.innerHTML = `<div class="section"><p style="color: #8b92a7; text-align: center;">No startup analysis available: the bundle has no entry module to start from</p></div>`;
+    return;
+  }
+
+  const measured = startup.eagerSize + startup.deferredSize;
+  const eagerPct = measured > 0 ? ((startup.eagerSize / measured) * 100).toFixed(1) : '0';
+
+  container.innerHTML = `
+    <div class="stats-grid">
+      <div class="stat-card">
+        <div class="stat-label">Evaluated at Launch</div>
+        <div class="stat-value">${formatBytes(startup.eagerSize)}</div>
+        <div style="color: #8b92a7; font-size: 0.9em;">${eagerPct}% · ${startup.eagerModuleCount} modules</div>
+      </div>
+      <div class="stat-card">
+        <div class="stat-label">Deferred</div>
+        <div class="stat-value" style="color: #10b981;">${formatBytes(startup.deferredSize)}</div>
+        <div style="color: #8b92a7; font-size: 0.9em;">${startup.deferredModuleCount} modules</div>
+      </div>
+    </div>
+
+    <div class="section">
+      <p style="color: #8b92a7;">
+        Estimated by following the requires each module makes at its top level, starting from the entry module.
+        Requires inside functions (Metro's inline requires) are deferred until called.
+        ${startup.unscannedModuleCount > 0 ? `${startup.unscannedModuleCount} module(s) had no code to scan, so all their dependencies were counted as evaluated at launch.` : ''}
+      </p>
+    </div>
+
+    <div class="section">
+      <h2 class="section-title">📦 Packages at Launch</h2>
+      <table class="table">
+        <thead>
+          <tr>
+            <th>Package</th>
+            <th>At Launch</th>
+            <th>Deferred</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${startup.packages.filter(pkg => pkg.eagerSize > 0).slice(0, 20).map(pkg => `
+            <tr>
+              <td><strong>${pkg.name}</strong></td>
+              <td>${formatBytes(pkg.eagerSize)}</td>
+              <td>${formatBytes(pkg.deferredSize)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+
+    <div class="section">
+      <h2 class="section-title">🚀 Modules Evaluated at Launch (${startup.eagerModuleCount})</h2>
+      <table class="table">
+        <thead>
+          <tr>
+            <th>Module</th>
+            <th>Size</th>
+            <th>Required By</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${startup.eagerModules.slice(
+            (currentPage.startupModules - 1) * ITEMS_PER_PAGE,
+            currentPage.startupModules * ITEMS_PER_PAGE
+          ).map(module => `
+            <tr>
+              <td><span class="file-path">${module.path}</span></td>
+              <td>${formatBytes(module.size)}</td>
+              <td>${module.requiredBy !== undefined ? (analysisData.startup.eagerModules.find(m => m.id === module.requiredBy)?.path ?? module.requiredBy) : '<span style="color: #8b92a7;">entry / runtime</span>'}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      ${createPagination(currentPage.startupModules, startup.eagerModules.length, 'startupModules')}
+    </div>
+  `;
+}
+
+function renderInlineData(container) {
+  const inlineData = analysisData.inlineData;
+
+  if (!inlineData) {
+    container.innerHTML = `<div class="section"><p style="color: #8b92a7; text-align: center;">No inline data analysis available: the bundle kept no module code to scan</p></div>`;
+    return;
+  }
+
+  const kindLabels = {
+    'string': 'String',
+    'data-uri': 'Data URI',
+    'json': 'JSON',
+    'translations': 'Translations',
+    'array': 'Array'
+  };
+
+  container.innerHTML = `
+    <div class="stats-grid">
+      <div class="stat-card">
+        <div class="stat-label">Inline Data</div>
+        <div class="stat-value">${formatBytes(inlineData.totalSize)}</div>
+        <div style="color: #8b92a7; font-size: 0.9em;">${inlineData.items.length} literals · ${((inlineData.totalSize / analysisData.totalSize) * 100).toFixed(1)}% of bundle</div>
+      </div>
+      <div class="stat-card">
+        <div class="stat-label">Base64 Images</div>
+        <div class="stat-value" style="color: ${inlineData.assetCandidateCount > 0 ? '#f59e0b' : '#10b981'};">${inlineData.assetCandidateCount}</div>
+        <div style="color: #8b92a7; font-size: 0.9em;">smaller as asset files</div>
+      </div>
+    </div>
+
+    <div class="section">
+      <p style="color: #8b92a7;">
+        String, array and object literals of 2 KB or more that hold only data, such as base64 images, Lottie animations, JSON fixtures and translation tables.
+        The asset analysis does not see them: they are parsed with the JavaScript at startup.
+        ${inlineData.unscannedModuleCount > 0 ? `${inlineData.unscannedModuleCount} module(s) had no code to scan.` : ''}
+      </p>
+    </div>
+
+    <div class="section">
+      <h2 class="section-title">🗃️ Largest Inline Data (${inlineData.items.length})</h2>
+      <table class="table">
+        <thead>
+          <tr>
+            <th>Module</th>
+            <th>Kind</th>
+            <th>Size</th>
+            <th>Preview</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${inlineData.items.slice(
+            (currentPage.inlineData - 1) * ITEMS_PER_PAGE,
+            currentPage.inlineData * ITEMS_PER_PAGE
+          ).map(item => `
+            <tr>
+              <td><span class="file-path">${item.path}</span>${item.package ? `<div style="color: #8b92a7; font-size: 0.85em;">${item.package}</div>` : ''}</td>
+              <td>
+                ${kindLabels[item.kind] || item.kind}${item.mimeType ? ` <span style="color: #8b92a7;">${item.mimeType}</span>` : ''}${item.entryCount ? ` <span style="color: #8b92a7;">${item.entryCount} entries</span>` : ''}
+                ${item.assetSize !== undefined ? `<div><span class="badge badge-warning">${formatBytes(item.assetSize)} as an asset</span></div>` : ''}
+              </td>
+              <td>${formatBytes(item.size)}</td>
+              <td><span class="file-path">${escapeHtml(item.preview)}</span></td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      ${createPagination(currentPage.inlineData, inlineData.items.length, 'inlineData')}
+    </div>
+  `;
+}
+
 function renderTreeShake(container) {
   const treeShake = analysisData.treeShake;
   
@@ -523,6 +767,7 @@ function renderOptimizations(container) {
         <div class="optimization ${opt.severity}" style="margin-bottom: 15px;">
           <div class="optimization-title">${opt.severity === 'high' ? '🔴' : '🟡'} ${opt.suggestion.split('\n')[0]}</div>
           <div class="optimization-details">Package: ${opt.package}</div>
+          ${opt.rule ? `<div class="optimization-details">Rule: ${opt.rule} (${opt.source})</div>` : ''}
           <div class="optimization-details">Current: ${formatBytes(opt.currentSize)}</div>
           <div class="savings">💰 Savings: ${formatBytes(opt.potentialSavings)}</div>
         </div>
@@ -539,6 +784,14 @@ function formatBytes(bytes) {
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
 }
 
+function escapeHtml(text) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 function createPagination(currentPage, totalItems, pageType) {
   const totalPages = Math.ceil(totalItems / ITEMS_PER_PAGE);
   if (totalPages <= 1) return '';
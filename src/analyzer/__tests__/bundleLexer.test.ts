@@ -0,0 +1,117 @@
+import { BundleLexer } from '../bundleLexer';
+
+function findSpans(code: string) {
+  return new BundleLexer(code).findModuleDefinitions().spans;
+}
+
+function argText(code: string, index = 0): string[] {
+  const span = findSpans(code)[index];
+  return span.args.map((range) => code.slice(range.start, range.end));
+}
+
+describe('BundleLexer', () => {
+  it('should split top-level __d calls into spans and arguments', () => {
+    const code = '__d(function(g,r){r(d[0])},0,[1]);\n__d(function(){},1,[]);__r(0);';
+    const spans = findSpans(code);
+
+    expect(spans).toHaveLength(2);
+    expect(code.slice(spans[0].start, spans[0].end)).toBe('__d(function(g,r){r(d[0])},0,[1])');
+    expect(argText(code, 0)).toEqual(['function(g,r){r(d[0])}', '0', '[1]']);
+    expect(argText(code, 1)).toEqual(['function(){}', '1', '[]']);
+  });
+
+  it('should ignore __d( and brackets inside strings, templates, regexes and comments', () => {
+    const code =
+      '__d(function(){' +
+      'var a="__d(function(){}",b=\'})\\\\\',c=`})${"}"+`nested ${1}`}__d(`;' +
+      'var e=/[)}\\]]+\\//g.test(a)/2;' +
+      '/* }) __d( */ // })\n' +
+      'return a},0,[]);__d(function(){},1,[]);';
+    const spans = findSpans(code);
+
+    expect(spans).toHaveLength(2);
+    expect(spans[0].error).toBeUndefined();
+    expect(argText(code, 0).slice(1)).toEqual(['0', '[]']);
+  });
+
+  it('should treat a slash after an expression as division', () => {
+    const code = '__d(function(){var x=a/b/c,y=(1)/2;return x},0,[]);';
+
+    expect(argText(code).slice(1)).toEqual(['0', '[]']);
+  });
+
+  it('should report exact UTF-8 byte offsets', () => {
+    const code = 'var s="é😀";__d(function(){return"ü"},0,[]);';
+    const [span] = findSpans(code);
+
+    expect(span.byteStart).toBe(Buffer.byteLength(code.slice(0, span.start)));
+    expect(span.byteEnd - span.byteStart).toBe(Buffer.byteLength(code.slice(span.start, span.end)));
+  });
+
+  it('should not cap large modules', () => {
+    const body = 'var x=' + JSON.stringify('y'.repeat(50000)) + ';';
+    const code = `__d(function(){${body}},0,[]);`;
+    const [span] = findSpans(code);
+
+    expect(span.end).toBe(code.length - 1);
+  });
+
+  it('should flag a module it cannot delimit and resume at the next definition', () => {
+    const code = '__d(function(){var s="unterminated\n},0,[]);\n__d(function(){},1,[]);';
+    const spans = findSpans(code);
+
+    expect(spans).toHaveLength(2);
+    expect(spans[0].error).toContain('Unterminated string literal');
+    expect(spans[0].end).toBe(code.lastIndexOf('__d('));
+    expect(spans[1].error).toBeUndefined();
+  });
+
+  it('should find the same spans when the code arrives in chunks', () => {
+    const code =
+      'var s="é😀";__d(function(){return`${"})"}`/2},0,[1]);\n' +
+      '__d(function(){var s="bad\n},1,[]);__d(function(){/*)*/},2,[]);';
+    const lexer = new BundleLexer();
+    for (let i = 0; i < code.length; i += 3) {
+      lexer.write(code.slice(i, i + 3));
+    }
+    lexer.end();
+
+    expect(lexer.takeSpans()).toEqual(findSpans(code));
+  });
+
+  it('should convert offsets to lines and columns', () => {
+    const lexer = new BundleLexer('ab\ncd\nef');
+
+    expect(lexer.getLineColumn(4)).toEqual({ line: 1, column: 1 });
+    expect(lexer.getLineColumn(0)).toEqual({ line: 0, column: 0 });
+  });
+
+  it('should split code into tokens', () => {
+    const code = 'if(a/2)x=/}\\//g.test(`a${b}c`)// "c"\n+"d";';
+    const tokens = BundleLexer.tokenize(code).map(
+      (token) => `${token.type}:${code.slice(token.start, token.end)}`
+    );
+
+    expect(tokens).toEqual([
+      'word:if',
+      'punctuator:(',
+      'word:a',
+      'punctuator:/',
+      'word:2',
+      'punctuator:)',
+      'word:x',
+      'punctuator:=',
+      'regex:/}\\//g',
+      'punctuator:.',
+      'word:test',
+      'punctuator:(',
+      'template:`a${',
+      'word:b',
+      'template:}c`',
+      'punctuator:)',
+      'punctuator:+',
+      'string:"d"',
+      'punctuator:;',
+    ]);
+  });
+});
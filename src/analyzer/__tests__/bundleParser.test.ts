@@ -1,4 +1,8 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { BundleParser } from '../bundleParser';
+import { SourcemapParser } from '../../utils/sourcemapParser';
 
 describe('BundleParser', () => {
   describe('extractPackageName', () => {
@@ -14,6 +18,11 @@ describe('BundleParser', () => {
       );
     });
 
+    it('should extract the innermost package of a nested install', () => {
+      const path = 'node_modules/lib-a/node_modules/tslib/tslib.js';
+      expect(BundleParser.extractPackageName(path)).toBe('tslib');
+    });
+
     it('should return undefined for non-node_modules paths', () => {
       const path = 'src/components/App.js';
       expect(BundleParser.extractPackageName(path)).toBeUndefined();
@@ -35,6 +44,17 @@ describe('BundleParser', () => {
       const path = 'src/App.js';
       expect(BundleParser.categorizeModule(path)).toBe('user');
     });
+
+    it('should categorize the prelude and polyfills as runtime', () => {
+      expect(BundleParser.categorizeModule('__prelude__')).toBe('runtime');
+      expect(
+        BundleParser.categorizeModule('node_modules/@react-native/js-polyfills/console.js')
+      ).toBe('runtime');
+      expect(
+        BundleParser.categorizeModule('node_modules/metro-runtime/src/polyfills/require.js')
+      ).toBe('runtime');
+      expect(BundleParser.categorizeModule('[runtime]')).toBe('runtime');
+    });
   });
 
   describe('parse', () => {
@@ -62,6 +82,92 @@ describe('BundleParser', () => {
       expect(modules[1].size).toBeGreaterThan(0);
     });
 
+    it('should read dependency arrays and entry modules', () => {
+      const bundleContent =
+        '__d(function(g,r,i,a,m,e,d){r(d[0]);},0,[1,2]);' +
+        '__d(function(g,r,i,a,m,e,d){m.exports=1;},1,[]);' +
+        '__d(function(g,r,i,a,m,e,d){m.exports=2;},2,[1]);' +
+        '__r(0);';
+      const modules = new BundleParser(bundleContent).parse();
+
+      expect(modules[0].dependencies).toEqual([1, 2]);
+      expect(modules[2].dependencies).toEqual([1]);
+      expect(modules[0].isEntry).toBe(true);
+      expect(modules[1].isEntry).toBeUndefined();
+    });
+
+    it('should measure the code outside module definitions as runtime', () => {
+      const prelude = 'var __DEV__=false,global=this;\n(function(){/* require polyfill */})();\n';
+      const run = ';\n__r(0);\n//# sourceMappingURL=index.bundle.map';
+      const definition = '__d(function(g,r,i,a,m,e,d){m.exports="é";},0,[])';
+      const parser = new BundleParser(prelude + definition + run);
+      const modules = parser.parse();
+
+      expect(modules.map((m) => m.id)).toEqual([0]);
+      expect(parser.getRuntimeModule()).toEqual({
+        id: '[runtime]',
+        path: '[runtime]',
+        size: Buffer.byteLength(prelude + run),
+        dependencies: [],
+      });
+      expect(modules[0].size + parser.getRuntimeModule()!.size).toBe(parser.getTotalSize());
+    });
+
+    it('should not split on __d( inside strings and record warnings', () => {
+      const bundleContent =
+        '__d(function(g,r,i,a,m,e,d){m.exports="__d(function(){},9,[]);";},0,[]);\n' +
+        "__d(function(g,r,i,a,m,e,d){var s='oops\n},1,[]);\n" +
+        '__d(function(g,r,i,a,m,e,d){m.exports=2;},2,[]);';
+      const parser = new BundleParser(bundleContent);
+      const modules = parser.parse();
+
+      expect(modules.map((m) => m.id)).toEqual([0, 1, 2]);
+      expect(modules[0].size).toBe(bundleContent.indexOf(';\n'));
+      expect(parser.getWarnings()).toHaveLength(1);
+      expect(parser.getWarnings()[0].moduleId).toBe(1);
+    });
+
+    it('should use verbose module names and path markers from dev bundles', () => {
+      const bundleContent =
+        'var __BUNDLE_START_TIME__=Date.now(),__DEV__=true;\n' +
+        '__d(function(g,r,i,a,m,e,d){r(d[0]);},0,[1],"src/App.tsx");\n' +
+        '__d(function(g,r,i,a,m,e,d){},1,[],"/Users/me/app/node_modules/react/index.js");\n' +
+        '/* node_modules/lodash/map.js */\n' +
+        '__d(function(g,r,i,a,m,e,d){},2,[]);';
+      const parser = new BundleParser(bundleContent);
+      const modules = parser.parse();
+
+      expect(modules.map((m) => m.path)).toEqual([
+        'src/App.tsx',
+        'node_modules/react/index.js',
+        'node_modules/lodash/map.js',
+      ]);
+      expect(modules[0].dependencies).toEqual([1]);
+      expect(parser.isDevBundle()).toBe(true);
+    });
+
+    it('should keep workspace package paths only for the parser given the workspaces', () => {
+      const bundleContent =
+        '__d(function(g,r,i,a,m,e,d){},0,[],"/Users/me/repo/packages/ui/src/Button.tsx");';
+
+      expect(new BundleParser(bundleContent, undefined, ['packages/ui']).parse()[0].path).toBe(
+        'packages/ui/src/Button.tsx'
+      );
+      expect(new BundleParser(bundleContent).parse()[0].path).toBe('src/Button.tsx');
+    });
+
+    it('should not treat production bundles as dev bundles', () => {
+      const bundleContent =
+        'var __BUNDLE_START_TIME__=Date.now(),__DEV__=false;\n' +
+        '/* @license MIT */\n' +
+        '__d(function(g,r,i,a,m,e,d){m.exports="__DEV__=true";},0,[]);';
+      const parser = new BundleParser(bundleContent);
+      const modules = parser.parse();
+
+      expect(modules[0].path).not.toContain('license');
+      expect(parser.isDevBundle()).toBe(false);
+    });
+
     it('should calculate module sizes', () => {
       const bundleContent = `__d(function(g,r,i,a,m,e,d){var x = 1;},1,"test.js");`;
       const parser = new BundleParser(bundleContent);
@@ -69,6 +175,35 @@ describe('BundleParser', () => {
 
       expect(modules[0].size).toBeGreaterThan(0);
     });
+
+    it('should use sourcemap mappings for exact sizes and module IDs', () => {
+      const bundleContent =
+        '__d(function(g,r,i,a,m,e,d){m.exports=1;},7,[]);\n' +
+        '__d(function(g,r,i,a,m,e,d){m.exports=2;},3,[]);';
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundle-parser-'));
+      const mapPath = path.join(tmpDir, 'index.bundle.map');
+      // Sources are listed in the reverse order of the __d() calls
+      fs.writeFileSync(
+        mapPath,
+        JSON.stringify({
+          version: 3,
+          sources: ['/app/src/b.js', '/app/src/a.js'],
+          mappings: 'ACAA;ADAA',
+        })
+      );
+
+      const sourcemapParser = new SourcemapParser(mapPath);
+      sourcemapParser.load();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+
+      const modules = new BundleParser(bundleContent, sourcemapParser).parse();
+      const a = modules.find((m) => m.path === 'src/a.js');
+      const b = modules.find((m) => m.path === 'src/b.js');
+
+      expect(a?.id).toBe(7);
+      expect(b?.id).toBe(3);
+      expect((a?.size || 0) + (b?.size || 0)).toBe(Buffer.byteLength(bundleContent));
+    });
   });
 
   describe('getTotalSize', () => {
@@ -0,0 +1,55 @@
+import { CompressionAnalyzer } from '../compressionAnalyzer';
+import { DependencyAnalyzer } from '../dependencyAnalyzer';
+import { ModuleData } from '../../types';
+
+describe('CompressionAnalyzer', () => {
+  it('should compress content with gzip and brotli', () => {
+    const sizes = CompressionAnalyzer.compress('a'.repeat(10000));
+
+    expect(sizes.gzipSize).toBeGreaterThan(0);
+    expect(sizes.gzipSize).toBeLessThan(100);
+    expect(sizes.brotliSize).toBeLessThan(100);
+  });
+
+  it('should split the bundle compressed size by module weight', () => {
+    // Repetitive code compresses far better than random-looking data of the same size
+    const repetitive = 'var a=1;'.repeat(500);
+    const noisy = Array.from({ length: 4000 }, (_, i) => ((i * 7919) % 97).toString(36)).join('');
+    const modules: ModuleData[] = [
+      { id: 0, path: 'node_modules/repetitive/index.js', size: Buffer.byteLength(repetitive) },
+      { id: 1, path: 'node_modules/noisy/index.js', size: Buffer.byteLength(noisy) },
+    ];
+    const content = Buffer.from(repetitive + noisy);
+    const moduleCode = new Map<number | string, string>([
+      [0, repetitive],
+      [1, noisy],
+    ]);
+
+    const analysis = new DependencyAnalyzer(modules).analyze();
+    new CompressionAnalyzer(content, moduleCode).analyze(analysis, modules);
+
+    expect(analysis.gzipSize).toBe(CompressionAnalyzer.compress(content).gzipSize);
+    expect(modules[1].gzipSize!).toBeGreaterThan(modules[0].gzipSize!);
+    expect(modules[0].gzipSize! + modules[1].gzipSize!).toBeCloseTo(analysis.gzipSize!, -1);
+
+    const noisyPackage = analysis.packages.find((pkg) => pkg.name === 'noisy')!;
+    expect(noisyPackage.brotliSize).toBe(modules[1].brotliSize);
+  });
+
+  it('should weight modules without code by raw size', () => {
+    const modules: ModuleData[] = [
+      { id: 0, path: 'hermes/a', size: 300 },
+      { id: 1, path: 'hermes/b', size: 100 },
+    ];
+    const analysis = new DependencyAnalyzer(modules).analyze();
+    new CompressionAnalyzer(Buffer.alloc(400, 'x'), undefined).analyze(analysis, modules);
+
+    expect(modules[0].gzipSize).toBe(Math.round((analysis.gzipSize! * 3) / 4));
+  });
+
+  it('should pick sizes by metric with a raw fallback', () => {
+    expect(CompressionAnalyzer.getSize({ size: 100, gzipSize: 30 }, 'gzip')).toBe(30);
+    expect(CompressionAnalyzer.getSize({ size: 100 }, 'brotli')).toBe(100);
+    expect(CompressionAnalyzer.getSize({ totalSize: 500, brotliSize: 90 }, 'brotli')).toBe(90);
+  });
+});
@@ -0,0 +1,251 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BundleParser } from '../bundleParser';
+import { DependencyAnalyzer } from '../dependencyAnalyzer';
+import { SourcemapParser } from '../../utils/sourcemapParser';
+import { ModuleData } from '../../types';
+
+function createModules(): ModuleData[] {
+  return [
+    { id: 0, path: 'src/App.js', size: 10, dependencies: [1, 2, 4], isEntry: true },
+    { id: 1, path: 'node_modules/lib-a/index.js', size: 100, dependencies: [3, 5] },
+    { id: 2, path: 'node_modules/lib-a/extra.js', size: 50, dependencies: [3] },
+    { id: 3, path: 'node_modules/only-a/index.js', size: 40, dependencies: [] },
+    { id: 4, path: 'node_modules/lib-b/index.js', size: 30, dependencies: [5] },
+    { id: 5, path: 'node_modules/tslib/tslib.js', size: 5, dependencies: [] },
+  ];
+}
+
+describe('DependencyAnalyzer', () => {
+  describe('retained sizes', () => {
+    it('should compute module retained and shared sizes from the dominator tree', () => {
+      const modules = createModules();
+      new DependencyAnalyzer(modules).analyze();
+
+      // only-a is required by two lib-a modules, so neither retains it alone
+      expect(modules[1].retainedSize).toBe(100);
+      expect(modules[1].sharedSize).toBe(45);
+      expect(modules[0].retainedSize).toBe(235);
+      expect(modules[0].sharedSize).toBe(0);
+    });
+
+    it('should treat a package as a single node', () => {
+      const analysis = new DependencyAnalyzer(createModules()).analyze();
+      const libA = analysis.packages.find((pkg) => pkg.name === 'lib-a')!;
+      const libB = analysis.packages.find((pkg) => pkg.name === 'lib-b')!;
+
+      expect(libA.size).toBe(150);
+      expect(libA.retainedSize).toBe(190);
+      expect(libA.sharedSize).toBe(5);
+      expect(libB.retainedSize).toBe(30);
+      expect(libB.sharedSize).toBe(5);
+    });
+
+    it('should fall back to self size when there is no dependency information', () => {
+      const modules: ModuleData[] = [
+        { id: 0, path: 'node_modules/lodash/map.js', size: 20 },
+        { id: 1, path: 'node_modules/lodash/filter.js', size: 30 },
+      ];
+      const analysis = new DependencyAnalyzer(modules).analyze();
+
+      expect(modules[0].retainedSize).toBe(20);
+      expect(analysis.packages[0].retainedSize).toBe(50);
+      expect(analysis.packages[0].sharedSize).toBe(0);
+    });
+
+    it('should handle dependency cycles without an entry module', () => {
+      const modules: ModuleData[] = [
+        { id: 0, path: 'src/a.js', size: 10, dependencies: [1] },
+        { id: 1, path: 'src/b.js', size: 20, dependencies: [0] },
+      ];
+      new DependencyAnalyzer(modules).analyze();
+
+      expect(modules[0].retainedSize).toBe(30);
+      expect(modules[1].retainedSize).toBe(20);
+      expect(modules[1].sharedSize).toBe(10);
+    });
+  });
+
+  describe('duplicates', () => {
+    it('should report the installed version of each copy', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dependency-analyzer-'));
+      try {
+        const writePackage = (installPath: string, version: string) => {
+          fs.mkdirSync(path.join(tmpDir, installPath), { recursive: true });
+          fs.writeFileSync(
+            path.join(tmpDir, installPath, 'package.json'),
+            JSON.stringify({ version })
+          );
+        };
+        writePackage('node_modules/tslib', '2.6.2');
+        writePackage('node_modules/lib-a/node_modules/tslib', '1.14.1');
+
+        const modules: ModuleData[] = [
+          { id: 0, path: 'node_modules/tslib/tslib.js', size: 10 },
+          { id: 1, path: 'node_modules/lib-a/index.js', size: 20 },
+          { id: 2, path: 'node_modules/lib-a/node_modules/tslib/tslib.js', size: 10 },
+        ];
+        const analysis = new DependencyAnalyzer(modules, tmpDir).analyze();
+
+        expect(analysis.duplicates).toEqual([
+          {
+            name: 'tslib',
+            versions: ['2.6.2', '1.14.1'],
+            totalWaste: 10,
+            paths: ['node_modules/tslib', 'node_modules/lib-a/node_modules/tslib'],
+          },
+        ]);
+        expect(analysis.packages.find((pkg) => pkg.name === 'tslib')!.version).toBe('2.6.2');
+        expect(analysis.packages.find((pkg) => pkg.name === 'lib-a')!.version).toBeUndefined();
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should group pnpm store copies by package with their versions', () => {
+      const modules: ModuleData[] = [
+        { id: 0, path: 'node_modules/.pnpm/tslib@2.6.2/node_modules/tslib/tslib.js', size: 10 },
+        { id: 1, path: 'node_modules/.pnpm/tslib@1.14.1/node_modules/tslib/tslib.js', size: 10 },
+        { id: 2, path: 'node_modules/.pnpm/lib-a@1.0.0/node_modules/lib-a/index.js', size: 20 },
+      ];
+      const analysis = new DependencyAnalyzer(modules).analyze();
+
+      expect(analysis.packages.map((pkg) => [pkg.name, pkg.size])).toEqual([
+        ['tslib', 20],
+        ['lib-a', 20],
+      ]);
+      expect(analysis.duplicates.map((dup) => [dup.name, dup.versions])).toEqual([
+        ['tslib', ['2.6.2', '1.14.1']],
+      ]);
+    });
+
+    it('should find Yarn cache copies named by the sourcemap', () => {
+      const bundleContent =
+        '__d(function(g,r,i,a,m,e,d){m.exports=1;},0,[]);\n' +
+        '__d(function(g,r,i,a,m,e,d){m.exports=2;},1,[]);';
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dependency-analyzer-'));
+      const mapPath = path.join(tmpDir, 'index.bundle.map');
+      fs.writeFileSync(
+        mapPath,
+        JSON.stringify({
+          version: 3,
+          sources: [
+            '/repo/.yarn/cache/lodash-npm-4.17.21-6382451519-eb835a2e51.zip/node_modules/lodash/lodash.js',
+            '/repo/.yarn/cache/lodash-npm-3.10.1-cd6d2b4a2a-3a3b1ec5c7.zip/node_modules/lodash/index.js',
+          ],
+          mappings: 'AAAA;ACAA',
+        })
+      );
+      const sourcemapParser = new SourcemapParser(mapPath);
+      sourcemapParser.load();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+
+      const modules = new BundleParser(bundleContent, sourcemapParser).parse();
+      const analysis = new DependencyAnalyzer(modules).analyze();
+
+      expect(analysis.duplicates.map((dup) => [dup.name, dup.versions])).toEqual([
+        ['lodash', ['4.17.21', '3.10.1']],
+      ]);
+      expect(analysis.packages.map((pkg) => [pkg.name, pkg.version])).toEqual([
+        ['lodash', '4.17.21'],
+      ]);
+    });
+  });
+
+  describe('direct dependencies', () => {
+    it('should roll transitive packages up into the dependencies that bring them in', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dependency-analyzer-'));
+      try {
+        const writeJson = (relativePath: string, data: object) => {
+          fs.mkdirSync(path.dirname(path.join(tmpDir, relativePath)), { recursive: true });
+          fs.writeFileSync(path.join(tmpDir, relativePath), JSON.stringify(data));
+        };
+        writeJson('package.json', {
+          dependencies: { 'react-redux': '^8.0.0', 'react-navigation': '^6.0.0', react: '^18.0.0' },
+          devDependencies: { jest: '^29.0.0' },
+        });
+        writeJson('node_modules/react-redux/package.json', {
+          version: '8.1.0',
+          dependencies: { '@babel/runtime': '^7', 'hoist-non-react-statics': '^3' },
+          peerDependencies: { react: '*' },
+        });
+        writeJson('node_modules/react-navigation/package.json', {
+          version: '6.0.0',
+          dependencies: { '@babel/runtime': '^7', react: '^18' },
+        });
+        writeJson('node_modules/hoist-non-react-statics/package.json', {
+          dependencies: { 'react-is': '^16' },
+        });
+        writeJson('node_modules/jest/package.json', { dependencies: { 'react-is': '^18' } });
+
+        const modules: ModuleData[] = [
+          { id: 0, path: 'node_modules/react-redux/lib/index.js', size: 100 },
+          { id: 1, path: 'node_modules/react-navigation/index.js', size: 300 },
+          { id: 2, path: 'node_modules/@babel/runtime/helpers/extends.js', size: 40 },
+          { id: 3, path: 'node_modules/hoist-non-react-statics/index.js', size: 20 },
+          { id: 4, path: 'node_modules/react-is/index.js', size: 10 },
+          { id: 5, path: 'node_modules/react/index.js', size: 500 },
+        ];
+        const { directDependencies } = new DependencyAnalyzer(modules, tmpDir).analyze();
+
+        expect(directDependencies!.map((dep) => [dep.name, dep.totalSize])).toEqual([
+          ['react', 500],
+          ['react-navigation', 320],
+          ['react-redux', 150],
+        ]);
+        expect(directDependencies![2]).toMatchObject({
+          version: '8.1.0',
+          size: 100,
+          exclusiveSize: 30,
+          sharedSize: 20,
+          transitive: [
+            { name: '@babel/runtime', size: 40, sharedWith: ['react-navigation'] },
+            { name: 'hoist-non-react-statics', size: 20, sharedWith: [] },
+            { name: 'react-is', size: 10, sharedWith: [] },
+          ],
+        });
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('workspaces', () => {
+    it('should report workspace packages apart from the app code', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dependency-analyzer-'));
+      try {
+        const writeJson = (relativePath: string, data: object) => {
+          fs.mkdirSync(path.dirname(path.join(tmpDir, relativePath)), { recursive: true });
+          fs.writeFileSync(path.join(tmpDir, relativePath), JSON.stringify(data));
+        };
+        writeJson('package.json', { workspaces: ['apps/*', 'packages/*'] });
+        writeJson('apps/mobile/package.json', { name: 'mobile' });
+        writeJson('packages/ui/package.json', { name: '@acme/ui', version: '2.0.0' });
+
+        const modules: ModuleData[] = [
+          { id: 0, path: 'src/App.tsx', size: 10, dependencies: [1], isEntry: true },
+          { id: 1, path: 'packages/ui/src/Button.tsx', size: 30, dependencies: [2] },
+          { id: 2, path: 'packages/ui/src/theme.ts', size: 20, dependencies: [] },
+        ];
+        const analysis = new DependencyAnalyzer(
+          modules,
+          path.join(tmpDir, 'apps/mobile')
+        ).analyze();
+
+        expect(analysis.yourCodeSize).toBe(10);
+        expect(analysis.workspaceSize).toBe(50);
+        expect(analysis.packages).toHaveLength(1);
+        expect(analysis.packages[0]).toMatchObject({
+          name: '@acme/ui',
+          size: 50,
+          version: '2.0.0',
+          workspace: 'packages/ui',
+          retainedSize: 50,
+        });
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
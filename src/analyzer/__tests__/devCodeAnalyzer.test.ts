@@ -0,0 +1,87 @@
+import { DevCodeAnalyzer } from '../devCodeAnalyzer';
+import { OptimizationEngine } from '../optimizationEngine';
+import { BundleAnalysis, ModuleData } from '../../types';
+
+describe('DevCodeAnalyzer', () => {
+  const appCode = 'function App(){if(__DEV__){console.log("render")}return null}';
+  const modules: ModuleData[] = [
+    { id: 0, path: 'src/App.js', size: appCode.length },
+    { id: 1, path: 'node_modules/reactotron-react-native/dist/index.js', size: 4000 },
+    { id: 2, path: 'node_modules/reactotron-react-native/dist/plugins.js', size: 1000 },
+    { id: 3, path: 'node_modules/react/cjs/react.development.js', size: 80000 },
+    { id: 4, path: 'node_modules/lib/index.js', size: 500 },
+    { id: 5, path: '__prelude__', size: 100 },
+  ];
+  const moduleCode = new Map([
+    [0, appCode],
+    [4, 'var a=1;"production"!==process.env.NODE_ENV&&warn("slow");module.exports=a'],
+    [5, 'var __DEV__=false,__BUNDLE_START_TIME__=Date.now();'],
+  ]);
+
+  it('should find dev-only packages, React development builds and dev branches', () => {
+    const devCode = new DevCodeAnalyzer(modules, moduleCode).analyze();
+
+    expect(devCode.findings.map((finding) => [finding.kind, finding.name, finding.size])).toEqual([
+      ['react-dev-build', 'react', 80000],
+      ['dev-package', 'reactotron-react-native', 5000],
+      ['dev-branch', 'src/App.js', '){console.log("render")}'.length],
+      ['dev-branch', 'lib', '&&warn("slow");'.length],
+    ]);
+    expect(devCode.findings[1].moduleCount).toBe(2);
+    expect(devCode.isDevBundle).toBe(false);
+    expect(devCode.unscannedModuleCount).toBe(0);
+  });
+
+  it('should report a dev bundle as a whole', () => {
+    const devCode = new DevCodeAnalyzer(modules, moduleCode, true, 100000).analyze();
+
+    expect(devCode.findings).toEqual([
+      expect.objectContaining({ kind: 'dev-bundle', size: 100000, moduleCount: 6 }),
+    ]);
+    expect(devCode.totalSize).toBe(100000);
+  });
+
+  it('should turn findings into high-severity suggestions', () => {
+    const analysis = {
+      packages: [],
+      duplicates: [],
+      devCode: new DevCodeAnalyzer(modules, moduleCode).analyze(),
+    } as unknown as BundleAnalysis;
+
+    const suggestions = OptimizationEngine.generateOptimizations(analysis);
+
+    expect(suggestions.map((s) => [s.rule, s.severity, s.potentialSavings])).toEqual([
+      ['dev-code:react-dev-build', 'high', 80000],
+      ['dev-code:dev-package', 'high', 5000],
+      ['dev-code:dev-branch', 'high', 24],
+      ['dev-code:dev-branch', 'high', 15],
+    ]);
+  });
+
+  describe('findDevBranches', () => {
+    it('should measure guarded blocks and skip declarations and negations', () => {
+      expect(
+        DevCodeAnalyzer.findDevBranches(
+          'if (__DEV__) { check({ a: "}" }); } if (!__DEV__) x(); global.__DEV__ = true;'
+        )
+      ).toEqual({ count: 1, size: ') { check({ a: "}" }); }'.length });
+      expect(
+        DevCodeAnalyzer.findDevBranches(
+          "if (process.env.NODE_ENV === 'development') warn(); var dev = typeof __DEV__;"
+        )
+      ).toEqual({ count: 1, size: ') warn();'.length });
+    });
+
+    it('should skip conditions in strings and comments and brackets in regular expressions', () => {
+      expect(
+        DevCodeAnalyzer.findDevBranches(
+          'var s = "__DEV__"; // if (__DEV__) {\n' +
+            '__DEV__ && check(/}/.test(s), "production" !== process.env.NODE_ENV); next();'
+        )
+      ).toEqual({
+        count: 1,
+        size: ' && check(/}/.test(s), "production" !== process.env.NODE_ENV);'.length,
+      });
+    });
+  });
+});
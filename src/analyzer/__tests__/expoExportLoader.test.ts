@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BundleLoader } from '../bundleLoader';
+import { DependencyAnalyzer } from '../dependencyAnalyzer';
+import { ExpoExportLoader } from '../expoExportLoader';
+
+const entryBundle =
+  'var __BUNDLE_START_TIME__=Date.now();\n' +
+  '__d(function(g,r,i,a,m,e,d){m.exports=r(d[0]);},0,[1]);\n' +
+  '__d(function(g,r,i,a,m,e,d){m.exports="shared";},1,[]);\n' +
+  '__r(0);';
+
+// Async route chunk; module 1 is bundled again
+const routeChunk =
+  '__d(function(g,r,i,a,m,e,d){m.exports="settings"+r(d[0])+r(d[1]);},5,[1,0]);\n' +
+  '__d(function(g,r,i,a,m,e,d){m.exports="shared";},1,[]);';
+
+const entryMap = {
+  version: 3,
+  sources: ['/app/app/_layout.tsx', '/app/node_modules/lib/index.js'],
+  mappings: ';AAAA;ACAA;',
+};
+
+describe('ExpoExportLoader', () => {
+  let exportDir: string;
+  let jsDir: string;
+
+  beforeAll(() => {
+    exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'expo-export-'));
+    jsDir = path.join(exportDir, '_expo', 'static', 'js', 'ios');
+    fs.mkdirSync(jsDir, { recursive: true });
+    fs.writeFileSync(path.join(jsDir, 'entry-abc123.hbc.js'), entryBundle);
+    fs.writeFileSync(path.join(jsDir, 'entry-abc123.hbc.js.map'), JSON.stringify(entryMap));
+    fs.writeFileSync(path.join(jsDir, 'settings-def456.js'), routeChunk);
+    fs.writeFileSync(
+      path.join(exportDir, 'metadata.json'),
+      JSON.stringify({
+        version: 0,
+        bundler: 'metro',
+        fileMetadata: { ios: { bundle: '_expo/static/js/ios/entry-abc123.hbc.js', assets: [] } },
+      })
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(exportDir, { recursive: true, force: true });
+  });
+
+  it('should recognize export directories and their metadata.json', () => {
+    expect(ExpoExportLoader.isExpoExport(exportDir)).toBe(true);
+    expect(ExpoExportLoader.isExpoExport(path.join(exportDir, 'metadata.json'))).toBe(true);
+    expect(ExpoExportLoader.isExpoExport(jsDir)).toBe(false);
+  });
+
+  it('should list the entry chunk first with its sourcemap', () => {
+    const chunks = ExpoExportLoader.findChunks(exportDir, 'ios');
+
+    expect(chunks.map((chunk) => chunk.name)).toEqual([
+      '_expo/static/js/ios/entry-abc123.hbc.js',
+      '_expo/static/js/ios/settings-def456.js',
+    ]);
+    expect(chunks.map((chunk) => chunk.isInitial)).toEqual([true, false]);
+    expect(chunks[0].sourcemapPath).toBe(path.join(jsDir, 'entry-abc123.hbc.js.map'));
+    expect(chunks[1].sourcemapPath).toBeUndefined();
+  });
+
+  it('should name the available platforms when one is missing', () => {
+    expect(() => ExpoExportLoader.findChunks(exportDir, 'android')).toThrow(
+      /platform "android" \(available: ios\)/
+    );
+  });
+
+  it('should combine the chunks into one analysis', () => {
+    const loaded = ExpoExportLoader.load(exportDir, 'ios');
+    const entryName = '_expo/static/js/ios/entry-abc123.hbc.js';
+    const routeName = '_expo/static/js/ios/settings-def456.js';
+
+    expect(loaded.totalSize).toBe(Buffer.byteLength(entryBundle) + Buffer.byteLength(routeChunk));
+    expect(loaded.modules.map((module) => [module.id, module.chunk])).toEqual([
+      [0, entryName],
+      [1, entryName],
+      ['[unmapped]', entryName],
+      [5, routeName],
+      [`1@${routeName}`, routeName],
+      ['[runtime]', routeName],
+    ]);
+    expect(loaded.modules[1].path).toBe('node_modules/lib/index.js');
+    // Requires resolve to the copy in the same chunk, then to the first copy
+    expect(loaded.modules[0].dependencies).toEqual([1]);
+    expect(loaded.modules[3].dependencies).toEqual([`1@${routeName}`, 0]);
+
+    const analysis = new DependencyAnalyzer(loaded.modules).analyze();
+    BundleLoader.applyTo(analysis, loaded);
+
+    expect(analysis.chunks).toHaveLength(2);
+    expect(analysis.initialSize).toBe(Buffer.byteLength(entryBundle));
+    expect(analysis.lazySize).toBe(Buffer.byteLength(routeChunk));
+    expect(analysis.chunks!.map((chunk) => chunk.moduleCount)).toEqual([3, 3]);
+  });
+});
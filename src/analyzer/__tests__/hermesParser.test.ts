@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HermesParser } from '../hermesParser';
+import { SourcemapParser } from '../../utils/sourcemapParser';
+
+const MAGIC = [0xc6, 0x1f, 0xbc, 0x03, 0xc1, 0x03, 0x19, 0x1f];
+
+// Where version 90 keeps debugInfoOffset in the header
+const DEBUG_INFO_OFFSET_FIELD = 104;
+const FLAG_HAS_DEBUG_INFO = 1 << 4;
+
+interface TestFunction {
+  name: number;
+  size: number;
+  // Offset of the function's source locations in the debug data
+  debugOffset?: number;
+}
+
+/**
+ * Build a minimal Hermes bytecode file with the given functions and strings, and debug
+ * info file regions when given
+ */
+function buildBytecode(
+  functions: TestFunction[],
+  strings: string[],
+  fileRegions: Array<{ fromAddress: number; filename: string }> = []
+): Buffer {
+  const storage = Buffer.from(strings.join(''), 'latin1');
+  const stringTableOffset = 128 + functions.length * 16;
+  const storageOffset = stringTableOffset + strings.length * 4;
+  // Function info (each function's debug offset) and debug info follow the strings
+  const infoOffset = Math.ceil((storageOffset + storage.length) / 4) * 4;
+  const debugInfoOffset = infoOffset + functions.length * 4;
+  const filenames = fileRegions.map((region) => Buffer.from(region.filename, 'utf-8'));
+  const filenameStorageOffset = debugInfoOffset + 20 + filenames.length * 8;
+  const regionsOffset =
+    filenameStorageOffset + filenames.reduce((sum, filename) => sum + filename.length, 0);
+  const buffer = Buffer.alloc(
+    fileRegions.length > 0
+      ? regionsOffset + fileRegions.length * 12
+      : storageOffset + storage.length
+  );
+
+  Buffer.from(MAGIC).copy(buffer, 0);
+  buffer.writeUInt32LE(90, 8); // version
+  buffer.writeUInt32LE(buffer.length, 32); // fileLength
+  buffer.writeUInt32LE(functions.length, 40); // functionCount
+  buffer.writeUInt32LE(strings.length, 52); // stringCount
+  buffer.writeUInt32LE(storage.length, 60); // stringStorageSize
+
+  functions.forEach((fn, index) => {
+    const base = 128 + index * 16;
+    buffer.writeUInt32LE(index * 100, base); // offset
+    buffer.writeUInt32LE((fn.size | (fn.name << 15)) >>> 0, base + 4);
+    if (fn.debugOffset !== undefined) {
+      buffer.writeUInt32LE(infoOffset + index * 4, base + 8); // infoOffset
+      buffer.writeUInt8(FLAG_HAS_DEBUG_INFO, base + 15);
+      buffer.writeUInt32LE(fn.debugOffset, infoOffset + index * 4);
+    }
+  });
+
+  let offset = 0;
+  strings.forEach((str, index) => {
+    buffer.writeUInt32LE(((offset << 1) | (str.length << 24)) >>> 0, stringTableOffset + index * 4);
+    offset += str.length;
+  });
+  storage.copy(buffer, storageOffset);
+
+  if (fileRegions.length > 0) {
+    buffer.writeUInt32LE(debugInfoOffset, DEBUG_INFO_OFFSET_FIELD);
+    buffer.writeUInt32LE(filenames.length, debugInfoOffset); // filenameCount
+    buffer.writeUInt32LE(regionsOffset - filenameStorageOffset, debugInfoOffset + 4);
+    buffer.writeUInt32LE(fileRegions.length, debugInfoOffset + 8); // fileRegionCount
+
+    let filenameOffset = 0;
+    filenames.forEach((filename, index) => {
+      buffer.writeUInt32LE(filenameOffset, debugInfoOffset + 20 + index * 8);
+      buffer.writeUInt32LE(filename.length, debugInfoOffset + 24 + index * 8);
+      filename.copy(buffer, filenameStorageOffset + filenameOffset);
+      filenameOffset += filename.length;
+    });
+    fileRegions.forEach((region, index) => {
+      buffer.writeUInt32LE(region.fromAddress, regionsOffset + index * 12);
+      buffer.writeUInt32LE(index, regionsOffset + index * 12 + 4); // filenameId
+    });
+  }
+
+  return buffer;
+}
+
+function loadSourcemap(data: object): SourcemapParser {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hermes-parser-'));
+  const mapPath = path.join(tmpDir, 'index.android.bundle.map');
+  fs.writeFileSync(mapPath, JSON.stringify(data));
+
+  const parser = new SourcemapParser(mapPath);
+  parser.load();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  return parser;
+}
+
+describe('HermesParser', () => {
+  describe('isHermesBytecode', () => {
+    it('should detect the Hermes magic number', () => {
+      expect(HermesParser.isHermesBytecode(buildBytecode([], []))).toBe(true);
+    });
+
+    it('should reject plain JavaScript bundles', () => {
+      const buffer = Buffer.from('__d(function(g,r,i,a,m,e,d){},0,[]);');
+      expect(HermesParser.isHermesBytecode(buffer)).toBe(false);
+    });
+  });
+
+  describe('parseHeader', () => {
+    it('should decode header fields', () => {
+      const parser = new HermesParser(buildBytecode([{ name: 0, size: 10 }], ['global']));
+      const header = parser.parseHeader();
+
+      expect(header.version).toBe(90);
+      expect(header.functionCount).toBe(1);
+      expect(header.stringCount).toBe(1);
+    });
+
+    it('should throw for non-Hermes input', () => {
+      const parser = new HermesParser(Buffer.from('not bytecode'));
+      expect(() => parser.parseHeader()).toThrow('Not a Hermes bytecode file');
+    });
+  });
+
+  describe('getFunctions', () => {
+    it('should decode function names and bytecode sizes', () => {
+      const parser = new HermesParser(
+        buildBytecode(
+          [
+            { name: 0, size: 120 },
+            { name: 1, size: 80 },
+          ],
+          ['global', 'render']
+        )
+      );
+      const functions = parser.getFunctions();
+
+      expect(functions).toHaveLength(2);
+      expect(functions[0].name).toBe('global');
+      expect(functions[0].bytecodeSize).toBe(120);
+      expect(functions[1].name).toBe('render');
+      expect(functions[1].offset).toBe(100);
+    });
+  });
+
+  describe('parse', () => {
+    it('should group function sizes into modules', () => {
+      const parser = new HermesParser(
+        buildBytecode(
+          [
+            { name: 0, size: 120 },
+            { name: 1, size: 80 },
+            { name: 1, size: 20 },
+          ],
+          ['global', 'render']
+        )
+      );
+      const modules = parser.parse();
+
+      expect(modules).toHaveLength(2);
+      expect(modules.find((m) => m.path === 'hermes/render')?.size).toBe(100);
+    });
+
+    it('should attribute functions to the filenames in their debug info', () => {
+      const parser = new HermesParser(
+        buildBytecode(
+          [
+            { name: 0, size: 120, debugOffset: 0 },
+            { name: 1, size: 80, debugOffset: 40 },
+            { name: 1, size: 30, debugOffset: 64 },
+            { name: 1, size: 20 },
+          ],
+          ['global', 'render'],
+          [
+            { fromAddress: 0, filename: '/app/node_modules/lib/index.js' },
+            { fromAddress: 32, filename: '/app/src/App.js' },
+          ]
+        )
+      );
+      const modules = parser.parse();
+
+      expect(modules.map((m) => [m.path, m.size])).toEqual([
+        ['node_modules/lib/index.js', 120],
+        ['src/App.js', 110],
+        ['hermes/render', 20],
+      ]);
+    });
+
+    it('should attribute functions through x_hermes_function_offsets in the sourcemap', () => {
+      const bytecode = buildBytecode(
+        [
+          { name: 0, size: 120 },
+          { name: 1, size: 80 },
+          { name: 1, size: 20 },
+        ],
+        ['global', 'render']
+      );
+      // a.js covers columns 0-49 of line 1 and b.js the rest
+      const sourcemap = {
+        version: 3,
+        sources: ['/app/src/a.js', '/app/src/b.js'],
+        mappings: 'AAAA,kDCAA',
+      };
+
+      // Function offsets in the file are 0, 100 and 200
+      const byFileOffset = new HermesParser(bytecode, loadSourcemap(sourcemap)).parse();
+      expect(byFileOffset.map((m) => [m.path, m.size])).toEqual([
+        ['src/a.js', 120],
+        ['src/b.js', 100],
+      ]);
+
+      const byFunctionOffset = new HermesParser(
+        bytecode,
+        loadSourcemap({ ...sourcemap, x_hermes_function_offsets: { 0: [60, 0, 10] } })
+      ).parse();
+      expect(byFunctionOffset.map((m) => [m.path, m.size])).toEqual([
+        ['src/b.js', 120],
+        ['src/a.js', 100],
+      ]);
+    });
+  });
+});
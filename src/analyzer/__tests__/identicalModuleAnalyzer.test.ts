@@ -0,0 +1,136 @@
+import { ModuleData, ModuleId } from '../../types';
+import { IdenticalModuleAnalyzer } from '../identicalModuleAnalyzer';
+
+// A helper body padded past the size below which modules are not compared
+const HELPER =
+  'var __assign=function(){return(__assign=Object.assign||function(t){' +
+  'for(var s,i=1,n=arguments.length;i<n;i++)for(var p in (s=arguments[i]))' +
+  'Object.prototype.hasOwnProperty.call(s,p)&&(t[p]=s[p]);return t}).apply(this,arguments)};' +
+  'e.__assign=__assign;';
+
+function wrap(id: number, body: string, dependencies: number[] = []): string {
+  return `__d(function(g,r,i,a,m,e,d){${body}},${id},[${dependencies.join(',')}]);`;
+}
+
+function createBundle(code: Array<[string, string]>): {
+  modules: ModuleData[];
+  moduleCode: Map<ModuleId, string>;
+} {
+  const modules = code.map(([path, body], id) => ({ id, path, size: body.length }));
+  return { modules, moduleCode: new Map(code.map(([, body], id) => [id, body])) };
+}
+
+describe('IdenticalModuleAnalyzer', () => {
+  describe('fingerprint', () => {
+    it('should ignore the factory wrapper, whitespace and comments', () => {
+      const minified = IdenticalModuleAnalyzer.fingerprint(
+        wrap(3, 'm.exports=function(a){return a+1};')
+      );
+      const formatted = IdenticalModuleAnalyzer.fingerprint(
+        '__d(function (global, require, importDefault, importAll, module, exports, dependencyMap) {\n' +
+          '  // increment\n' +
+          '  m.exports = function (a) { return a + 1 }; /* done */\n' +
+          '},42,[7,8],"node_modules/other/inc.js");'
+      );
+
+      expect(formatted.exact).toBe(minified.exact);
+    });
+
+    it('should rename identifiers and numbers but keep keywords, properties and strings', () => {
+      const a = IdenticalModuleAnalyzer.fingerprint('var foo=bar.call(x,"a",1);');
+      const b = IdenticalModuleAnalyzer.fingerprint('var baz=qux.call(y,"a",2);');
+      const c = IdenticalModuleAnalyzer.fingerprint('var baz=qux.apply(y,"a",2);');
+      const d = IdenticalModuleAnalyzer.fingerprint('var baz=qux.call(y,"b",2);');
+
+      expect(a.exact).not.toBe(b.exact);
+      expect(a.near).toBe(b.near);
+      expect(a.near).not.toBe(c.near);
+      expect(a.near).not.toBe(d.near);
+    });
+
+    it('should read regular expressions as single tokens', () => {
+      expect(IdenticalModuleAnalyzer.fingerprint('a=/"[}]/g;b(`${c}`)').exact).toBe(
+        'a = /"[}]/g ; b ( `${ c }` )'
+      );
+    });
+  });
+
+  describe('analyze', () => {
+    it('should group copies of the same code across packages', () => {
+      const { modules, moduleCode } = createBundle([
+        ['node_modules/tslib/tslib.js', wrap(0, HELPER)],
+        ['node_modules/lib-a/node_modules/tslib/tslib.js', wrap(1, HELPER, [4])],
+        ['node_modules/lib-b/dist/helpers.js', wrap(2, HELPER.replace(/;/g, ';\n'))],
+        ['src/App.js', wrap(3, HELPER.replace('__assign', '__extends'))],
+        ['node_modules/lib-c/index.js', wrap(4, 'm.exports=r(d[0]);')],
+        ['node_modules/lib-d/index.js', wrap(5, 'm.exports=r(d[0]);')],
+      ]);
+
+      const analysis = new IdenticalModuleAnalyzer(modules, moduleCode).analyze()!;
+
+      expect(analysis.groups).toHaveLength(1);
+      const [group] = analysis.groups;
+      expect(group.exact).toBe(true);
+      expect(group.packages).toEqual(['lib-b', 'tslib']);
+      expect(group.modules.map((module) => module.id)).toEqual([2, 1, 0]);
+      expect(group.wastedSize).toBe(modules[0].size + modules[1].size);
+      expect(analysis.totalWaste).toBe(group.wastedSize);
+    });
+
+    it('should match larger modules that differ only in names and numbers', () => {
+      const body = Array.from(
+        { length: 20 },
+        (_, n) => `function f${n}(x){return x*${n}+"${n}"}`
+      ).join(';');
+      const renamed = body.replace(/x/g, 'y').replace(/\*\d+/g, '*2');
+      const { modules, moduleCode } = createBundle([
+        ['node_modules/lib-a/math.js', wrap(0, body + body)],
+        ['node_modules/lib-b/math.js', wrap(1, renamed + renamed)],
+      ]);
+
+      const [group] = new IdenticalModuleAnalyzer(modules, moduleCode).analyze()!.groups;
+
+      expect(group.exact).toBe(false);
+      expect(group.packages).toEqual(['lib-a', 'lib-b']);
+    });
+
+    it('should not match locales that share their code but not their text', () => {
+      // Like moment/locale/*.js: the same defineLocale call with different month names
+      const locale = (months: string) =>
+        [
+          'months',
+          'monthsShort',
+          'monthsParse',
+          'monthsFormat',
+          'weekdays',
+          'weekdaysShort',
+          'weekdaysMin',
+          'weekdaysParse',
+        ]
+          .map((name) => `var ${name}=${JSON.stringify(months.split(' '))};`)
+          .join('') +
+        'm.exports=r(d[0]).defineLocale("x",{months:months,monthsShort:monthsShort,' +
+        'weekdays:weekdays,weekdaysShort:weekdaysShort,weekdaysMin:weekdaysMin,' +
+        'week:{dow:1,doy:4},ordinal:function(n){return n+"."}});';
+      const { modules, moduleCode } = createBundle([
+        [
+          'node_modules/moment/locale/fr.js',
+          wrap(0, locale('janvier février mars avril mai juin juillet août septembre octobre')),
+        ],
+        [
+          'node_modules/moment/locale/de.js',
+          wrap(1, locale('Januar Februar März April Mai Juni Juli August September Oktober')),
+        ],
+      ]);
+      expect(modules[0].size).toBeGreaterThan(1024);
+
+      expect(new IdenticalModuleAnalyzer(modules, moduleCode).analyze()!.groups).toEqual([]);
+    });
+
+    it('should return undefined without module code', () => {
+      const { modules } = createBundle([['node_modules/tslib/tslib.js', HELPER]]);
+
+      expect(new IdenticalModuleAnalyzer(modules).analyze()).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { InlineDataAnalyzer } from '../inlineDataAnalyzer';
+import { ModuleData } from '../../types';
+
+describe('InlineDataAnalyzer', () => {
+  describe('findLiterals', () => {
+    it('should find data URIs and work out what a base64 image costs as an asset', () => {
+      const payload = 'A'.repeat(4000);
+      const code = `var icon={uri:"data:image/png;base64,${payload}"};`;
+
+      const [literal] = InlineDataAnalyzer.findLiterals(code);
+
+      expect(literal).toMatchObject({
+        kind: 'data-uri',
+        mimeType: 'image/png',
+        offset: code.indexOf('"data:'),
+        size: payload.length + '"data:image/png;base64,"'.length,
+        assetSize: 3000,
+      });
+    });
+
+    it('should report data literals as a whole and tell translation tables from JSON', () => {
+      const entries = Array.from({ length: 100 }, (_, i) => `key${i}:"Translated text ${i}"`);
+      const translations = `{${entries.join(',')}}`;
+      const animation = `{v:"5.7.4",fr:30,ip:0,op:90,layers:[${Array.from(
+        { length: 100 },
+        (_, i) => `{ind:${i},ty:4,ks:{o:{a:0,k:100},p:{a:1,k:[0,-1.5,!0]}}}`
+      ).join(',')}]}`;
+      const code = `e.fr=${translations};e.anim=${animation};function f(){return ${translations.replace(
+        /"Translated/g,
+        'g("Translated'
+      )}}`;
+
+      expect(InlineDataAnalyzer.findLiterals(code).map((literal) => literal.kind)).toEqual([
+        'translations',
+        'json',
+      ]);
+      expect(InlineDataAnalyzer.findLiterals(code)[0].entryCount).toBe(100);
+    });
+
+    it('should find long strings, JSON strings and data arrays, but not regular expressions', () => {
+      const text = 'x'.repeat(3000);
+      const json = JSON.stringify({ items: Array.from({ length: 600 }, (_, i) => i) });
+      const code = `var a=/["'\`]/g,b="${text}",c=JSON.parse('${json}'),d=[${Array.from(
+        { length: 800 },
+        (_, i) => i
+      ).join(',')}];`;
+
+      expect(InlineDataAnalyzer.findLiterals(code).map((literal) => literal.kind)).toEqual([
+        'string',
+        'json',
+        'array',
+      ]);
+    });
+  });
+
+  it('should attribute literals to their modules, largest first', () => {
+    const modules: ModuleData[] = [
+      { id: 0, path: 'src/assets/logo.ts', size: 5000 },
+      { id: 1, path: 'node_modules/lib/strings.js', size: 3000 },
+      { id: 2, path: 'node_modules/lib/index.js', size: 10 },
+    ];
+    const moduleCode = new Map([
+      [0, `m.exports="data:image/svg+xml;base64,${'B'.repeat(4900)}"`],
+      [1, `m.exports='${'y'.repeat(2900)}'`],
+    ]);
+
+    const inlineData = new InlineDataAnalyzer(modules, moduleCode).analyze()!;
+
+    expect(inlineData.items.map((item) => [item.path, item.package, item.kind])).toEqual([
+      ['src/assets/logo.ts', undefined, 'data-uri'],
+      ['node_modules/lib/strings.js', 'lib', 'string'],
+    ]);
+    expect(inlineData.assetCandidateCount).toBe(1);
+    expect(inlineData.unscannedModuleCount).toBe(1);
+    expect(new InlineDataAnalyzer(modules).analyze()).toBeUndefined();
+  });
+});
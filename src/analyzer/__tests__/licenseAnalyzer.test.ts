@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LicenseAnalyzer } from '../licenseAnalyzer';
+import { ModuleData } from '../../types';
+
+function writeFile(root: string, relativePath: string, content: string): void {
+  const filePath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+describe('LicenseAnalyzer', () => {
+  describe('analyze', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'license-analyzer-'));
+      writeFile(
+        tmpDir,
+        'node_modules/lib-a/package.json',
+        JSON.stringify({
+          version: '1.0.0',
+          license: 'MIT',
+          author: { name: 'Jane Doe' },
+          repository: { type: 'git', url: 'https://github.com/example/lib-a' },
+        })
+      );
+      writeFile(tmpDir, 'node_modules/lib-a/LICENSE.md', 'MIT License\n\nCopyright Jane Doe\n');
+      writeFile(
+        tmpDir,
+        'node_modules/legacy/package.json',
+        JSON.stringify({
+          version: '0.1.0',
+          licenses: [{ type: 'MIT' }, { type: 'GPL-2.0' }, { type: 42 }],
+        })
+      );
+      writeFile(
+        tmpDir,
+        'node_modules/gpl/package.json',
+        JSON.stringify({ license: 'GPL-3.0-only' })
+      );
+      writeFile(tmpDir, 'node_modules/none/package.json', JSON.stringify({ version: '2.0.0' }));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    const modules: ModuleData[] = [
+      { id: 0, path: 'src/App.js', size: 10 },
+      { id: 1, path: 'node_modules/lib-a/index.js', size: 100 },
+      { id: 2, path: 'node_modules/lib-a/util.js', size: 50 },
+      { id: 3, path: 'node_modules/legacy/index.js', size: 20 },
+      { id: 4, path: 'node_modules/gpl/index.js', size: 30 },
+      { id: 5, path: 'node_modules/none/index.js', size: 40 },
+    ];
+
+    it('should read the license of each bundled package', () => {
+      const licenses = new LicenseAnalyzer(modules, tmpDir).analyze();
+
+      expect(licenses.packages.map((pkg) => [pkg.name, pkg.license, pkg.size])).toEqual([
+        ['gpl', 'GPL-3.0-only', 30],
+        ['legacy', '(MIT OR GPL-2.0)', 20],
+        ['lib-a', 'MIT', 150],
+        ['none', 'UNKNOWN', 40],
+      ]);
+      expect(licenses.packages[2]).toMatchObject({
+        version: '1.0.0',
+        author: 'Jane Doe',
+        repository: 'https://github.com/example/lib-a',
+        licenseFile: 'LICENSE.md',
+        licenseText: 'MIT License\n\nCopyright Jane Doe',
+      });
+      expect(licenses.unknownCount).toBe(1);
+      expect(licenses.violationCount).toBe(0);
+      expect(licenses.policy).toBeUndefined();
+    });
+
+    it('should flag packages that break the license policy', () => {
+      const licenses = new LicenseAnalyzer(modules, tmpDir, { deny: ['GPL', 'AGPL'] }).analyze();
+
+      expect(licenses.violationCount).toBe(1);
+      expect(licenses.packages[0].violation).toBe('Denied license GPL-3.0-only');
+      // MIT is an allowed alternative
+      expect(licenses.packages[1].violation).toBeUndefined();
+    });
+  });
+
+  describe('checkPolicy', () => {
+    it('should match policy entries as license prefixes', () => {
+      const policy = { deny: ['GPL'] };
+
+      expect(LicenseAnalyzer.checkPolicy('GPL-2.0+', policy)).toBe('Denied license GPL-2.0+');
+      expect(LicenseAnalyzer.checkPolicy('LGPL-2.1', policy)).toBeUndefined();
+      expect(LicenseAnalyzer.checkPolicy('UNKNOWN', policy)).toBeUndefined();
+    });
+
+    it('should evaluate AND and OR expressions against an allow list', () => {
+      const policy = { allow: ['MIT', 'Apache-2.0', 'BSD'] };
+
+      expect(LicenseAnalyzer.checkPolicy('(MIT OR GPL-3.0)', policy)).toBeUndefined();
+      expect(
+        LicenseAnalyzer.checkPolicy('Apache-2.0 WITH LLVM-exception AND BSD-3-Clause', policy)
+      ).toBeUndefined();
+      expect(LicenseAnalyzer.checkPolicy('MIT AND CC-BY-SA-4.0', policy)).toBe(
+        'License CC-BY-SA-4.0 is not in the allow list'
+      );
+      expect(LicenseAnalyzer.checkPolicy('SEE LICENSE IN LICENSE.txt', policy)).toBe(
+        'License SEE LICENSE IN LICENSE.txt is not in the allow list'
+      );
+      expect(LicenseAnalyzer.checkPolicy('UNKNOWN', policy)).toBe('No license found');
+    });
+  });
+});
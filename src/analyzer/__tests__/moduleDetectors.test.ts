@@ -0,0 +1,107 @@
+import { MODULE_DETECTORS } from '../moduleDetectors';
+import { PackageInfo } from '../../types';
+
+const KB = 1024;
+
+function createPackage(name: string, files: Array<[string, number]>): PackageInfo {
+  const modules = files.map(([file, size], id) => ({
+    id,
+    path: `node_modules/${name}/${file}`,
+    size,
+  }));
+  return {
+    name,
+    size: modules.reduce((sum, module) => sum + module.size, 0),
+    percentage: 0,
+    modules,
+  };
+}
+
+function detect(name: string, packages: PackageInfo[]) {
+  const detector = MODULE_DETECTORS.find((d) => d.name === name)!;
+  return detector.detect(packages);
+}
+
+describe('MODULE_DETECTORS', () => {
+  it('should count moment locales beyond the largest few as savings', () => {
+    const moment = createPackage('moment', [
+      ['moment.js', 60 * KB],
+      ['locale/fr.js', 8 * KB],
+      ['locale/de.js', 7 * KB],
+      ['locale/es.js', 6 * KB],
+      ['locale/it.js', 5 * KB],
+      ['locale/ja.js', 5 * KB],
+    ]);
+
+    const [suggestion] = detect('moment-locales', [moment]);
+
+    expect(suggestion).toMatchObject({
+      package: 'moment',
+      currentSize: 31 * KB,
+      potentialSavings: 10 * KB,
+    });
+    expect(suggestion.suggestion).toContain('5 locales are bundled');
+  });
+
+  it('should count every locale when moment bundles all of them', () => {
+    const moment = createPackage('moment', [
+      ['moment.js', 60 * KB],
+      ['min/locales.js', 300 * KB],
+    ]);
+
+    expect(detect('moment-locales', [moment])[0]).toMatchObject({
+      severity: 'high',
+      potentialSavings: 300 * KB,
+    });
+  });
+
+  it('should group date-fns locale files and leave en-US out', () => {
+    const locales = ['fr', 'de', 'es', 'it', 'pt', 'en-US'].flatMap(
+      (locale): Array<[string, number]> => [
+        [`locale/${locale}/index.js`, 1 * KB],
+        [`locale/${locale}/_lib/localize/index.js`, 5 * KB],
+      ]
+    );
+    const dateFns = createPackage('date-fns', [['format/index.js', 20 * KB], ...locales]);
+
+    expect(detect('date-fns-locales', [dateFns])[0]).toMatchObject({
+      currentSize: 30 * KB,
+      potentialSavings: 12 * KB,
+    });
+  });
+
+  it('should only flag the full lodash build', () => {
+    const perMethod = createPackage('lodash', [
+      ['debounce.js', 2 * KB],
+      ['_baseGet.js', 1 * KB],
+    ]);
+    expect(detect('lodash-full', [perMethod])).toEqual([]);
+
+    const fullBuild = createPackage('lodash', [
+      ['lodash.js', 540 * KB],
+      ['debounce.js', 2 * KB],
+    ]);
+    expect(detect('lodash-full', [fullBuild])[0]).toMatchObject({
+      type: 'replace',
+      severity: 'high',
+      potentialSavings: 540 * KB,
+    });
+  });
+
+  it('should count core-js polyfills for proposals and common built-ins', () => {
+    const files: Array<[string, number]> = [];
+    for (let i = 0; i < 10; i++) {
+      files.push([`modules/esnext.proposal-${i}.js`, 1 * KB]);
+      files.push([`modules/es.array.method-${i}.js`, 1 * KB]);
+      files.push([`modules/web.feature-${i}.js`, 1 * KB]);
+    }
+    files.push(['internals/export.js', 5 * KB]);
+    const coreJs = createPackage('core-js', files);
+
+    expect(detect('core-js', [coreJs])[0]).toMatchObject({
+      currentSize: 35 * KB,
+      potentialSavings: 20 * KB,
+    });
+    expect(detect('core-js', [createPackage('core-js', files.slice(0, 15))])).toEqual([]);
+  });
+});
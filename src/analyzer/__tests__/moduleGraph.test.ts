@@ -0,0 +1,57 @@
+import { ModuleGraph } from '../moduleGraph';
+import { ModuleData } from '../../types';
+
+function createModules(): ModuleData[] {
+  return [
+    { id: 0, path: 'index.js', size: 10, dependencies: [1, 2], isEntry: true },
+    { id: 1, path: 'src/App.js', size: 20, dependencies: [2, 99] },
+    { id: 2, path: 'node_modules/lodash/index.js', size: 30, dependencies: [] },
+    { id: 3, path: 'src/Unused.js', size: 40, dependencies: [2] },
+  ];
+}
+
+describe('ModuleGraph', () => {
+  it('should build reverse dependencies', () => {
+    const graph = new ModuleGraph(createModules());
+
+    expect(graph.getDependentIds(2).sort()).toEqual([0, 1, 3]);
+    expect(graph.getDependentIds(0)).toEqual([]);
+  });
+
+  it('should ignore dependencies that are not in the bundle', () => {
+    const graph = new ModuleGraph(createModules());
+
+    expect(graph.getDependencyIds(1)).toEqual([2]);
+  });
+
+  it('should find modules reachable from the entry', () => {
+    const graph = new ModuleGraph(createModules());
+
+    expect(graph.getEntryIds()).toEqual([0]);
+    expect(Array.from(graph.getReachable()).sort()).toEqual([0, 1, 2]);
+  });
+
+  it('should link dependents onto module data', () => {
+    const modules = createModules();
+    new ModuleGraph(modules).linkDependents();
+
+    expect(modules[1].dependents).toEqual([0]);
+  });
+
+  it('should rebuild from a serialized analysis', () => {
+    const modules = createModules();
+    const graph = ModuleGraph.fromAnalysis({
+      totalSize: 100,
+      yourCodeSize: 70,
+      nodeModulesSize: 30,
+      reactNativeSize: 0,
+      packages: [],
+      duplicates: [],
+      optimizations: [],
+      moduleMap: modules.map((m) => [m.path, m]) as unknown as Map<string, ModuleData>,
+    });
+
+    expect(graph.getModule(3)?.path).toBe('src/Unused.js');
+    expect(graph.getEdgeCount()).toBe(4);
+  });
+});
@@ -0,0 +1,129 @@
+import { OptimizationEngine } from '../optimizationEngine';
+import { BundleAnalysis, PackageInfo } from '../../types';
+
+const KB = 1024;
+
+function createAnalysis(packages: Array<[string, number]>): BundleAnalysis {
+  const packageInfos: PackageInfo[] = packages.map(([name, size]) => ({
+    name,
+    size,
+    percentage: 0,
+    modules: [],
+  }));
+  return {
+    totalSize: packageInfos.reduce((sum, pkg) => sum + pkg.size, 0),
+    yourCodeSize: 0,
+    nodeModulesSize: 0,
+    reactNativeSize: 0,
+    packages: packageInfos,
+    duplicates: [
+      {
+        name: 'tslib',
+        versions: ['1.14.1', '2.6.2'],
+        totalWaste: 30 * KB,
+        paths: ['node_modules/tslib', 'node_modules/a/node_modules/tslib'],
+      },
+    ],
+    optimizations: [],
+    moduleMap: new Map(),
+  };
+}
+
+describe('OptimizationEngine', () => {
+  const analysis = createAnalysis([
+    ['moment', 300 * KB],
+    ['axios', 40 * KB],
+    ['@acme/charts', 250 * KB],
+    ['@acme/core', 400 * KB],
+  ]);
+
+  it('should tag built-in suggestions with their rule', () => {
+    const suggestions = OptimizationEngine.generateOptimizations(analysis);
+
+    expect(suggestions.map((s) => [s.rule, s.package, s.source])).toEqual([
+      ['large-package', '@acme/core', 'built-in'],
+      ['large-package', 'moment', 'built-in'],
+      ['replace:moment', 'moment', 'built-in'],
+      ['large-package', '@acme/charts', 'built-in'],
+      ['replace:axios', 'axios', 'built-in'],
+    ]);
+  });
+
+  it('should merge rules, thresholds and essential packages from the config', () => {
+    const suggestions = OptimizationEngine.generateOptimizations(analysis, {
+      rules: [
+        { packageName: 'moment', estimatedSavings: 10 },
+        {
+          packageName: '@acme/charts',
+          alternative: '@acme/charts-lite',
+          reason: 'The lite build drops the 3D renderers',
+          estimatedSavings: 40,
+        },
+      ],
+      disable: ['axios'],
+      thresholds: { largePackage: 350 * KB, duplicate: 20 * KB },
+      essentialPackages: ['@acme/core'],
+    });
+
+    expect(suggestions.map((s) => [s.rule, s.potentialSavings, s.source])).toEqual([
+      ['replace:@acme/charts', 100 * KB, 'config'],
+      ['replace:moment', 30 * KB, 'config'],
+      ['duplicate-package', 15 * KB, 'config'],
+    ]);
+    expect(suggestions[1].alternative).toBe('date-fns or dayjs');
+  });
+
+  it('should match rules by exact package name and defer to module detectors', () => {
+    const lodash = createAnalysis([
+      ['lodash.debounce', 20 * KB],
+      ['lodash', 100 * KB],
+    ]);
+    lodash.packages[1].modules = [{ id: 1, path: 'node_modules/lodash/lodash.js', size: 100 * KB }];
+
+    expect(
+      OptimizationEngine.generateOptimizations(lodash).map((s) => [s.rule, s.package])
+    ).toEqual([
+      ['detector:lodash-full', 'lodash'],
+      ['replace:lodash.debounce', 'lodash.debounce'],
+    ]);
+    expect(
+      OptimizationEngine.generateOptimizations(lodash, { disable: ['lodash-full'] }).map(
+        (s) => s.rule
+      )
+    ).toEqual(['replace:lodash', 'replace:lodash.debounce']);
+  });
+
+  it('should turn checks off', () => {
+    expect(OptimizationEngine.generateOptimizations(analysis, { enabled: false })).toEqual([]);
+    expect(
+      OptimizationEngine.generateOptimizations(analysis, {
+        checkHeavyPackages: false,
+        checkKnownAlternatives: false,
+      })
+    ).toEqual([]);
+  });
+
+  it('should match built-in essential packages by name part and config ones exactly', () => {
+    const essentials = createAnalysis([
+      ['react-native', 800 * KB],
+      ['react-native-reanimated', 300 * KB],
+      ['@acme/core', 250 * KB],
+      ['@acme/core-charts', 250 * KB],
+    ]);
+
+    expect(
+      OptimizationEngine.generateOptimizations(essentials, {
+        essentialPackages: ['@acme/core'],
+      }).map((s) => [s.rule, s.package])
+    ).toEqual([['large-package', '@acme/core-charts']]);
+  });
+
+  it('should skip incomplete new rules passed in code', () => {
+    expect(
+      OptimizationEngine.generateOptimizations(analysis, {
+        rules: [{ packageName: '@acme/charts', estimatedSavings: 40 }],
+        checkHeavyPackages: false,
+      }).map((s) => s.rule)
+    ).toEqual(['replace:moment', 'replace:axios']);
+  });
+});
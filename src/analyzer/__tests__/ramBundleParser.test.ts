@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RamBundleParser } from '../ramBundleParser';
+import { SourcemapParser } from '../../utils/sourcemapParser';
+
+const MAGIC = 0xfb0bd1e5;
+
+/**
+ * Build an indexed RAM bundle with the given startup code and modules keyed by ID
+ */
+function buildIndexedBundle(startupCode: string, modules: Map<number, string>): Buffer {
+  const entryCount = Math.max(...Array.from(modules.keys())) + 1;
+  const header = Buffer.alloc(12 + entryCount * 8);
+  const chunks: Buffer[] = [Buffer.from(startupCode + '\0')];
+  let offset = chunks[0].length;
+
+  header.writeUInt32LE(MAGIC, 0);
+  header.writeUInt32LE(entryCount, 4);
+  header.writeUInt32LE(chunks[0].length, 8);
+
+  modules.forEach((code, id) => {
+    const chunk = Buffer.from(code + '\0');
+    header.writeUInt32LE(offset, 12 + id * 8);
+    header.writeUInt32LE(chunk.length, 12 + id * 8 + 4);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  return Buffer.concat([header, ...chunks]);
+}
+
+describe('RamBundleParser', () => {
+  describe('isIndexedRamBundle', () => {
+    it('should detect the RAM bundle magic number', () => {
+      const buffer = buildIndexedBundle('var x;', new Map([[0, '__d(function(){},0,[]);']]));
+      expect(RamBundleParser.isIndexedRamBundle(buffer)).toBe(true);
+    });
+
+    it('should reject plain bundles', () => {
+      expect(RamBundleParser.isIndexedRamBundle(Buffer.from('__d(function(){},0);'))).toBe(false);
+    });
+  });
+
+  describe('parseIndexed', () => {
+    it('should read modules from the table of contents', () => {
+      const buffer = buildIndexedBundle(
+        'var __BUNDLE_START_TIME__=1;',
+        new Map([
+          [0, '__d(function(g,r,i,a,m,e,d){m.exports=1;},0,[]);'],
+          [3, '__d(function(g,r,i,a,m,e,d){m.exports=3;},3,[0]);'],
+        ])
+      );
+
+      const result = new RamBundleParser().parseIndexed(buffer);
+
+      expect(result.modules.map((m) => m.id)).toEqual([0, 3]);
+      expect(result.modules[1].size).toBe(
+        Buffer.byteLength('__d(function(g,r,i,a,m,e,d){m.exports=3;},3,[0]);')
+      );
+      expect(result.startupCodeSize).toBe(Buffer.byteLength('var __BUNDLE_START_TIME__=1;\0'));
+      expect(result.totalSize).toBe(buffer.length);
+    });
+
+    it('should name modules from the sourcemap lines their bytes are mapped on', () => {
+      const buffer = buildIndexedBundle(
+        'var __BUNDLE_START_TIME__=1;',
+        new Map([
+          [0, '__d(function(g,r,i,a,m,e,d){m.exports=1;},0,[]);'],
+          [3, '__d(function(g,r,i,a,m,e,d){m.exports=3;},3,[0]);'],
+        ])
+      );
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ram-bundle-'));
+      const mapPath = path.join(tmpDir, 'main.jsbundle.map');
+      // Metro lays the modules out after the startup code and records where each starts;
+      // sources are not in module order
+      fs.writeFileSync(
+        mapPath,
+        JSON.stringify({
+          version: 3,
+          sections: [
+            {
+              offset: { line: 1, column: 0 },
+              map: {
+                version: 3,
+                sources: ['/app/src/b.js', '/app/src/a.js'],
+                mappings: 'ACAA;ADAA',
+              },
+            },
+          ],
+          x_facebook_offsets: [1, null, null, 2],
+        })
+      );
+      const sourcemapParser = new SourcemapParser(mapPath);
+      sourcemapParser.load();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+
+      const result = new RamBundleParser(sourcemapParser).parseIndexed(buffer);
+
+      expect(result.modules.map((m) => [m.id, m.path])).toEqual([
+        [0, 'src/a.js'],
+        [3, 'src/b.js'],
+      ]);
+    });
+  });
+
+  describe('file RAM bundles', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ram-bundle-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should find js-modules and parse one file per module', () => {
+      const bundlePath = path.join(tmpDir, 'main.jsbundle');
+      const modulesDir = path.join(tmpDir, 'js-modules');
+      const marker = Buffer.alloc(4);
+      marker.writeUInt32LE(MAGIC, 0);
+
+      fs.writeFileSync(bundlePath, 'var startup=true;');
+      fs.mkdirSync(modulesDir);
+      fs.writeFileSync(path.join(modulesDir, 'UNBUNDLE'), marker);
+      fs.writeFileSync(path.join(modulesDir, '10.js'), '__d(function(g,r,i,a,m,e,d){},10,[]);');
+      fs.writeFileSync(path.join(modulesDir, '2.js'), '__d(function(g,r,i,a,m,e,d){},2,[]);');
+
+      expect(RamBundleParser.findFileRamBundleDir(bundlePath)).toBe(modulesDir);
+
+      const result = new RamBundleParser().parseFileBased(bundlePath, modulesDir);
+
+      expect(result.modules.map((m) => m.id)).toEqual([2, 10]);
+      expect(result.startupCodeSize).toBe(Buffer.byteLength('var startup=true;'));
+    });
+
+    it('should ignore directories without the UNBUNDLE marker', () => {
+      fs.mkdirSync(path.join(tmpDir, 'js-modules'));
+      expect(RamBundleParser.findFileRamBundleDir(path.join(tmpDir, 'main.jsbundle'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { ModuleData, ModuleId } from '../../types';
+import { StartupAnalyzer } from '../startupAnalyzer';
+
+describe('StartupAnalyzer', () => {
+  describe('findRequires', () => {
+    it('should tell top-level requires from requires inside functions', () => {
+      const code =
+        '__d(function(g,r,i,a,m,e,d){' +
+        'var React=i(d[0]);' +
+        'if(g.__DEV__){r(d[1])}' +
+        'function lazy(){return r(d[2])}' +
+        'var arrow=()=>r(d[3]),next=a(d[4]);' +
+        'class Screen{render(){return i(d[5])}}' +
+        'var s="r(d[6])",t=`${r(d[7])}`,re=/r\\(d\\[8\\]/;' +
+        'm.exports={load:function(){return r(d[9])}};' +
+        '},0,[1,2,3,4,5,6,7,8,9,10]);';
+
+      expect(StartupAnalyzer.findRequires(code)).toEqual([
+        { dependencyIndex: 0, eager: true },
+        { dependencyIndex: 1, eager: true },
+        { dependencyIndex: 2, eager: false },
+        { dependencyIndex: 3, eager: false },
+        { dependencyIndex: 4, eager: true },
+        { dependencyIndex: 5, eager: false },
+        { dependencyIndex: 7, eager: true },
+        { dependencyIndex: 9, eager: false },
+      ]);
+    });
+
+    it('should read dev bundle parameter names', () => {
+      const code =
+        '__d(function (global, _$$_REQUIRE, _$$_IMPORT_DEFAULT, _$$_IMPORT_ALL, module, exports, _dependencyMap) {\n' +
+        '  var _react = _$$_IMPORT_DEFAULT(_dependencyMap[0], "react");\n' +
+        '  function App() { return _$$_REQUIRE(_dependencyMap[1], "./Screen"); }\n' +
+        '},0,[1,2],"src/App.js");';
+
+      expect(StartupAnalyzer.findRequires(code)).toEqual([
+        { dependencyIndex: 0, eager: true },
+        { dependencyIndex: 1, eager: false },
+      ]);
+    });
+  });
+
+  describe('analyze', () => {
+    const modules: ModuleData[] = [
+      { id: 0, path: 'src/index.js', size: 100, dependencies: [1, 2], isEntry: true },
+      { id: 1, path: 'src/App.js', size: 200, dependencies: [3] },
+      { id: 2, path: 'src/Settings.js', size: 300, dependencies: [] },
+      { id: 3, path: 'node_modules/react/index.js', size: 400, dependencies: [] },
+      { id: '[runtime]', path: '[runtime]', size: 50, dependencies: [] },
+      { id: '[unmapped]', path: '[unmapped]', size: 7 },
+    ];
+    const moduleCode = new Map<ModuleId, string>([
+      [0, '__d(function(g,r,i,a,m,e,d){r(d[0]);m.exports=()=>r(d[1]);},0,[1,2]);'],
+      [1, '__d(function(g,r,i,a,m,e,d){var React=r(d[0]);},1,[3]);'],
+      [2, '__d(function(g,r,i,a,m,e,d){},2,[]);'],
+      [3, '__d(function(g,r,i,a,m,e,d){},3,[]);'],
+    ]);
+
+    it('should follow top-level requires from the entry module', () => {
+      const startup = new StartupAnalyzer(modules, moduleCode).analyze()!;
+
+      expect(startup.eagerModules.map((m) => [m.id, m.requiredBy])).toEqual([
+        [3, 1],
+        [1, 0],
+        [0, undefined],
+        ['[runtime]', undefined],
+      ]);
+      expect(startup.eagerSize).toBe(750);
+      expect(startup.deferredSize).toBe(300);
+      expect(startup.deferredModuleCount).toBe(1);
+      expect(startup.unscannedModuleCount).toBe(0);
+      expect(startup.packages).toEqual([{ name: 'react', eagerSize: 400, deferredSize: 0 }]);
+    });
+
+    it('should assume every dependency is eager without module code', () => {
+      const startup = new StartupAnalyzer(modules).analyze()!;
+
+      expect(startup.deferredModuleCount).toBe(0);
+      expect(startup.unscannedModuleCount).toBe(4);
+    });
+
+    it('should skip bundles without entry modules', () => {
+      const withoutEntry = modules.map((module) => ({ ...module, isEntry: false }));
+      expect(new StartupAnalyzer(withoutEntry, moduleCode).analyze()).toBeUndefined();
+    });
+  });
+});
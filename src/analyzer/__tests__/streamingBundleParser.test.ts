@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BundleLoader } from '../bundleLoader';
+import { BundleParser } from '../bundleParser';
+import { CompressionAnalyzer } from '../compressionAnalyzer';
+import { scanModule } from '../moduleScan';
+import { StreamingBundleParser, StreamingProgress } from '../streamingBundleParser';
+import { SourcemapParser } from '../../utils/sourcemapParser';
+
+const bundleContent =
+  'var __BUNDLE_START_TIME__=Date.now();\n' +
+  '__d(function(g,r,i,a,m,e,d){m.exports="é😀"+r(d[0]);},7,[3]);\n' +
+  '__d(function(g,r,i,a,m,e,d){m.exports=/[)}]/.test("})");},3,[]);\n' +
+  '__r(7);';
+
+// Sources are listed in the reverse order of the __d() calls; line 0 is unmapped
+const sourcemap = {
+  version: 3,
+  sources: ['/app/node_modules/lib/index.js', '/app/src/App.js'],
+  sourcesContent: [
+    'module.exports = /[)}]/.test("})");',
+    'module.exports = "é😀" + require("lib");',
+  ],
+  mappings: ';ACAA;ADAA;',
+};
+
+describe('StreamingBundleParser', () => {
+  let tmpDir: string;
+  let bundlePath: string;
+  let mapPath: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'streaming-parser-'));
+    bundlePath = path.join(tmpDir, 'index.bundle');
+    mapPath = path.join(tmpDir, 'index.bundle.map');
+    fs.writeFileSync(bundlePath, bundleContent);
+    fs.writeFileSync(mapPath, JSON.stringify(sourcemap));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should match the in-memory parser when using sourcemap mappings', async () => {
+    const sourcemapParser = new SourcemapParser(mapPath);
+    sourcemapParser.load();
+    const expected = new BundleParser(bundleContent, sourcemapParser).parse();
+
+    // Small chunks split multi-byte characters, module definitions and mapping lines
+    const result = await new StreamingBundleParser(bundlePath, {
+      sourcemapPath: mapPath,
+      chunkSize: 5,
+    }).parse();
+
+    expect(result.modules).toEqual(expected);
+    expect(result.totalSize).toBe(Buffer.byteLength(bundleContent));
+  });
+
+  it('should match the in-memory parser without a sourcemap', async () => {
+    const parser = new BundleParser(bundleContent);
+    const expected = parser.parse();
+    const result = await new StreamingBundleParser(bundlePath, { chunkSize: 3 }).parse();
+
+    expect(result.modules).toEqual(expected);
+    expect(result.runtimeSize).toBe(parser.getRuntimeModule()!.size);
+    expect(result.modules.find((m) => m.id === 7)?.isEntry).toBe(true);
+  });
+
+  it('should report progress and compressed sizes', async () => {
+    const progress: StreamingProgress[] = [];
+    const result = await new StreamingBundleParser(bundlePath, {
+      sourcemapPath: mapPath,
+      chunkSize: 16,
+      onProgress: (update) => progress.push(update),
+    }).parse();
+
+    const bundleUpdates = progress.filter((update) => update.phase === 'bundle');
+    expect(progress[0].phase).toBe('sourcemap');
+    expect(bundleUpdates[bundleUpdates.length - 1].bytesRead).toBe(
+      Buffer.byteLength(bundleContent)
+    );
+    expect(result.compressedSizes).toEqual(CompressionAnalyzer.compress(bundleContent));
+  });
+
+  it('should fall back to the in-memory parser for an index sourcemap', async () => {
+    const indexMapPath = path.join(tmpDir, 'index-map.bundle.map');
+    fs.writeFileSync(
+      indexMapPath,
+      JSON.stringify({ version: 3, sections: [{ offset: { line: 0, column: 0 }, map: sourcemap }] })
+    );
+    const sourcemapParser = new SourcemapParser(indexMapPath);
+    sourcemapParser.load();
+
+    const streamed = await BundleLoader.loadStreaming(bundlePath, {
+      sourcemapPath: indexMapPath,
+    });
+
+    expect(streamed.modules).toEqual(BundleLoader.load(bundlePath, sourcemapParser).modules);
+    expect(streamed.modules.map((m) => m.path)).toContain('src/App.js');
+  });
+
+  it('should scan the code of each module while it streams past', async () => {
+    const parser = new BundleParser(bundleContent);
+    parser.parse();
+    const moduleCode = parser.getModuleCode();
+    const result = await new StreamingBundleParser(bundlePath, { chunkSize: 3 }).parse();
+
+    expect(Array.from(result.moduleScans.keys())).toEqual([7, 3]);
+    expect(result.moduleScans.get(7)).toEqual(scanModule(moduleCode.get(7)!));
+    expect(result.moduleScans.get(3)).toEqual(scanModule(moduleCode.get(3)!));
+    expect(result.moduleScans.get(7)!.requires).toEqual([{ dependencyIndex: 0, eager: true }]);
+  });
+});
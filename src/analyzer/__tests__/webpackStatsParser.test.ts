@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DependencyAnalyzer } from '../dependencyAnalyzer';
+import { WebpackStatsParser } from '../webpackStatsParser';
+
+const babel = '../node_modules/babel-loader/lib/index.js??ruleSet[1]!';
+
+// Re.Pack-style stats: the entry concatenates App.tsx with a screen, and a lazy
+// chunk holds lodash
+const stats = {
+  hash: 'abc',
+  outputPath: '/build/machine/dist',
+  chunks: [
+    { id: 0, names: ['main'], files: ['index.bundle'], size: 1700, initial: true },
+    { id: 1, names: ['settings'], files: ['settings.chunk.bundle'], size: 2000, initial: false },
+  ],
+  modules: [
+    {
+      id: 10,
+      identifier: '/app/src/App.tsx|concatenated',
+      name: './src/App.tsx + 1 modules',
+      size: 500,
+      chunks: [0],
+      reasons: [{ type: 'entry', moduleId: null, moduleIdentifier: null }],
+      modules: [
+        {
+          identifier: `${babel}/app/src/App.tsx`,
+          name: `${babel}./src/App.tsx`,
+          size: 300,
+          reasons: [],
+        },
+        {
+          identifier: `${babel}/app/src/screens/Home.tsx`,
+          name: `${babel}./src/screens/Home.tsx`,
+          size: 200,
+          reasons: [
+            {
+              type: 'harmony import specifier',
+              moduleIdentifier: `${babel}/app/src/App.tsx`,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 11,
+      identifier: '/app/node_modules/react/index.js',
+      name: './node_modules/react/index.js',
+      size: 1200,
+      chunks: [0],
+      reasons: [
+        {
+          type: 'harmony side effect evaluation',
+          moduleIdentifier: '/app/src/App.tsx|concatenated',
+        },
+      ],
+    },
+    {
+      id: 12,
+      identifier: '/app/node_modules/lodash/lodash.js',
+      name: './node_modules/lodash/lodash.js?abc',
+      size: 2000,
+      chunks: [1],
+      reasons: [{ type: 'import()', moduleId: 10 }],
+    },
+    {
+      id: 13,
+      identifier: '/app/src/unused.ts',
+      name: './src/unused.ts',
+      size: 50,
+      chunks: [],
+      orphan: true,
+    },
+  ],
+};
+
+describe('WebpackStatsParser', () => {
+  it('should read modules, dependencies and entries from stats', () => {
+    const modules = new WebpackStatsParser(stats).parse();
+
+    expect(modules.map((m) => [m.id, m.path, m.size, m.chunk])).toEqual([
+      [10, 'src/App.tsx', 300, 'index.bundle'],
+      ['src/screens/Home.tsx', 'src/screens/Home.tsx', 200, 'index.bundle'],
+      [11, 'node_modules/react/index.js', 1200, 'index.bundle'],
+      [12, 'node_modules/lodash/lodash.js', 2000, 'settings.chunk.bundle'],
+    ]);
+    expect(modules[0].isEntry).toBe(true);
+    expect(modules[0].dependencies).toEqual(['src/screens/Home.tsx', 11, 12]);
+    expect(modules[2].dependencies).toEqual([]);
+  });
+
+  it('should use the first compilation of multi-compiler stats', () => {
+    const modules = new WebpackStatsParser({ children: [{}, stats] }).parse();
+    expect(modules).toHaveLength(4);
+  });
+
+  it('should produce an analysis with chunks from a stats file', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webpack-stats-'));
+    try {
+      const statsPath = path.join(tmpDir, 'stats.json');
+      fs.writeFileSync(statsPath, JSON.stringify(stats));
+      fs.writeFileSync(path.join(tmpDir, 'index.bundle'), 'a'.repeat(1700));
+      fs.writeFileSync(path.join(tmpDir, 'settings.chunk.bundle'), 'b'.repeat(2000));
+
+      expect(WebpackStatsParser.isWebpackStats(statsPath)).toBe(true);
+      const loaded = WebpackStatsParser.load(statsPath);
+
+      expect(loaded.format).toBe('webpack');
+      expect(loaded.totalSize).toBe(3700);
+      expect(loaded.content).toHaveLength(3700);
+      expect(
+        loaded.chunks!.map((chunk) => [chunk.name, chunk.isInitial, chunk.moduleCount])
+      ).toEqual([
+        ['index.bundle', true, 3],
+        ['settings.chunk.bundle', false, 1],
+      ]);
+      expect(loaded.chunks![0].gzipSize).toBeGreaterThan(0);
+
+      const analysis = new DependencyAnalyzer(loaded.modules).analyze();
+      expect(analysis.packages.map((pkg) => pkg.name)).toEqual(
+        expect.arrayContaining(['react', 'lodash'])
+      );
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,59 @@
+import { ModuleGraph } from '../moduleGraph';
+import { WhyAnalyzer } from '../whyAnalyzer';
+import { ModuleData } from '../../types';
+
+function createModules(): ModuleData[] {
+  return [
+    { id: 0, path: 'index.js', size: 10, dependencies: [1], isEntry: true },
+    { id: 1, path: 'src/App.js', size: 20, dependencies: [2, 4, 7] },
+    { id: 2, path: 'node_modules/moment/moment.js', size: 100, dependencies: [3, 5] },
+    { id: 3, path: 'node_modules/moment/locale/fr.js', size: 50, dependencies: [2] },
+    { id: 4, path: 'src/utils/date.js', size: 15, dependencies: [2, 6] },
+    { id: 5, path: 'node_modules/tslib/tslib.js', size: 40, dependencies: [] },
+    { id: 6, path: 'node_modules/tslib/modules/index.js', size: 5, dependencies: [5] },
+    { id: 7, path: 'node_modules/react/index.js', size: 60, dependencies: [] },
+  ];
+}
+
+describe('WhyAnalyzer', () => {
+  it('should find the shortest chain from the entry to a package', () => {
+    const result = new WhyAnalyzer(new ModuleGraph(createModules())).explain('moment');
+
+    expect(result.targetType).toBe('package');
+    expect(result.targetSize).toBe(150);
+    expect(result.chains[0].modules.map((m) => m.path)).toEqual([
+      'index.js',
+      'src/App.js',
+      'node_modules/moment/moment.js',
+    ]);
+  });
+
+  it('should list direct importers from user code', () => {
+    const result = new WhyAnalyzer(new ModuleGraph(createModules())).explain('moment');
+
+    expect(result.directImporters.map((i) => i.path)).toEqual(['src/App.js', 'src/utils/date.js']);
+    expect(result.otherImporterCount).toBe(0);
+  });
+
+  it('should compute the size freed by removing those imports', () => {
+    const result = new WhyAnalyzer(new ModuleGraph(createModules())).explain('moment');
+
+    // moment and its locale go away; tslib stays because src/utils/date.js still uses it
+    expect(result.retainedSize).toBe(150);
+  });
+
+  it('should match modules by path suffix', () => {
+    const result = new WhyAnalyzer(new ModuleGraph(createModules())).explain('utils/date.js');
+
+    expect(result.targetType).toBe('module');
+    expect(result.targetModules[0].id).toBe(4);
+    // Includes the tslib helper only date.js pulls in
+    expect(result.retainedSize).toBe(20);
+  });
+
+  it('should throw when the target is not in the bundle', () => {
+    const analyzer = new WhyAnalyzer(new ModuleGraph(createModules()));
+
+    expect(() => analyzer.explain('lodash')).toThrow('not found');
+  });
+});
@@ -0,0 +1,700 @@
+import { ParseWarning } from '../types';
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface ModuleSpan {
+  start: number;
+  end: number;
+  byteStart: number;
+  byteEnd: number;
+  args: SourceRange[];
+  // Argument text, each capped at ARGUMENT_TEXT_LIMIT characters
+  argText: string[];
+  // The last characters of a module that could not be delimited, for reading its trailing arguments
+  tail?: string;
+  // A /* ... */ comment directly before the __d call, such as a module path marker
+  leadingComment?: string;
+  error?: string;
+}
+
+export type TokenType = 'word' | 'string' | 'template' | 'regex' | 'punctuator';
+
+/**
+ * A token of code, by character offsets. Words include keywords and numbers; a template
+ * literal with substitutions is one token per part, such as `a${ and }b`, with the
+ * tokens of each substitution between them. Every other character is a punctuator.
+ */
+export interface Token {
+  type: TokenType;
+  start: number;
+  end: number;
+}
+
+// Character codes used by the scanner
+const TAB = 9;
+const LINE_FEED = 10;
+const VERTICAL_TAB = 11;
+const FORM_FEED = 12;
+const CARRIAGE_RETURN = 13;
+const SPACE = 32;
+const DOUBLE_QUOTE = 34;
+const DOLLAR = 36;
+const SINGLE_QUOTE = 39;
+const OPEN_PAREN = 40;
+const CLOSE_PAREN = 41;
+const STAR = 42;
+const COMMA = 44;
+const SLASH = 47;
+const OPEN_BRACKET = 91;
+const BACKSLASH = 92;
+const CLOSE_BRACKET = 93;
+const UNDERSCORE = 95;
+const BACKTICK = 96;
+const LOWERCASE_D = 100;
+const OPEN_BRACE = 123;
+const CLOSE_BRACE = 125;
+
+// Scanner states, kept between write() calls so code can arrive in chunks
+const CODE = 0;
+const WORD = 1; // identifier, keyword, number or regex flags
+const AFTER_SLASH = 2; // a comment, a regular expression or a division
+const LINE_COMMENT = 3;
+const BLOCK_COMMENT = 4;
+const STRING = 5;
+const TEMPLATE = 6;
+const REGEX = 7;
+const AFTER_DEFINE = 8; // a top-level __d, waiting for its opening parenthesis
+const RESYNC = 9; // after an error, looking for the next __d(
+
+// Factories can be megabytes long; path heuristics only need their beginning
+export const ARGUMENT_TEXT_LIMIT = 64 * 1024;
+const TAIL_TEXT_LIMIT = 1024;
+const LEADING_COMMENT_LIMIT = 512;
+
+// After these keywords a slash starts a regular expression rather than a division
+const KEYWORDS_BEFORE_EXPRESSION = new Set([
+  'return',
+  'typeof',
+  'instanceof',
+  'in',
+  'of',
+  'new',
+  'delete',
+  'void',
+  'throw',
+  'case',
+  'do',
+  'else',
+  'yield',
+  'await',
+]);
+
+interface OpenModule {
+  start: number;
+  byteStart: number;
+  argStart: number;
+  args: SourceRange[];
+  argText: string[];
+  text: string;
+  leadingComment?: string;
+  error?: string;
+}
+
+export class BundleLexer {
+  private code: string;
+  private lineStarts: number[] | null = null;
+  private spans: ModuleSpan[] = [];
+  private warnings: ParseWarning[] = [];
+
+  // Position of the next character, in UTF-16 units and UTF-8 bytes
+  private offset = 0;
+  private bytes = 0;
+
+  private state = CODE;
+  private depth = 0;
+  private templateDepths: number[] = [];
+  private regexAllowed = true;
+  private quote = 0;
+  private escaped = false;
+  private inClass = false;
+  private previousChar = 0;
+  private word = '';
+  private wordStart = 0;
+  private wordByteStart = 0;
+  private resyncMatched = 0;
+  private current: OpenModule | null = null;
+
+  // Set by tokenize(); where the string, template part or regular expression being read starts
+  private onToken: ((type: TokenType, start: number, end: number) => void) | null = null;
+  private tokenStart = 0;
+
+  // Top-level block comment being read, the last one read, and the one before the current word
+  private commentText: string | null = null;
+  private leadingComment: string | null = null;
+  private wordComment: string | null = null;
+
+  // Chunk being scanned and where the text of the open argument starts in it
+  private chunk = '';
+  private captureFrom = 0;
+
+  constructor(code = '') {
+    this.code = code;
+  }
+
+  /**
+   * Walk the code once, skipping strings, template literals, regular expressions and
+   * comments, and return the span of every top-level __d() call with the ranges of its
+   * arguments. A module whose end cannot be found keeps an `error` and ends where the
+   * next definition starts; errors outside modules are returned as warnings.
+   */
+  findModuleDefinitions(): { spans: ModuleSpan[]; warnings: ParseWarning[] } {
+    this.write(this.code);
+    this.end();
+    return { spans: this.takeSpans(), warnings: this.warnings };
+  }
+
+  /**
+   * Split code into tokens, skipping whitespace and comments. Tokens stop at the first
+   * unterminated literal and resume at the next __d( after it.
+   */
+  static tokenize(code: string): Token[] {
+    const tokens: Token[] = [];
+    const lexer = new BundleLexer();
+    lexer.onToken = (type, start, end) => tokens.push({ type, start, end });
+    lexer.write(code);
+    lexer.end();
+    return tokens;
+  }
+
+  /**
+   * Scan the next chunk of a bundle that is read incrementally. Only the text of the
+   * open module's arguments is kept between chunks, so memory stays bounded.
+   */
+  write(chunk: string): void {
+    this.chunk = chunk;
+    this.captureFrom = 0;
+
+    let index = 0;
+    while (index < chunk.length) {
+      const char = chunk.charCodeAt(index);
+      if (this.step(char, index)) {
+        this.advance(char);
+        index++;
+      }
+    }
+
+    this.capture(chunk.length);
+    this.captureFrom = 0;
+    this.chunk = '';
+  }
+
+  /**
+   * Finish scanning, flagging a module or literal left open at the end of the bundle
+   */
+  end(): void {
+    switch (this.state) {
+      case WORD:
+        this.endWord();
+        break;
+      case AFTER_SLASH:
+        this.emit('punctuator', this.tokenStart, this.tokenStart + 1);
+        break;
+      case BLOCK_COMMENT:
+        this.fail('Unterminated comment', 0);
+        break;
+      case STRING:
+        this.fail('Unterminated string literal', 0);
+        break;
+      case TEMPLATE:
+        this.fail('Unterminated template literal', 0);
+        break;
+      case REGEX:
+        this.fail('Unterminated regular expression', 0);
+        break;
+    }
+
+    if (this.current) {
+      this.current.error ??= `Unexpected end of bundle at byte ${this.bytes}`;
+      this.closeModule(this.offset, this.bytes);
+    }
+  }
+
+  /**
+   * Return the spans completed since the last call and forget them
+   */
+  takeSpans(): ModuleSpan[] {
+    const spans = this.spans;
+    this.spans = [];
+    return spans;
+  }
+
+  /**
+   * Get the character offset of the earliest text that may still belong to a span not
+   * yet returned: the open module, or a word that may turn out to be its __d
+   */
+  getUnfinishedStart(): number {
+    if (this.current) {
+      return this.current.start;
+    }
+    const inDefinition =
+      this.state === WORD ||
+      this.state === AFTER_DEFINE ||
+      (this.state === RESYNC && this.resyncMatched > 0);
+    return inDefinition ? this.wordStart : this.offset;
+  }
+
+  /**
+   * Get the errors found outside module definitions
+   */
+  getWarnings(): ParseWarning[] {
+    return this.warnings;
+  }
+
+  /**
+   * Convert a character offset to a 0-based line and UTF-16 column
+   */
+  getLineColumn(offset: number): { line: number; column: number } {
+    if (!this.lineStarts) {
+      this.lineStarts = [0];
+      let index = this.code.indexOf('\n');
+      while (index !== -1) {
+        this.lineStarts.push(index + 1);
+        index = this.code.indexOf('\n', index + 1);
+      }
+    }
+
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return { line: low, column: offset - this.lineStarts[low] };
+  }
+
+  /**
+   * Handle one character in the current state; returns false when the character
+   * should be handled again in the state it switched to
+   */
+  private step(char: number, index: number): boolean {
+    switch (this.state) {
+      case CODE:
+        return this.stepCode(char, index);
+
+      case WORD:
+        if (isIdentifierPart(char)) {
+          if (this.word.length <= 10) this.word += String.fromCharCode(char);
+          return true;
+        }
+        this.endWord();
+        return false;
+
+      case AFTER_SLASH:
+        if (char === SLASH) {
+          this.state = LINE_COMMENT;
+          return true;
+        }
+        if (char === STAR) {
+          this.state = BLOCK_COMMENT;
+          this.previousChar = 0;
+          this.commentText = this.current === null && this.depth === 0 ? '' : null;
+          this.leadingComment = null;
+          return true;
+        }
+        if (this.regexAllowed) {
+          this.state = REGEX;
+          this.escaped = false;
+          this.inClass = false;
+        } else {
+          this.emit('punctuator', this.tokenStart, this.tokenStart + 1);
+          this.state = CODE;
+          this.regexAllowed = true;
+        }
+        return false;
+
+      case LINE_COMMENT:
+        if (char === LINE_FEED) this.state = CODE;
+        return true;
+
+      case BLOCK_COMMENT:
+        if (char === SLASH && this.previousChar === STAR) {
+          this.state = CODE;
+          if (this.commentText !== null) {
+            this.leadingComment = this.commentText.slice(0, -1).trim();
+          }
+        } else if (this.commentText !== null) {
+          this.commentText =
+            this.commentText.length < LEADING_COMMENT_LIMIT
+              ? this.commentText + String.fromCharCode(char)
+              : null;
+        }
+        this.previousChar = char;
+        return true;
+
+      case STRING:
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === BACKSLASH) {
+          this.escaped = true;
+        } else if (char === this.quote) {
+          this.emit('string', this.tokenStart, this.offset + 1);
+          this.state = CODE;
+          this.regexAllowed = false;
+        } else if (char === LINE_FEED || char === CARRIAGE_RETURN) {
+          this.fail('Unterminated string literal', index);
+          return false;
+        }
+        return true;
+
+      case TEMPLATE:
+        if (this.escaped) {
+          this.escaped = false;
+          this.previousChar = 0;
+          return true;
+        }
+        if (char === BACKSLASH) {
+          this.escaped = true;
+        } else if (char === BACKTICK) {
+          this.emit('template', this.tokenStart, this.offset + 1);
+          this.state = CODE;
+          this.regexAllowed = false;
+        } else if (char === OPEN_BRACE && this.previousChar === DOLLAR) {
+          this.emit('template', this.tokenStart, this.offset + 1);
+          this.templateDepths.push(this.depth);
+          this.depth++;
+          this.state = CODE;
+          this.regexAllowed = true;
+        }
+        this.previousChar = char;
+        return true;
+
+      case REGEX:
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === BACKSLASH) {
+          this.escaped = true;
+        } else if (char === LINE_FEED || char === CARRIAGE_RETURN) {
+          this.fail('Unterminated regular expression', index);
+          return false;
+        } else if (char === OPEN_BRACKET) {
+          this.inClass = true;
+        } else if (char === CLOSE_BRACKET) {
+          this.inClass = false;
+        } else if (char === SLASH && !this.inClass) {
+          // Flags are read as a word that cannot be followed by a regular expression
+          this.startWord();
+          this.word = '/';
+        }
+        return true;
+
+      case AFTER_DEFINE:
+        if (isWhitespace(char)) return true;
+        if (char === OPEN_PAREN) {
+          this.emit('punctuator', this.offset, this.offset + 1);
+          this.openModule(this.wordStart, this.wordByteStart, index, this.wordComment);
+          return true;
+        }
+        this.state = CODE;
+        this.regexAllowed = false;
+        return false;
+
+      default:
+        return this.stepResync(char, index);
+    }
+  }
+
+  private stepCode(char: number, index: number): boolean {
+    if (isWhitespace(char)) {
+      return true;
+    }
+
+    // Only whitespace and comments may separate a leading comment from its __d
+    if (char !== SLASH) {
+      this.wordComment = this.leadingComment;
+      this.leadingComment = null;
+    }
+
+    if (char === SLASH) {
+      this.state = AFTER_SLASH;
+      this.tokenStart = this.offset;
+      return true;
+    }
+    if (char === SINGLE_QUOTE || char === DOUBLE_QUOTE) {
+      this.state = STRING;
+      this.quote = char;
+      this.escaped = false;
+      this.tokenStart = this.offset;
+      return true;
+    }
+    if (char === BACKTICK) {
+      this.state = TEMPLATE;
+      this.escaped = false;
+      this.previousChar = 0;
+      this.tokenStart = this.offset;
+      return true;
+    }
+    if (isIdentifierStart(char) || isDigit(char)) {
+      this.startWord();
+      return false;
+    }
+    if (char === CLOSE_BRACE && isTemplateResume(this.templateDepths, this.depth)) {
+      // A closing brace that ends a ${} interpolation continues the template literal
+      this.templateDepths.pop();
+      this.depth--;
+      this.state = TEMPLATE;
+      this.escaped = false;
+      this.previousChar = 0;
+      this.tokenStart = this.offset;
+      return true;
+    }
+
+    this.emit('punctuator', this.offset, this.offset + 1);
+    if (char === OPEN_PAREN || char === OPEN_BRACKET || char === OPEN_BRACE) {
+      this.depth++;
+      this.regexAllowed = true;
+    } else if (char === CLOSE_PAREN || char === CLOSE_BRACKET || char === CLOSE_BRACE) {
+      this.depth = Math.max(0, this.depth - 1);
+      this.regexAllowed = false;
+
+      if (this.current && this.depth === 0) {
+        if (char !== CLOSE_PAREN) {
+          this.fail('Mismatched bracket', index);
+          return true;
+        }
+        this.endArgument(index);
+        this.closeModule(this.offset + 1, this.bytes + 1);
+      }
+    } else if (char === COMMA) {
+      if (this.current && this.depth === 1) {
+        this.endArgument(index);
+        this.current.argStart = this.offset + 1;
+        this.captureFrom = index + 1;
+      }
+      this.regexAllowed = true;
+    } else {
+      this.regexAllowed = true;
+    }
+
+    return true;
+  }
+
+  /**
+   * Look for the next `__d(` that is not part of a longer identifier
+   */
+  private stepResync(char: number, index: number): boolean {
+    const matched = this.resyncMatched;
+    this.resyncMatched = 0;
+
+    if (matched === 0) {
+      if (char === UNDERSCORE && !isIdentifierPart(this.previousChar)) {
+        this.resyncMatched = 1;
+        this.wordStart = this.offset;
+        this.wordByteStart = this.bytes;
+      }
+    } else if (matched === 1) {
+      this.resyncMatched = char === UNDERSCORE ? 2 : 0;
+    } else if (matched === 2) {
+      this.resyncMatched = char === LOWERCASE_D ? 3 : 0;
+    } else if (char === OPEN_PAREN) {
+      if (this.current) {
+        this.capture(index);
+        this.current.text = this.current.text.slice(0, -3);
+        this.closeModule(this.wordStart, this.wordByteStart);
+      }
+      this.previousChar = 0;
+      this.openModule(this.wordStart, this.wordByteStart, index);
+      return true;
+    }
+
+    this.previousChar = char;
+    return true;
+  }
+
+  private startWord(): void {
+    this.state = WORD;
+    this.word = '';
+    this.wordStart = this.offset;
+    this.wordByteStart = this.bytes;
+  }
+
+  private endWord(): void {
+    const word = this.word;
+    const isWhole = this.offset - this.wordStart === word.length;
+
+    // Regular expression flags are read as a word starting at the closing slash
+    if (word[0] === '/') {
+      this.emit('regex', this.tokenStart, this.offset);
+    } else {
+      this.emit('word', this.wordStart, this.offset);
+    }
+
+    if (isWhole && word === '__d' && this.current === null && this.depth === 0) {
+      this.state = AFTER_DEFINE;
+      return;
+    }
+
+    this.state = CODE;
+    this.regexAllowed = isWhole && KEYWORDS_BEFORE_EXPRESSION.has(word);
+  }
+
+  private openModule(
+    start: number,
+    byteStart: number,
+    index: number,
+    leadingComment?: string | null
+  ): void {
+    this.current = {
+      start,
+      byteStart,
+      argStart: this.offset + 1,
+      args: [],
+      argText: [],
+      text: '',
+      leadingComment: leadingComment || undefined,
+    };
+    this.state = CODE;
+    this.depth = 1;
+    this.templateDepths = [];
+    this.regexAllowed = true;
+    this.captureFrom = index + 1;
+  }
+
+  private endArgument(index: number): void {
+    const current = this.current!;
+    this.capture(index);
+    current.args.push({ start: current.argStart, end: this.offset });
+    current.argText.push(current.text);
+    current.text = '';
+  }
+
+  private closeModule(end: number, byteEnd: number): void {
+    const current = this.current!;
+    const span: ModuleSpan = {
+      start: current.start,
+      end,
+      byteStart: current.byteStart,
+      byteEnd,
+      args: current.args,
+      argText: current.argText,
+    };
+    if (current.leadingComment) {
+      span.leadingComment = current.leadingComment;
+    }
+    if (current.error) {
+      span.error = current.error;
+      span.tail = current.text;
+    }
+    this.spans.push(span);
+    this.current = null;
+  }
+
+  /**
+   * Keep the chunk text since `captureFrom` for the open argument, or the tail of a
+   * module that could not be delimited
+   */
+  private capture(index: number): void {
+    const current = this.current;
+    if (!current || index <= this.captureFrom) return;
+
+    if (current.error) {
+      const from = Math.max(this.captureFrom, index - TAIL_TEXT_LIMIT);
+      current.text = (current.text + this.chunk.slice(from, index)).slice(-TAIL_TEXT_LIMIT);
+    } else {
+      const room = ARGUMENT_TEXT_LIMIT - current.text.length;
+      if (room > 0) {
+        current.text += this.chunk.slice(
+          this.captureFrom,
+          Math.min(index, this.captureFrom + room)
+        );
+      }
+    }
+    this.captureFrom = index;
+  }
+
+  /**
+   * Record an error and search for the next definition. An open module keeps the
+   * error and is closed when the next definition is found.
+   */
+  private fail(message: string, index: number): void {
+    if (this.current) {
+      this.capture(index);
+      this.current.error = `${message} at byte ${this.bytes}`;
+      this.current.text = '';
+      this.captureFrom = index;
+    } else {
+      this.warnings.push({ offset: this.bytes, message });
+    }
+
+    this.state = RESYNC;
+    this.depth = 0;
+    this.templateDepths = [];
+    this.resyncMatched = 0;
+    this.previousChar = 0;
+  }
+
+  private emit(type: TokenType, start: number, end: number): void {
+    if (this.onToken) {
+      this.onToken(type, start, end);
+    }
+  }
+
+  private advance(char: number): void {
+    this.offset++;
+    if (char < 0x80) {
+      this.bytes += 1;
+    } else if (char < 0x800) {
+      this.bytes += 2;
+    } else if (char >= 0xd800 && char <= 0xdbff) {
+      // A surrogate pair is 4 bytes, counted on the high surrogate
+      this.bytes += 4;
+    } else if (char < 0xdc00 || char > 0xdfff) {
+      this.bytes += 3;
+    }
+  }
+}
+
+function isTemplateResume(templateDepths: number[], depth: number): boolean {
+  return templateDepths.length > 0 && templateDepths[templateDepths.length - 1] === depth - 1;
+}
+
+function isWhitespace(char: number): boolean {
+  return (
+    char === SPACE ||
+    char === TAB ||
+    char === LINE_FEED ||
+    char === CARRIAGE_RETURN ||
+    char === VERTICAL_TAB ||
+    char === FORM_FEED ||
+    char === 0xa0 ||
+    char === 0xfeff ||
+    char === 0x2028 ||
+    char === 0x2029
+  );
+}
+
+function isDigit(char: number): boolean {
+  return char >= 48 && char <= 57;
+}
+
+function isIdentifierStart(char: number): boolean {
+  return (
+    (char >= 65 && char <= 90) ||
+    (char >= 97 && char <= 122) ||
+    char === DOLLAR ||
+    char === UNDERSCORE ||
+    char === BACKSLASH ||
+    (char >= 0x80 && !isWhitespace(char))
+  );
+}
+
+function isIdentifierPart(char: number): boolean {
+  return isIdentifierStart(char) || isDigit(char);
+}
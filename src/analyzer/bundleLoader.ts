@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import {
+  BundleAnalysis,
+  BundleFormat,
+  ChunkInfo,
+  ModuleData,
+  ModuleId,
+  ParseWarning,
+} from '../types';
+import { readBundleBuffer } from '../utils/fileHelper';
+import { SourcemapParser } from '../utils/sourcemapParser';
+import { BundleParser, RUNTIME_SOURCE } from './bundleParser';
+import { CompressedSizes } from './compressionAnalyzer';
+import { HermesParser } from './hermesParser';
+import { ModuleScan } from './moduleScan';
+import { RamBundleContents, RamBundleParser } from './ramBundleParser';
+import { StreamingBundleParser, StreamingParseOptions } from './streamingBundleParser';
+
+export interface LoadedBundle {
+  format: BundleFormat;
+  modules: ModuleData[];
+  totalSize: number;
+  startupCodeSize?: number;
+  // Streamed bundles keep neither the content nor module code, only their compressed sizes
+  // and what the per-module scans found in the code
+  content?: Buffer;
+  moduleCode?: Map<ModuleId, string>;
+  moduleScans?: Map<ModuleId, ModuleScan>;
+  compressedSizes?: CompressedSizes;
+  warnings?: ParseWarning[];
+  isDevBundle?: boolean;
+  // Set when several bundles, such as the chunks of an Expo export, were combined
+  chunks?: ChunkInfo[];
+}
+
+// Above this combined bundle and sourcemap size, the CLI streams instead of loading whole files
+export const STREAMING_THRESHOLD_BYTES = 32 * 1024 * 1024;
+
+// Enough bytes to recognize Hermes and indexed RAM bundle headers
+const HEADER_PROBE_SIZE = 64;
+
+export class BundleLoader {
+  /**
+   * Detect the bundle format and parse it into modules
+   */
+  static load(
+    bundlePath: string,
+    sourcemapParser?: SourcemapParser,
+    workspaceDirs: string[] = []
+  ): LoadedBundle {
+    const buffer = readBundleBuffer(bundlePath);
+
+    // File RAM bundles keep only startup code in the bundle file, modules live in js-modules/
+    const modulesDir = RamBundleParser.findFileRamBundleDir(bundlePath);
+    if (modulesDir && !HermesParser.isHermesBytecode(buffer)) {
+      const contents = new RamBundleParser(sourcemapParser, workspaceDirs).parseFileBased(
+        bundlePath,
+        modulesDir
+      );
+      const content = Buffer.from(
+        contents.startupCode + Array.from(contents.moduleCode.values()).join(''),
+        'utf-8'
+      );
+      return this.fromRamBundle('ram-file', contents, content);
+    }
+
+    return this.loadFromBuffer(buffer, sourcemapParser, workspaceDirs);
+  }
+
+  /**
+   * Parse a Metro bundle while reading it and its sourcemap in chunks, so memory stays
+   * bounded however large they are. Hermes and RAM bundles, and bundles with an index
+   * sourcemap, are loaded whole as usual.
+   */
+  static async loadStreaming(
+    bundlePath: string,
+    options: StreamingParseOptions = {}
+  ): Promise<LoadedBundle> {
+    const parser = new StreamingBundleParser(bundlePath, options);
+    if (!this.isPlainBundle(bundlePath) || parser.hasIndexSourcemap()) {
+      let sourcemapParser: SourcemapParser | undefined;
+      if (options.sourcemapPath) {
+        sourcemapParser = new SourcemapParser(options.sourcemapPath);
+        sourcemapParser.load();
+      }
+      return this.load(bundlePath, sourcemapParser, options.workspaceDirs);
+    }
+
+    const result = await parser.parse();
+    return {
+      format: 'metro',
+      modules: withRuntime(result.modules, result.runtimeSize),
+      totalSize: result.totalSize,
+      compressedSizes: result.compressedSizes,
+      moduleScans: result.moduleScans,
+      warnings: result.warnings,
+      isDevBundle: result.isDevBundle,
+    };
+  }
+
+  /**
+   * Copy what was learned while loading onto an analysis of its modules
+   */
+  static applyTo(analysis: BundleAnalysis, loaded: LoadedBundle): void {
+    analysis.bundleFormat = loaded.format;
+    analysis.isDevBundle = loaded.isDevBundle;
+    analysis.startupCodeSize = loaded.startupCodeSize;
+    analysis.parseWarnings = loaded.warnings;
+
+    // Module sizes leave out whatever the parser could not attribute, such as Hermes
+    // headers and string tables; the file size is the real total
+    if (loaded.totalSize > analysis.totalSize) {
+      analysis.unexplainedSize = loaded.totalSize - analysis.totalSize;
+      analysis.totalSize = loaded.totalSize;
+    }
+
+    if (loaded.chunks) {
+      const sizeOf = (initial: boolean) =>
+        loaded
+          .chunks!.filter((chunk) => chunk.isInitial === initial)
+          .reduce((sum, chunk) => sum + chunk.size, 0);
+      analysis.chunks = loaded.chunks;
+      analysis.initialSize = sizeOf(true);
+      analysis.lazySize = sizeOf(false);
+    }
+  }
+
+  /**
+   * Check whether a bundle and its sourcemap are large enough to be streamed
+   */
+  static shouldStream(bundlePath: string, sourcemapPath?: string): boolean {
+    const sizeOf = (filePath?: string) =>
+      filePath && fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+    return sizeOf(bundlePath) + sizeOf(sourcemapPath) > STREAMING_THRESHOLD_BYTES;
+  }
+
+  /**
+   * Parse an in-memory bundle, detecting the format from its contents
+   */
+  static loadFromBuffer(
+    buffer: Buffer,
+    sourcemapParser?: SourcemapParser,
+    workspaceDirs: string[] = []
+  ): LoadedBundle {
+    if (HermesParser.isHermesBytecode(buffer)) {
+      const parser = new HermesParser(buffer, sourcemapParser, workspaceDirs);
+      return {
+        format: 'hermes',
+        modules: parser.parse(),
+        totalSize: parser.getTotalSize(),
+        content: buffer,
+      };
+    }
+
+    if (RamBundleParser.isIndexedRamBundle(buffer)) {
+      const contents = new RamBundleParser(sourcemapParser, workspaceDirs).parseIndexed(buffer);
+      return this.fromRamBundle('ram-indexed', contents, buffer);
+    }
+
+    const parser = new BundleParser(buffer.toString('utf-8'), sourcemapParser, workspaceDirs);
+    const modules = parser.parse();
+    const runtimeModule = parser.getRuntimeModule();
+    return {
+      format: 'metro',
+      modules: runtimeModule ? [...modules, runtimeModule] : modules,
+      totalSize: buffer.length,
+      content: buffer,
+      moduleCode: parser.getModuleCode(),
+      warnings: parser.getWarnings(),
+      isDevBundle: parser.isDevBundle(),
+    };
+  }
+
+  private static isPlainBundle(bundlePath: string): boolean {
+    const header = Buffer.alloc(HEADER_PROBE_SIZE);
+    const fd = fs.openSync(bundlePath, 'r');
+    let bytesRead: number;
+    try {
+      bytesRead = fs.readSync(fd, header, 0, HEADER_PROBE_SIZE, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const probe = header.subarray(0, bytesRead);
+    return (
+      !HermesParser.isHermesBytecode(probe) &&
+      !RamBundleParser.isIndexedRamBundle(probe) &&
+      !RamBundleParser.findFileRamBundleDir(bundlePath)
+    );
+  }
+
+  private static fromRamBundle(
+    format: BundleFormat,
+    contents: RamBundleContents,
+    content: Buffer
+  ): LoadedBundle {
+    // The startup code of a RAM bundle is the prelude, polyfills and module system
+    const moduleCode = new Map(contents.moduleCode);
+    moduleCode.set(RUNTIME_SOURCE, contents.startupCode);
+
+    return {
+      format,
+      modules: withRuntime(contents.modules, contents.startupCodeSize),
+      totalSize: contents.totalSize,
+      startupCodeSize: contents.startupCodeSize,
+      content,
+      moduleCode,
+      warnings: contents.warnings,
+      isDevBundle: contents.isDevBundle,
+    };
+  }
+}
+
+function withRuntime(modules: ModuleData[], runtimeSize: number): ModuleData[] {
+  return runtimeSize > 0 ? [...modules, BundleParser.createRuntimeModule(runtimeSize)] : modules;
+}
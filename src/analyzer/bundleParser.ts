@@ -1,13 +1,56 @@
-import { ModuleData } from '../types';
-import { SourcemapParser } from '../utils/sourcemapParser';
+import { ModuleData, ModuleId, ParseWarning } from '../types';
+import { parsePackagePath } from '../utils/packagePaths';
+import { SourcemapParser, UNMAPPED_SOURCE } from '../utils/sourcemapParser';
+import { BundleLexer, ModuleSpan } from './bundleLexer';
+
+// Trailing arguments of a definition the lexer could not tokenize: },MODULE_ID,[DEPENDENCY_IDS]...)
+const TRAILING_ARGUMENTS_PATTERN = /\},\s*(\d+)\s*(?:,\s*\[([\d,\s]*)\])?[^}]*\)\s*;?\s*$/;
+
+// Run calls at the end of the bundle: __r(ENTRY_ID)
+const RUN_CALL_PATTERN = /__r\((\d+)\)/g;
+
+// Verbose module name passed by dev bundles as the fourth __d() argument: "src/App.tsx"
+const VERBOSE_NAME_PATTERN = /^(["'])((?:\\.|(?!\1)[^\\])*)\1$/;
+
+// A /* path */ marker before a module definition: a single token ending in a file extension
+const PATH_MARKER_PATTERN = /^[\w@.+~\-/\\]+\.[a-z]+$/i;
+
+// Metro's prelude sets __DEV__ on the first line of the bundle
+const DEV_PRELUDE_PATTERN = /\b__DEV__\s*=\s*true\b/;
+export const PRELUDE_PROBE_SIZE = 4096;
+
+// Bytes outside any __d() call: the prelude, polyfills, module system and __r() calls
+export const RUNTIME_SOURCE = '[runtime]';
+
+// Sourcemap sources Metro places before the modules
+const RUNTIME_PATH_PATTERN =
+  /(?:^|\/)__prelude__$|node_modules\/(?:metro-runtime\/src\/polyfills|metro\/src\/lib\/polyfills|@react-native\/js-polyfills|@react-native\/polyfills|react-native\/Libraries\/polyfills)\//;
+
+interface ModuleDefinition {
+  id: number;
+  dependencies: ModuleId[];
+  factory: string;
+  verboseName?: string;
+}
 
 export class BundleParser {
   private bundleContent: string;
   private sourcemapParser?: SourcemapParser;
-
-  constructor(bundleContent: string, sourcemapParser?: SourcemapParser) {
+  // Monorepo workspace package directories, kept whole in module paths
+  private workspaceDirs: string[];
+  private moduleCode = new Map<ModuleId, string>();
+  private warnings: ParseWarning[] = [];
+  private hasVerboseNames = false;
+  private runtimeSize = 0;
+
+  constructor(
+    bundleContent: string,
+    sourcemapParser?: SourcemapParser,
+    workspaceDirs: string[] = []
+  ) {
     this.bundleContent = bundleContent;
     this.sourcemapParser = sourcemapParser;
+    this.workspaceDirs = workspaceDirs;
   }
 
   /**
@@ -16,83 +59,345 @@ export class BundleParser {
   parse(): ModuleData[] {
     const modules: ModuleData[] = [];
 
+    // Exact sizes when the sourcemap mappings can attribute every generated byte
+    if (this.sourcemapParser && this.sourcemapParser.hasMappings()) {
+      try {
+        const mappedModules = this.parseWithMappings();
+        if (mappedModules.length > 0) {
+          return mappedModules;
+        }
+      } catch (error) {
+        console.error('Error decoding sourcemap mappings:', error);
+      }
+    }
+
     try {
-      // Split bundle into __d() function calls
       // Production bundles use: __d(function(g,r,i,a,m,e,d){...},ID,[dependencies])
-      const parts = this.bundleContent.split('__d(');
+      const { spans, warnings } = new BundleLexer(this.bundleContent).findModuleDefinitions();
+      warnings.forEach((warning) => this.warnings.push(warning));
 
-      for (let i = 1; i < parts.length; i++) {
-        const part = parts[i];
+      spans.forEach((span, index) => {
+        const module = this.parseSpan(span, index);
+        this.moduleCode.set(module.id, this.bundleContent.slice(span.start, span.end));
+        modules.push(module);
+      });
+      this.measureRuntime(spans);
 
-        // Try to extract module ID and path
-        // Pattern: function(g,r,i,a,m,e,d){...},MODULE_ID,DEPENDENCIES)
-        const match = part.match(/^function\([^)]*\)\{([\s\S]*?)\},(\d+),/);
+      return this.markEntryModules(modules);
+    } catch (error) {
+      console.error('Error parsing bundle:', error);
+      return modules;
+    }
+  }
 
-        if (match) {
-          const [, moduleBody, moduleIdStr] = match;
-          const moduleId = parseInt(moduleIdStr, 10);
+  /**
+   * Build a module from a __d() span found by the lexer. `index` is the module's position
+   * in the bundle; `sourcePath` overrides the sourcemap lookup when the caller already has it.
+   */
+  parseSpan(span: ModuleSpan, index: number, sourcePath?: string): ModuleData {
+    const definition = this.readModuleDefinition(span);
+    const moduleId: ModuleId = definition ? definition.id : `span_${index}`;
+    const modulePath = this.resolveModulePath(span, definition, index, moduleId, sourcePath);
+    this.recordSpanWarnings(span, moduleId, definition !== null);
+
+    return {
+      id: moduleId,
+      path: modulePath,
+      size: span.byteEnd - span.byteStart,
+      dependencies: definition ? definition.dependencies : [],
+    };
+  }
 
-          // Try to get path from sourcemap using index (i-1 because we skip part 0)
-          // Sourcemap sources array maps to module order, not IDs
-          let modulePath = this.getModulePathFromSourcemap(i - 1) ||
-                          this.extractModulePath(moduleBody, moduleId);
+  /**
+   * Module holding the bytes outside any __d() call, once `parse` has delimited the
+   * modules without a sourcemap. With one, the prelude and polyfills are mapped sources.
+   */
+  getRuntimeModule(): ModuleData | undefined {
+    return this.runtimeSize > 0 ? BundleParser.createRuntimeModule(this.runtimeSize) : undefined;
+  }
 
-          // Calculate module size (approximate)
-          const endIndex = this.findModuleEnd(part);
-          const moduleCode = part.substring(0, endIndex);
+  static createRuntimeModule(size: number): ModuleData {
+    return { id: RUNTIME_SOURCE, path: RUNTIME_SOURCE, size, dependencies: [] };
+  }
 
-          modules.push({
-            id: moduleId,
-            path: modulePath,
-            size: new TextEncoder().encode(moduleCode).length,
-          });
-        }
-      }
+  /**
+   * Parse the code of a single module, as stored separately in RAM bundles. `firstLine`
+   * is the generated line the sourcemap puts the module on; the module is named after
+   * the source that owns most of its bytes there.
+   */
+  parseModuleCode(code: string, moduleId: number, firstLine?: number): ModuleData {
+    const span = new BundleLexer(code).findModuleDefinitions().spans[0];
+    const definition = span ? this.readModuleDefinition(span) : null;
+    const sourcePath =
+      firstLine !== undefined ? this.findMappedSourcePath(code, firstLine) : undefined;
+    const modulePath = this.resolveModulePath(span, definition, undefined, moduleId, sourcePath);
+    this.moduleCode.set(moduleId, code);
+    if (span) {
+      this.recordSpanWarnings(span, moduleId, definition !== null);
+    }
+
+    return {
+      id: moduleId,
+      path: modulePath,
+      size: Buffer.byteLength(code, 'utf-8'),
+      dependencies: definition ? definition.dependencies : [],
+    };
+  }
 
-      // If we found modules, return them
-      if (modules.length > 0) {
-        return modules;
+  /**
+   * Whether this is a development bundle, recognized by verbose module names or by the
+   * __DEV__ flag in the prelude. Dev bundle sizes are not representative of production.
+   */
+  isDevBundle(): boolean {
+    return (
+      this.hasVerboseNames ||
+      BundleParser.isDevPrelude(this.bundleContent.slice(0, PRELUDE_PROBE_SIZE))
+    );
+  }
+
+  /**
+   * Check the first line of a bundle for the prelude of a development build
+   */
+  static isDevPrelude(code: string): boolean {
+    const newline = code.indexOf('\n');
+    return DEV_PRELUDE_PATTERN.test(newline === -1 ? code : code.slice(0, newline));
+  }
+
+  /**
+   * Get the modules that could not be delimited or read exactly, and lexer errors outside modules
+   */
+  getWarnings(): ParseWarning[] {
+    return this.warnings;
+  }
+
+  /**
+   * Get the generated code of each module parsed so far, keyed by module ID
+   */
+  getModuleCode(): Map<ModuleId, string> {
+    return this.moduleCode;
+  }
+
+  /**
+   * Get the IDs of the modules run by the trailing __r() calls, in call order
+   */
+  getEntryModuleIds(): number[] {
+    return BundleParser.findRunCalls(this.bundleContent);
+  }
+
+  /**
+   * Find the module IDs passed to __r() calls in a piece of code
+   */
+  static findRunCalls(code: string): number[] {
+    const ids: number[] = [];
+    for (const match of code.matchAll(RUN_CALL_PATTERN)) {
+      const id = parseInt(match[1], 10);
+      if (!ids.includes(id)) {
+        ids.push(id);
       }
+    }
+    return ids;
+  }
 
-      // Fallback to alternative parsing
-      return this.parseBySize();
-    } catch (error) {
-      console.error('Error parsing bundle:', error);
-      return this.parseBySize();
+  /**
+   * Parse the dependency ID array of a module definition
+   */
+  private static parseDependencyList(dependencyList: string | undefined): ModuleId[] {
+    if (!dependencyList) {
+      return [];
     }
+    return dependencyList
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => id !== '')
+      .map((id) => parseInt(id, 10));
   }
 
-  private findModuleEnd(part: string): number {
-    let depth = 0;
-    let inString = false;
-    let stringChar = '';
-
-    for (let i = 0; i < part.length; i++) {
-      const char = part[i];
-      const prevChar = i > 0 ? part[i - 1] : '';
-
-      // Handle strings
-      if ((char === '"' || char === "'") && prevChar !== '\\') {
-        if (!inString) {
-          inString = true;
-          stringChar = char;
-        } else if (char === stringChar) {
-          inString = false;
-        }
+  /**
+   * Read the module ID, dependency IDs and factory from the arguments of a __d() call
+   */
+  private readModuleDefinition(span: ModuleSpan): ModuleDefinition | null {
+    if (span.error) {
+      const match = (span.tail || '').match(TRAILING_ARGUMENTS_PATTERN);
+      return match
+        ? {
+            id: parseInt(match[1], 10),
+            dependencies: BundleParser.parseDependencyList(match[2]),
+            factory: span.argText[0] || '',
+          }
+        : null;
+    }
+
+    const [factory, id, dependencies, verboseName] = span.argText.map((text) => text.trim());
+
+    if (!factory || !id || !/^\d+$/.test(id)) {
+      return null;
+    }
+
+    const nameMatch = verboseName ? verboseName.match(VERBOSE_NAME_PATTERN) : null;
+    return {
+      id: parseInt(id, 10),
+      dependencies:
+        dependencies && dependencies.startsWith('[') && dependencies.endsWith(']')
+          ? BundleParser.parseDependencyList(dependencies.slice(1, -1))
+          : [],
+      factory,
+      verboseName: nameMatch ? nameMatch[2].replace(/\\(.)/g, '$1') : undefined,
+    };
+  }
+
+  /**
+   * Pick the most reliable path for a module: the verbose name of a dev bundle, then the
+   * sourcemap, then a path marker comment, then guesses from the factory code
+   */
+  private resolveModulePath(
+    span: ModuleSpan | undefined,
+    definition: ModuleDefinition | null,
+    sourceIndex: number | undefined,
+    moduleId: ModuleId,
+    sourcePath?: string
+  ): string {
+    if (definition && definition.verboseName) {
+      this.hasVerboseNames = true;
+      return cleanDeclaredPath(definition.verboseName, this.workspaceDirs);
+    }
+
+    // Sourcemap sources array maps to module order, not IDs
+    const mappedPath = sourcePath
+      ? SourcemapParser.normalizeModulePath(sourcePath, this.workspaceDirs)
+      : sourceIndex !== undefined
+        ? this.getModulePathFromSourcemap(sourceIndex)
+        : undefined;
+    if (mappedPath) {
+      return mappedPath;
+    }
+
+    if (span && span.leadingComment && PATH_MARKER_PATTERN.test(span.leadingComment)) {
+      return cleanDeclaredPath(span.leadingComment, this.workspaceDirs);
+    }
+
+    return definition
+      ? this.extractModulePath(definition.factory, definition.id)
+      : `module_${moduleId}`;
+  }
+
+  private recordSpanWarnings(span: ModuleSpan, moduleId: ModuleId, hasDefinition: boolean): void {
+    if (span.error) {
+      this.warnings.push({
+        moduleId,
+        offset: span.byteStart,
+        message: `Could not find the end of the module definition (${span.error})`,
+      });
+    } else if (!hasDefinition) {
+      this.warnings.push({
+        moduleId,
+        offset: span.byteStart,
+        message: 'Could not read the module ID from the module definition',
+      });
+    }
+  }
+
+  /**
+   * Measure the code before the first and after the last module definition
+   */
+  private measureRuntime(spans: ModuleSpan[]): void {
+    if (spans.length === 0) {
+      return;
+    }
+    const first = spans[0];
+    const last = spans[spans.length - 1];
+    this.runtimeSize = first.byteStart + this.getTotalSize() - last.byteEnd;
+    this.moduleCode.set(
+      RUNTIME_SOURCE,
+      this.bundleContent.slice(0, first.start) + this.bundleContent.slice(last.end)
+    );
+  }
+
+  private markEntryModules(modules: ModuleData[]): ModuleData[] {
+    const entryIds = this.getEntryModuleIds();
+    modules.forEach((module) => {
+      if (entryIds.includes(module.id as number)) {
+        module.isEntry = true;
       }
+    });
+    return modules;
+  }
+
+  /**
+   * Build modules from the generated bytes each sourcemap source owns
+   */
+  private parseWithMappings(): ModuleData[] {
+    const sourcemapParser = this.sourcemapParser!;
+    const { bySource, unmapped } = sourcemapParser.computeSourceSizes(this.bundleContent);
+    const sourceCode = sourcemapParser.collectSourceCode(this.bundleContent);
+    const definitions = this.findModuleDefinitionsBySource();
+    const modules: ModuleData[] = [];
 
-      if (!inString) {
-        if (char === '{' || char === '(' || char === '[') depth++;
-        if (char === '}' || char === ')' || char === ']') depth--;
+    bySource.forEach((size, sourceIndex) => {
+      const rawPath = sourcemapParser.getModulePath(sourceIndex);
+      const definition = definitions.get(sourceIndex);
+      const id = definition ? definition.id : `source_${sourceIndex}`;
+      this.moduleCode.set(id, sourceCode.get(sourceIndex) || '');
 
-        // End of module definition
-        if (depth < 0) {
-          return i;
-        }
+      modules.push({
+        id,
+        path: rawPath
+          ? SourcemapParser.normalizeModulePath(rawPath, this.workspaceDirs)
+          : `source_${sourceIndex}`,
+        size,
+        dependencies: definition ? definition.dependencies : [],
+      });
+    });
+
+    if (unmapped > 0) {
+      modules.push({ id: UNMAPPED_SOURCE, path: UNMAPPED_SOURCE, size: unmapped });
+    }
+
+    return this.markEntryModules(modules);
+  }
+
+  /**
+   * Map sourcemap source indices to Metro module definitions by looking up where each
+   * __d() factory body starts, so reordered sources still get the right ID
+   */
+  private findModuleDefinitionsBySource(): Map<number, { id: number; dependencies: ModuleId[] }> {
+    const definitions = new Map<number, { id: number; dependencies: ModuleId[] }>();
+    const lexer = new BundleLexer(this.bundleContent);
+
+    lexer.findModuleDefinitions().spans.forEach((span) => {
+      const definition = this.readModuleDefinition(span);
+      if (!definition) return;
+      if (definition.verboseName) {
+        this.hasVerboseNames = true;
       }
+
+      const bodyStart = this.bundleContent.indexOf('{', span.args[0].start);
+      const { line, column } = lexer.getLineColumn(bodyStart);
+      const sourceIndex = this.sourcemapParser!.getSourceIndexAt(line, column);
+      if (sourceIndex !== undefined && !definitions.has(sourceIndex)) {
+        definitions.set(sourceIndex, { id: definition.id, dependencies: definition.dependencies });
+      }
+    });
+
+    return definitions;
+  }
+
+  /**
+   * Find the source that owns the most generated bytes of code starting at `firstLine`
+   */
+  private findMappedSourcePath(code: string, firstLine: number): string | undefined {
+    if (!this.sourcemapParser || !this.sourcemapParser.hasMappings()) {
+      return undefined;
     }
 
-    return Math.min(part.length, 10000); // Cap at reasonable size
+    let owner: number | undefined;
+    let ownedSize = 0;
+    this.sourcemapParser.computeSourceSizes(code, firstLine).bySource.forEach((size, index) => {
+      if (size > ownedSize) {
+        owner = index;
+        ownedSize = size;
+      }
+    });
+    return owner !== undefined ? this.sourcemapParser.getModulePath(owner) : undefined;
   }
 
   private getModulePathFromSourcemap(moduleId: number): string | undefined {
@@ -105,7 +410,7 @@ export class BundleParser {
       return undefined;
     }
 
-    return SourcemapParser.normalizeModulePath(rawPath);
+    return SourcemapParser.normalizeModulePath(rawPath, this.workspaceDirs);
   }
 
   private extractModulePath(moduleBody: string, moduleId: number): string {
@@ -190,99 +495,27 @@ export class BundleParser {
   }
 
   /**
-   * Parse bundle by simply counting __d() calls when detailed parsing fails
+   * Extract package name from module path. A copy nested in another package's
+   * node_modules belongs to the innermost package, and pnpm and Yarn PnP store paths
+   * to the package inside the store entry.
    */
-  private parseBySize(): ModuleData[] {
-    const modules: ModuleData[] = [];
-    const parts = this.bundleContent.split('__d(');
-
-    for (let i = 1; i < parts.length; i++) {
-      const part = parts[i];
-      const moduleIndex = i - 1;
-
-      // Extract module ID if possible
-      const idMatch = part.match(/^function\([^)]*\)\{[\s\S]*?\},(\d+),/);
-      const id = idMatch ? parseInt(idMatch[1], 10) : moduleIndex;
-
-      // Try to get path from sourcemap using index
-      let modulePath = this.getModulePathFromSourcemap(moduleIndex);
-      if (!modulePath) {
-        modulePath = `module_${id}`;
-      }
-
-      // Estimate module size (take first ~10KB or until we hit likely end)
-      const endIndex = Math.min(part.indexOf('__d(') > 0 ? part.indexOf('__d(') : part.length, 10000);
-      const moduleCode = part.substring(0, endIndex);
-
-      modules.push({
-        id,
-        path: modulePath,
-        size: new TextEncoder().encode(moduleCode).length,
-      });
-    }
-
-    return modules;
+  static extractPackageName(modulePath: string): string | undefined {
+    return parsePackagePath(modulePath)?.name;
   }
 
   /**
-   * Parse alternative Metro bundle formats
+   * Determine if module is from user code, node_modules, react-native, the runtime and
+   * polyfills, or unmapped bytes
    */
-  private parseAlternativeFormat(modules: ModuleData[]): void {
-    // Try to parse module map from sourcemap or inline comments
-    const lines = this.bundleContent.split('\n');
-
-    let currentModule: Partial<ModuleData> | null = null;
-    let currentSize = 0;
-
-    for (const line of lines) {
-      // Look for module markers
-      if (line.includes('__d(') || line.includes('__r(')) {
-        if (currentModule && currentModule.path) {
-          modules.push({
-            id: currentModule.id || modules.length,
-            path: currentModule.path,
-            size: currentSize,
-          });
-        }
-
-        currentModule = { id: modules.length };
-        currentSize = 0;
-      }
-
-      // Extract module path from comments
-      const pathMatch = line.match(/\/\*\s*([^*]+)\s*\*\//);
-      if (pathMatch && currentModule) {
-        currentModule.path = pathMatch[1];
-      }
-
-      currentSize += new TextEncoder().encode(line).length;
+  static categorizeModule(
+    modulePath: string
+  ): 'user' | 'node_modules' | 'react-native' | 'runtime' | 'unmapped' {
+    if (modulePath === UNMAPPED_SOURCE) {
+      return 'unmapped';
     }
-
-    // Add the last module
-    if (currentModule && currentModule.path) {
-      modules.push({
-        id: currentModule.id || modules.length,
-        path: currentModule.path,
-        size: currentSize,
-      });
+    if (modulePath === RUNTIME_SOURCE || RUNTIME_PATH_PATTERN.test(modulePath)) {
+      return 'runtime';
     }
-  }
-
-  /**
-   * Extract package name from module path
-   */
-  static extractPackageName(modulePath: string): string | undefined {
-    const nodeModulesMatch = modulePath.match(/node_modules\/(@[^/]+\/[^/]+|[^/]+)/);
-    if (nodeModulesMatch) {
-      return nodeModulesMatch[1];
-    }
-    return undefined;
-  }
-
-  /**
-   * Determine if module is from user code, node_modules, or react-native
-   */
-  static categorizeModule(modulePath: string): 'user' | 'node_modules' | 'react-native' {
     if (modulePath.includes('node_modules/react-native/')) {
       return 'react-native';
     }
@@ -296,6 +529,18 @@ export class BundleParser {
    * Get total bundle size
    */
   getTotalSize(): number {
-    return new TextEncoder().encode(this.bundleContent).length;
+    return Buffer.byteLength(this.bundleContent, 'utf-8');
+  }
+}
+
+/**
+ * Paths written into the bundle are project-relative, unless Metro was configured with
+ * absolute paths, which are cut down like sourcemap paths
+ */
+function cleanDeclaredPath(declaredPath: string, workspaceDirs: string[]): string {
+  const modulePath = declaredPath.replace(/\\/g, '/');
+  if (modulePath.startsWith('/') || /^[a-z]:\//i.test(modulePath)) {
+    return SourcemapParser.normalizeModulePath(modulePath, workspaceDirs);
   }
+  return modulePath.replace(/^\.\//, '');
 }
@@ -0,0 +1,202 @@
+import { once } from 'events';
+import * as zlib from 'zlib';
+import { BundleAnalysis, ModuleData, ModuleId, SizeMetric } from '../types';
+
+export interface CompressedSizes {
+  gzipSize: number;
+  brotliSize: number;
+}
+
+// Brotli quality 11 takes seconds per megabyte; 9 is close in size and what CDNs
+// typically use when compressing on the fly
+const GZIP_LEVEL = 9;
+const BROTLI_QUALITY = 9;
+
+// Per-module results are only used as weights, so favour speed over ratio
+const MODULE_BROTLI_QUALITY = 5;
+
+export class CompressionAnalyzer {
+  private content: Buffer;
+  private moduleCode?: Map<ModuleId, string>;
+  private rawSize: number;
+  private bundleSizes: CompressedSizes | null = null;
+
+  constructor(content: Buffer, moduleCode?: Map<ModuleId, string>) {
+    this.content = content;
+    this.moduleCode = moduleCode;
+    this.rawSize = content.length;
+  }
+
+  /**
+   * Create an analyzer for a loaded bundle, reusing compressed sizes measured while
+   * the bundle was streamed instead of compressing it again
+   */
+  static forBundle(bundle: {
+    content?: Buffer;
+    totalSize: number;
+    moduleCode?: Map<ModuleId, string>;
+    compressedSizes?: CompressedSizes;
+  }): CompressionAnalyzer {
+    const analyzer = new CompressionAnalyzer(bundle.content || Buffer.alloc(0), bundle.moduleCode);
+    if (bundle.compressedSizes) {
+      analyzer.bundleSizes = bundle.compressedSizes;
+      analyzer.rawSize = bundle.totalSize;
+    }
+    return analyzer;
+  }
+
+  /**
+   * Compress a buffer or string with gzip and Brotli and return the compressed lengths
+   */
+  static compress(content: Buffer | string, brotliQuality = BROTLI_QUALITY): CompressedSizes {
+    const buffer = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+
+    return {
+      gzipSize: zlib.gzipSync(buffer, { level: GZIP_LEVEL }).length,
+      brotliSize: zlib.brotliCompressSync(buffer, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_QUALITY]: brotliQuality,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: buffer.length,
+        },
+      }).length,
+    };
+  }
+
+  /**
+   * Pick the size of a module, package or bundle for a metric, falling back to raw bytes
+   */
+  static getSize(
+    item: { size?: number; totalSize?: number; gzipSize?: number; brotliSize?: number },
+    metric: SizeMetric
+  ): number {
+    const rawSize = item.size ?? item.totalSize ?? 0;
+    if (metric === 'gzip') return item.gzipSize ?? rawSize;
+    if (metric === 'brotli') return item.brotliSize ?? rawSize;
+    return rawSize;
+  }
+
+  /**
+   * Compress the whole bundle and estimate each module's and package's share of it.
+   * Modules compress better together than apart, so each module's own compressed size
+   * is only used as a weight to split the bundle's compressed size.
+   */
+  analyze(analysis: BundleAnalysis, modules: ModuleData[]): void {
+    // Inputs such as webpack stats without sources or emitted files have no code to compress
+    if (!this.bundleSizes && this.content.length === 0) {
+      return;
+    }
+
+    const bundleSizes = this.bundleSizes || CompressionAnalyzer.compress(this.content);
+    analysis.gzipSize = bundleSizes.gzipSize;
+    analysis.brotliSize = bundleSizes.brotliSize;
+
+    const weights = this.computeWeights(modules);
+    const moduleBytes = modules.reduce((sum, m) => sum + m.size, 0);
+
+    // Bytes outside any module (prelude, RAM bundle tables) are assumed to compress
+    // like the rest of the bundle
+    const moduleShare = this.rawSize > 0 ? Math.min(1, moduleBytes / this.rawSize) : 0;
+    const totalGzipWeight = weights.reduce((sum, w) => sum + w.gzipSize, 0);
+    const totalBrotliWeight = weights.reduce((sum, w) => sum + w.brotliSize, 0);
+
+    modules.forEach((module, index) => {
+      module.gzipSize = distribute(
+        bundleSizes.gzipSize * moduleShare,
+        weights[index].gzipSize,
+        totalGzipWeight
+      );
+      module.brotliSize = distribute(
+        bundleSizes.brotliSize * moduleShare,
+        weights[index].brotliSize,
+        totalBrotliWeight
+      );
+    });
+
+    analysis.packages.forEach((pkg) => {
+      pkg.gzipSize = pkg.modules.reduce((sum, m) => sum + (m.gzipSize || 0), 0);
+      pkg.brotliSize = pkg.modules.reduce((sum, m) => sum + (m.brotliSize || 0), 0);
+    });
+  }
+
+  /**
+   * Compress each module's own code; modules without code (Hermes bytecode, unmapped
+   * bytes) are weighted by raw size at the average ratio of the others
+   */
+  private computeWeights(modules: ModuleData[]): CompressedSizes[] {
+    const weights: (CompressedSizes | null)[] = modules.map((module) => {
+      const code = this.moduleCode?.get(module.id);
+      return code ? CompressionAnalyzer.compress(code, MODULE_BROTLI_QUALITY) : null;
+    });
+
+    let compressedRaw = 0;
+    let compressedGzip = 0;
+    let compressedBrotli = 0;
+    weights.forEach((weight, index) => {
+      if (!weight) return;
+      compressedRaw += modules[index].size;
+      compressedGzip += weight.gzipSize;
+      compressedBrotli += weight.brotliSize;
+    });
+
+    const gzipRatio = compressedRaw > 0 ? compressedGzip / compressedRaw : 1;
+    const brotliRatio = compressedRaw > 0 ? compressedBrotli / compressedRaw : 1;
+
+    return weights.map(
+      (weight, index) =>
+        weight || {
+          gzipSize: modules[index].size * gzipRatio,
+          brotliSize: modules[index].size * brotliRatio,
+        }
+    );
+  }
+}
+
+/**
+ * Measures gzip and Brotli sizes of a bundle fed in chunks, so the bundle never has
+ * to be held in memory
+ */
+export class StreamingCompressor {
+  private gzip: zlib.Gzip;
+  private brotli: zlib.BrotliCompress;
+  private sizes: CompressedSizes = { gzipSize: 0, brotliSize: 0 };
+
+  constructor(sizeHint = 0) {
+    this.gzip = zlib.createGzip({ level: GZIP_LEVEL });
+    this.brotli = zlib.createBrotliCompress({
+      params: {
+        [zlib.constants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY,
+        [zlib.constants.BROTLI_PARAM_SIZE_HINT]: sizeHint,
+      },
+    });
+    this.gzip.on('data', (chunk: Buffer) => (this.sizes.gzipSize += chunk.length));
+    this.brotli.on('data', (chunk: Buffer) => (this.sizes.brotliSize += chunk.length));
+  }
+
+  /**
+   * Feed the next chunk, waiting while either compressor is backed up
+   */
+  async write(chunk: Buffer): Promise<void> {
+    await Promise.all([
+      writeWithBackpressure(this.gzip, chunk),
+      writeWithBackpressure(this.brotli, chunk),
+    ]);
+  }
+
+  async end(): Promise<CompressedSizes> {
+    const finished = Promise.all([once(this.gzip, 'end'), once(this.brotli, 'end')]);
+    this.gzip.end();
+    this.brotli.end();
+    await finished;
+    return { ...this.sizes };
+  }
+}
+
+async function writeWithBackpressure(stream: zlib.Gzip | zlib.BrotliCompress, chunk: Buffer) {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain');
+  }
+}
+
+function distribute(total: number, weight: number, totalWeight: number): number {
+  return totalWeight > 0 ? Math.round((total * weight) / totalWeight) : 0;
+}
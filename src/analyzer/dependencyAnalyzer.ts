@@ -1,13 +1,31 @@
-import { ModuleData, PackageInfo, DuplicatePackage, BundleAnalysis } from '../types';
+import {
+  ModuleData,
+  ModuleId,
+  PackageInfo,
+  DuplicatePackage,
+  BundleAnalysis,
+  DirectDependency,
+} from '../types';
 import { BundleParser } from './bundleParser';
-import * as fs from 'fs';
-import * as path from 'path';
+import { ModuleGraph } from './moduleGraph';
+import { computeImmediateDominators, computeRetainedSizes } from '../utils/dominators';
+import { PackageVersionResolver } from '../utils/packageVersions';
+import { computeReachableSizes } from '../utils/reachability';
+import { findWorkspaceForPath, findWorkspaces, Workspace } from '../utils/workspaces';
 
 export class DependencyAnalyzer {
   private modules: ModuleData[];
+  private versionResolver: PackageVersionResolver;
+  private workspaces: Workspace[];
 
-  constructor(modules: ModuleData[]) {
+  /**
+   * @param projectRoot - Where node_modules or the lockfile is found, for package versions,
+   * and the monorepo whose workspace packages are reported as packages of their own
+   */
+  constructor(modules: ModuleData[], projectRoot: string = process.cwd()) {
     this.modules = modules;
+    this.versionResolver = new PackageVersionResolver(projectRoot);
+    this.workspaces = findWorkspaces(projectRoot);
   }
 
   /**
@@ -16,34 +34,55 @@ export class DependencyAnalyzer {
   analyze(): BundleAnalysis {
     const packages = this.analyzePackages();
     const duplicates = this.findDuplicates();
+    const directDependencies = this.attributeToDirectDependencies(packages);
     const moduleMap = new Map(this.modules.map((m) => [m.path, m]));
 
+    // Link reverse dependencies so each module knows who requires it
+    const graph = new ModuleGraph(this.modules);
+    graph.linkDependents();
+    this.assignRetainedSizes(graph, packages);
+
     let yourCodeSize = 0;
+    let workspaceSize = 0;
     let nodeModulesSize = 0;
     let reactNativeSize = 0;
+    let runtimeSize = 0;
+    let unmappedSize = 0;
 
     this.modules.forEach((module) => {
       const category = BundleParser.categorizeModule(module.path);
-      if (category === 'user') {
+      if (category === 'user' && findWorkspaceForPath(this.workspaces, module.path)) {
+        workspaceSize += module.size;
+      } else if (category === 'user') {
         yourCodeSize += module.size;
       } else if (category === 'react-native') {
         reactNativeSize += module.size;
+      } else if (category === 'runtime') {
+        runtimeSize += module.size;
+      } else if (category === 'unmapped') {
+        unmappedSize += module.size;
       } else {
         nodeModulesSize += module.size;
       }
     });
 
-    const totalSize = yourCodeSize + nodeModulesSize + reactNativeSize;
+    const totalSize =
+      yourCodeSize + workspaceSize + nodeModulesSize + reactNativeSize + runtimeSize + unmappedSize;
 
     return {
       totalSize,
       yourCodeSize,
+      workspaceSize,
       nodeModulesSize,
       reactNativeSize,
+      runtimeSize,
+      unmappedSize,
       packages,
+      ...(directDependencies ? { directDependencies } : {}),
       duplicates,
       optimizations: [],
       moduleMap,
+      entryModuleIds: graph.getEntryIds(),
     };
   }
 
@@ -55,7 +94,7 @@ export class DependencyAnalyzer {
 
     // Group modules by package
     this.modules.forEach((module) => {
-      const packageName = BundleParser.extractPackageName(module.path);
+      const packageName = this.getPackageName(module);
       if (packageName) {
         if (!packageMap.has(packageName)) {
           packageMap.set(packageName, []);
@@ -70,21 +109,131 @@ export class DependencyAnalyzer {
 
     packageMap.forEach((modules, packageName) => {
       const size = modules.reduce((sum, m) => sum + m.size, 0);
-      const version = this.getPackageVersion(packageName);
+      const workspace = findWorkspaceForPath(this.workspaces, modules[0].path);
 
-      packages.push({
+      const pkg: PackageInfo = {
         name: packageName,
         size,
         percentage: (size / totalSize) * 100,
         modules,
-        version,
-      });
+        version: workspace ? workspace.version : this.getPackageVersion(modules),
+      };
+      if (workspace) {
+        pkg.workspace = workspace.dir;
+      }
+      packages.push(pkg);
     });
 
     // Sort by size (largest first)
     return packages.sort((a, b) => b.size - a.size);
   }
 
+  /**
+   * Fill in retained and shared sizes. Retained size is what would leave the bundle
+   * with a module or package (itself plus everything it dominates); shared size is
+   * what it reaches that other code keeps alive anyway.
+   */
+  private assignRetainedSizes(graph: ModuleGraph, packages: PackageInfo[]): void {
+    const moduleSizes = this.computeGroupSizes(graph, (module) => `module:${module.id}`);
+    this.modules.forEach((module) => {
+      const sizes = moduleSizes.get(`module:${module.id}`)!;
+      module.retainedSize = sizes.retainedSize;
+      module.sharedSize = sizes.sharedSize;
+    });
+
+    // Collapse each package into a single node so it is removed as a whole
+    const packageSizes = this.computeGroupSizes(graph, (module) => {
+      const packageName = this.getPackageName(module);
+      return packageName ? `package:${packageName}` : `module:${module.id}`;
+    });
+    packages.forEach((pkg) => {
+      const sizes = packageSizes.get(`package:${pkg.name}`)!;
+      pkg.retainedSize = sizes.retainedSize;
+      pkg.sharedSize = sizes.sharedSize;
+    });
+  }
+
+  /**
+   * Build a graph of module groups under a virtual root and compute each group's
+   * retained size from its dominator tree and shared size from its reachable set
+   */
+  private computeGroupSizes(
+    graph: ModuleGraph,
+    groupKey: (module: ModuleData) => string
+  ): Map<string, { retainedSize: number; sharedSize: number }> {
+    const keys = ['<root>'];
+    const nodeByKey = new Map<string, number>();
+    const nodeByModule = new Map<ModuleId, number>();
+    const sizes = [0];
+
+    this.modules.forEach((module) => {
+      const key = groupKey(module);
+      if (!nodeByKey.has(key)) {
+        nodeByKey.set(key, keys.length);
+        keys.push(key);
+        sizes.push(0);
+      }
+      const node = nodeByKey.get(key)!;
+      nodeByModule.set(module.id, node);
+      sizes[node] += module.size;
+    });
+
+    const edges = keys.map(() => new Set<number>());
+    this.modules.forEach((module) => {
+      const from = nodeByModule.get(module.id)!;
+      graph.getDependencyIds(module.id).forEach((dependencyId) => {
+        const to = nodeByModule.get(dependencyId)!;
+        if (to !== from) {
+          edges[from].add(to);
+        }
+      });
+    });
+    const successors = edges.map((targets) => Array.from(targets));
+
+    // Hang the entry modules (or modules nothing requires) off the root, then any
+    // module left unreachable, so every byte in the bundle has a dominator
+    const entryIds = graph.getEntryIds();
+    const rootModules =
+      entryIds.length > 0
+        ? entryIds
+        : this.modules
+            .filter((module) => graph.getDependentIds(module.id).length === 0)
+            .map((module) => module.id);
+    const reached = new Uint8Array(keys.length);
+    const addRoot = (node: number) => {
+      if (reached[node]) return;
+      successors[0].push(node);
+      const stack = [node];
+      reached[node] = 1;
+      while (stack.length > 0) {
+        successors[stack.pop()!].forEach((target) => {
+          if (!reached[target]) {
+            reached[target] = 1;
+            stack.push(target);
+          }
+        });
+      }
+    };
+    rootModules.forEach((id) => addRoot(nodeByModule.get(id)!));
+    for (let node = 1; node < keys.length; node++) {
+      addRoot(node);
+    }
+
+    const { idom, order } = computeImmediateDominators(successors);
+    const retained = computeRetainedSizes(sizes, idom, order);
+    const reachable = computeReachableSizes(successors, sizes);
+
+    const result = new Map<string, { retainedSize: number; sharedSize: number }>();
+    for (let node = 1; node < keys.length; node++) {
+      result.set(keys[node], {
+        retainedSize: retained[node],
+        sharedSize: reachable[node] - retained[node],
+      });
+    }
+
+    return result;
+  }
+
   /**
    * Find duplicate packages (different versions of the same package)
    */
@@ -99,21 +248,11 @@ export class DependencyAnalyzer {
           packagePaths.set(packageName, new Set());
         }
 
-        // Extract unique installation paths
-        // Look for patterns like: node_modules/pkg or node_modules/other-pkg/node_modules/pkg
-        const nodeModulesMatches = module.path.match(/node_modules\/@?[^/]+(?:\/[^/]+)?/g);
-        if (nodeModulesMatches) {
-          // Get the last occurrence which indicates where this specific package is installed
-          const lastMatch = nodeModulesMatches[nodeModulesMatches.length - 1];
-          // Extract just the package name part
-          const pkgPath = lastMatch.replace(/^node_modules\//, '');
-          if (pkgPath.includes(packageName)) {
-            // Store the prefix path to detect nested node_modules
-            const prefixMatch = module.path.match(/(.*node_modules\/)/);
-            if (prefixMatch) {
-              packagePaths.get(packageName)!.add(prefixMatch[1] + packageName);
-            }
-          }
+        // Each installation path, such as node_modules/pkg or
+        // node_modules/other-pkg/node_modules/pkg, is a separate copy
+        const installPath = PackageVersionResolver.getInstallPath(module.path);
+        if (installPath) {
+          packagePaths.get(packageName)!.add(installPath);
         }
       }
     });
@@ -132,7 +271,9 @@ export class DependencyAnalyzer {
 
         duplicates.push({
           name: packageName,
-          versions: uniquePaths,
+          versions: uniquePaths.map(
+            (installPath) => this.versionResolver.resolveInstallPath(installPath) || 'unknown'
+          ),
           totalWaste: actualWaste,
           paths: uniquePaths,
         });
@@ -143,24 +284,126 @@ export class DependencyAnalyzer {
   }
 
   /**
-   * Get package version from package.json
+   * Get the package a module belongs to: its workspace package, or its package in
+   * node_modules
    */
-  private getPackageVersion(packageName: string): string | undefined {
-    try {
-      const packageJsonPath = path.join(
-        process.cwd(),
-        'node_modules',
-        packageName,
-        'package.json'
-      );
-
-      if (fs.existsSync(packageJsonPath)) {
-        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-        return packageJson.version;
+  private getPackageName(module: ModuleData): string | undefined {
+    const workspace = findWorkspaceForPath(this.workspaces, module.path);
+    return workspace ? workspace.name : BundleParser.extractPackageName(module.path);
+  }
+
+  /**
+   * Roll the bytes of transitive packages up into the dependencies listed in the
+   * project's package.json that bring them in, following the dependency tree recorded
+   * in the installed package.json files or the lockfile. A package brought in by
+   * several direct dependencies is split evenly between them. Returns undefined when
+   * the project's package.json lists no dependencies found in the bundle.
+   */
+  private attributeToDirectDependencies(packages: PackageInfo[]): DirectDependency[] | undefined {
+    const byName = new Map(packages.map((pkg) => [pkg.name, pkg]));
+    // Dev dependencies only count when they end up in the bundle, so build tooling
+    // does not claim a share of the packages it happens to depend on
+    const directNames = new Set(
+      this.versionResolver
+        .getProjectDependencies()
+        .filter((dependency) => !dependency.dev || byName.has(dependency.name))
+        .map((dependency) => dependency.name)
+    );
+
+    const dependencyCache = new Map<string, string[]>();
+    const getDependencies = (name: string): string[] => {
+      if (!dependencyCache.has(name)) {
+        const pkg = byName.get(name);
+        const installPath = (pkg && this.getTopInstallPath(pkg.modules)) || `node_modules/${name}`;
+        dependencyCache.set(name, this.versionResolver.resolveDependencies(installPath) || []);
       }
-    } catch (error) {
-      // Ignore errors
-    }
-    return undefined;
+      return dependencyCache.get(name)!;
+    };
+
+    // Transitive packages reached from each direct dependency, without walking into
+    // other direct dependencies, which are costed on their own line
+    const reachedBy = new Map<string, string[]>();
+    const owners = new Map<string, string[]>();
+    directNames.forEach((directName) => {
+      const visited = new Set([directName]);
+      const queue = [directName];
+      const reached: string[] = [];
+      while (queue.length > 0) {
+        getDependencies(queue.shift()!).forEach((dependency) => {
+          if (visited.has(dependency) || directNames.has(dependency)) return;
+          visited.add(dependency);
+          queue.push(dependency);
+          if (byName.has(dependency)) {
+            reached.push(dependency);
+            owners.set(dependency, [...(owners.get(dependency) || []), directName]);
+          }
+        });
+      }
+      reachedBy.set(directName, reached);
+    });
+
+    const directDependencies: DirectDependency[] = [];
+    directNames.forEach((directName) => {
+      const pkg = byName.get(directName);
+      const reached = reachedBy.get(directName)!;
+      if (!pkg && reached.length === 0) {
+        return;
+      }
+
+      let exclusiveSize = 0;
+      let sharedSize = 0;
+      const transitive = reached.map((name) => {
+        const size = byName.get(name)!.size;
+        const sharedWith = owners.get(name)!.filter((owner) => owner !== directName);
+        if (sharedWith.length === 0) {
+          exclusiveSize += size;
+        } else {
+          sharedSize += size / (sharedWith.length + 1);
+        }
+        return { name, size, sharedWith };
+      });
+
+      const size = pkg ? pkg.size : 0;
+      directDependencies.push({
+        name: directName,
+        version: pkg?.version,
+        size,
+        exclusiveSize,
+        sharedSize,
+        totalSize: size + exclusiveSize + sharedSize,
+        transitive: transitive.sort((a, b) => b.size - a.size),
+      });
+    });
+
+    return directDependencies.length > 0
+      ? directDependencies.sort((a, b) => b.totalSize - a.totalSize)
+      : undefined;
+  }
+
+  /**
+   * Get the install path of the top-most copy of a package, which is the copy the
+   * project itself depends on
+   */
+  private getTopInstallPath(modules: ModuleData[]): string | undefined {
+    const installPaths = new Set<string>();
+    modules.forEach((module) => {
+      const installPath = PackageVersionResolver.getInstallPath(module.path);
+      if (installPath) {
+        installPaths.add(installPath);
+      }
+    });
+
+    const [shallowest] = Array.from(installPaths).sort(
+      (a, b) => a.split('node_modules/').length - b.split('node_modules/').length
+    );
+    return shallowest;
+  }
+
+  /**
+   * Get the version of the top-most install of a package
+   */
+  private getPackageVersion(modules: ModuleData[]): string | undefined {
+    const installPath = this.getTopInstallPath(modules);
+    return installPath ? this.versionResolver.resolveInstallPath(installPath) : undefined;
   }
 }
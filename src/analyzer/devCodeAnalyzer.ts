@@ -0,0 +1,317 @@
+import { DevCodeAnalysis, DevCodeFinding, ModuleData, ModuleId } from '../types';
+import { BundleLexer, Token } from './bundleLexer';
+import { LoadedBundle } from './bundleLoader';
+import { BundleParser } from './bundleParser';
+import { ModuleScan } from './moduleScan';
+
+// Packages that only belong in development builds, and what they are
+const DEV_PACKAGES: Array<{ pattern: RegExp; description: string }> = [
+  { pattern: /^reactotron(?:-|$)/, description: 'Reactotron debugging client' },
+  { pattern: /^redux-logger$/, description: 'Redux action logger' },
+  { pattern: /^@welldone-software\/why-did-you-render$/, description: 'Re-render tracker' },
+  { pattern: /(?:^|[/-])flipper(?:-|$)/, description: 'Flipper plugin' },
+  {
+    pattern: /^(?:@redux-devtools\/|redux-devtools|remote-redux-devtools$)/,
+    description: 'Redux DevTools',
+  },
+  { pattern: /^redux-immutable-state-invariant$/, description: 'Redux state mutation checker' },
+];
+
+// React's cjs/*.development.js builds and React Native's *-dev.js renderers
+const REACT_DEV_BUILD_PATTERN =
+  /(?:\/cjs\/[^/]+\.development\.js|\/Libraries\/Renderer\/implementations\/[^/]+-dev\.js)$/;
+
+// Operators that compare process.env.NODE_ENV with the string that makes a condition
+// true only in development
+const DEV_COMPARISONS: Record<string, string> = {
+  '!=': 'production',
+  '!==': 'production',
+  '==': 'development',
+  '===': 'development',
+};
+
+const NODE_ENV = ['process', '.', 'env', '.', 'NODE_ENV'];
+
+export interface DevBranches {
+  count: number;
+  size: number;
+}
+
+/**
+ * Finds code that only belongs in development builds: dev-only packages, React
+ * development builds and `__DEV__` or NODE_ENV branches that were not stripped. In a
+ * development bundle everything is dev code, so the bundle itself is the only finding.
+ */
+export class DevCodeAnalyzer {
+  private modules: ModuleData[];
+  private moduleCode?: Map<ModuleId, string>;
+  private isDevBundle: boolean;
+  private totalSize: number;
+  private moduleScans?: Map<ModuleId, ModuleScan>;
+
+  constructor(
+    modules: ModuleData[],
+    moduleCode?: Map<ModuleId, string>,
+    isDevBundle = false,
+    totalSize?: number,
+    moduleScans?: Map<ModuleId, ModuleScan>
+  ) {
+    this.modules = modules;
+    this.moduleCode = moduleCode;
+    this.isDevBundle = isDevBundle;
+    this.totalSize = totalSize ?? modules.reduce((sum, module) => sum + module.size, 0);
+    this.moduleScans = moduleScans;
+  }
+
+  static forBundle(bundle: LoadedBundle): DevCodeAnalyzer {
+    return new DevCodeAnalyzer(
+      bundle.modules,
+      bundle.moduleCode,
+      !!bundle.isDevBundle,
+      bundle.totalSize,
+      bundle.moduleScans
+    );
+  }
+
+  analyze(): DevCodeAnalysis {
+    if (this.isDevBundle) {
+      return {
+        isDevBundle: true,
+        findings: [
+          {
+            kind: 'dev-bundle',
+            name: 'bundle',
+            description: 'Development bundle, built without --dev false',
+            size: this.totalSize,
+            moduleCount: this.modules.length,
+          },
+        ],
+        totalSize: this.totalSize,
+        unscannedModuleCount: 0,
+      };
+    }
+
+    const findings = new Map<string, DevCodeFinding>();
+    const add = (finding: Omit<DevCodeFinding, 'moduleCount'>, branches?: DevBranches) => {
+      const key = `${finding.kind}:${finding.name}`;
+      const existing = findings.get(key);
+      if (existing) {
+        existing.size += finding.size;
+        existing.moduleCount++;
+        if (branches) {
+          existing.branchCount = (existing.branchCount || 0) + branches.count;
+        }
+      } else {
+        findings.set(key, {
+          ...finding,
+          moduleCount: 1,
+          ...(branches ? { branchCount: branches.count } : {}),
+        });
+      }
+    };
+    let unscannedModuleCount = 0;
+
+    this.modules.forEach((module) => {
+      const category = BundleParser.categorizeModule(module.path);
+      if (category === 'runtime' || category === 'unmapped') {
+        return;
+      }
+      const packageName = BundleParser.extractPackageName(module.path);
+
+      const devPackage =
+        packageName && DEV_PACKAGES.find(({ pattern }) => pattern.test(packageName));
+      if (devPackage) {
+        add({
+          kind: 'dev-package',
+          name: packageName!,
+          description: devPackage.description,
+          size: module.size,
+        });
+        return;
+      }
+
+      if (REACT_DEV_BUILD_PATTERN.test(module.path.replace(/\\/g, '/'))) {
+        add({
+          kind: 'react-dev-build',
+          name: packageName || module.path,
+          description: 'React development build',
+          size: module.size,
+        });
+        return;
+      }
+
+      const code = this.moduleCode?.get(module.id);
+      const branches =
+        code !== undefined
+          ? DevCodeAnalyzer.findDevBranches(code)
+          : this.moduleScans?.get(module.id)?.devBranches;
+      if (!branches) {
+        unscannedModuleCount++;
+        return;
+      }
+      if (branches.count > 0) {
+        add(
+          {
+            kind: 'dev-branch',
+            // App code is reported by file, packages as a whole
+            name: category === 'user' ? module.path : packageName || module.path,
+            description: 'Unstripped __DEV__ or NODE_ENV branches',
+            size: branches.size,
+          },
+          branches
+        );
+      }
+    });
+
+    const sorted = Array.from(findings.values()).sort((a, b) => b.size - a.size);
+    return {
+      isDevBundle: false,
+      findings: sorted,
+      totalSize: sorted.reduce((sum, finding) => sum + finding.size, 0),
+      unscannedModuleCount,
+    };
+  }
+
+  /**
+   * Count the branches guarded by a development-only condition and their bytes: the
+   * block or statement of `if (__DEV__)`, or the operand of `__DEV__ &&`. A condition
+   * used any other way, such as in a ternary, counts as a branch of no size.
+   */
+  static findDevBranches(code: string): DevBranches {
+    const branches: DevBranches = { count: 0, size: 0 };
+    const tokens = BundleLexer.tokenize(code);
+    const text = (index: number) =>
+      index >= 0 && index < tokens.length ? code.slice(tokens[index].start, tokens[index].end) : '';
+
+    let index = 0;
+    while (index < tokens.length) {
+      const start = index;
+      const end = matchDevCondition(code, tokens, start);
+      if (end === undefined || !isDevCondition(code, tokens, start, end)) {
+        index++;
+        continue;
+      }
+
+      let guardedEnd = end;
+      if (text(start - 2) === 'if' && text(start - 1) === '(' && text(end) === ')') {
+        guardedEnd = findStatementEnd(code, tokens, end + 1);
+      } else if (readOperator(code, tokens, end).value === '&&') {
+        guardedEnd = findStatementEnd(code, tokens, end + 2);
+      }
+
+      branches.count++;
+      const conditionEnd = tokens[end - 1].end;
+      const branchEnd = guardedEnd > end ? tokens[guardedEnd - 1].end : conditionEnd;
+      branches.size += Buffer.byteLength(code.slice(conditionEnd, branchEnd), 'utf-8');
+      index = Math.max(guardedEnd, end);
+    }
+
+    return branches;
+  }
+}
+
+/**
+ * Match a development-only condition at token `start`: `__DEV__`, or process.env.NODE_ENV
+ * compared with 'production' or 'development' on either side. Returns the index of the
+ * token after it.
+ */
+function matchDevCondition(code: string, tokens: Token[], start: number): number | undefined {
+  const token = tokens[start];
+  if (token.type === 'word' && code.slice(token.start, token.end) === '__DEV__') {
+    return start + 1;
+  }
+
+  const nodeEnvEnd = matchNodeEnv(code, tokens, start);
+  if (nodeEnvEnd !== undefined) {
+    const operator = readOperator(code, tokens, nodeEnvEnd);
+    const value = readString(code, tokens[operator.end]);
+    return value !== undefined && DEV_COMPARISONS[operator.value] === value
+      ? operator.end + 1
+      : undefined;
+  }
+
+  const value = readString(code, token);
+  if (value !== undefined) {
+    const operator = readOperator(code, tokens, start + 1);
+    const end = matchNodeEnv(code, tokens, operator.end);
+    return end !== undefined && DEV_COMPARISONS[operator.value] === value ? end : undefined;
+  }
+  return undefined;
+}
+
+function matchNodeEnv(code: string, tokens: Token[], start: number): number | undefined {
+  const matches = NODE_ENV.every((part, offset) => {
+    const token = tokens[start + offset];
+    return token && code.slice(token.start, token.end) === part;
+  });
+  return matches ? start + NODE_ENV.length : undefined;
+}
+
+/**
+ * Read the operator made of adjacent punctuators from token `start`, such as `!==` or `&&`
+ */
+function readOperator(
+  code: string,
+  tokens: Token[],
+  start: number
+): { value: string; end: number } {
+  let end = start;
+  while (
+    end < tokens.length &&
+    tokens[end].type === 'punctuator' &&
+    '!=&'.includes(code[tokens[end].start]) &&
+    (end === start || tokens[end].start === tokens[end - 1].end)
+  ) {
+    end++;
+  }
+  const value = end > start ? code.slice(tokens[start].start, tokens[end - 1].end) : '';
+  return { value, end };
+}
+
+function readString(code: string, token: Token | undefined): string | undefined {
+  return token && token.type === 'string' ? code.slice(token.start + 1, token.end - 1) : undefined;
+}
+
+/**
+ * Whether the match is used as a condition, rather than declared or set as in Metro's
+ * prelude, checked for with typeof, or negated
+ */
+function isDevCondition(code: string, tokens: Token[], start: number, end: number): boolean {
+  const before = start > 0 ? code.slice(tokens[start - 1].start, tokens[start - 1].end) : '';
+  return (
+    !['var', 'let', 'const', 'typeof', '!'].includes(before) &&
+    readOperator(code, tokens, end).value !== '='
+  );
+}
+
+/**
+ * Find the end of the statement or expression starting at token `start`: a whole `{}`
+ * block, or everything up to the next `;`, `,` or closing bracket at the same depth.
+ * Returns the index of the token after it.
+ */
+function findStatementEnd(code: string, tokens: Token[], start: number): number {
+  const isBlock = start < tokens.length && code[tokens[start].start] === '{';
+  let depth = 0;
+
+  for (let index = start; index < tokens.length; index++) {
+    if (tokens[index].type !== 'punctuator') {
+      continue;
+    }
+    const char = code[tokens[index].start];
+    if (char === '{' || char === '(' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ')' || char === ']') {
+      if (depth === 0) {
+        return index;
+      }
+      depth--;
+      if (depth === 0 && char === '}' && isBlock) {
+        return index + 1;
+      }
+    } else if (depth === 0 && (char === ';' || char === ',')) {
+      return char === ';' ? index + 1 : index;
+    }
+  }
+
+  return tokens.length;
+}
@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChunkInfo, ModuleData, ModuleId, ParseWarning } from '../types';
+import { SourcemapParser } from '../utils/sourcemapParser';
+import { BundleLoader, LoadedBundle } from './bundleLoader';
+import { CompressionAnalyzer } from './compressionAnalyzer';
+
+// Written by `expo export` at the root of the output directory
+const METADATA_FILE = 'metadata.json';
+const CHUNK_EXTENSIONS = new Set(['.js', '.hbc', '.bundle']);
+
+interface ExpoMetadata {
+  fileMetadata?: { [platform: string]: { bundle?: string } };
+}
+
+export interface ExpoChunkFile {
+  // Path relative to the export directory, as shown in reports
+  name: string;
+  bundlePath: string;
+  sourcemapPath?: string;
+  isInitial: boolean;
+}
+
+export class ExpoExportLoader {
+  /**
+   * Check whether a path is an `expo export` output directory or its metadata.json
+   */
+  static isExpoExport(inputPath: string): boolean {
+    if (!fs.existsSync(inputPath)) {
+      return false;
+    }
+    if (path.basename(inputPath) === METADATA_FILE) {
+      return true;
+    }
+    return (
+      fs.statSync(inputPath).isDirectory() && fs.existsSync(path.join(inputPath, METADATA_FILE))
+    );
+  }
+
+  /**
+   * List the chunks of a platform: the entry bundle named in metadata.json, which is
+   * loaded at startup, followed by the split chunks next to it, which are loaded lazily
+   */
+  static findChunks(inputPath: string, platform: string): ExpoChunkFile[] {
+    const metadataPath =
+      path.basename(inputPath) === METADATA_FILE ? inputPath : path.join(inputPath, METADATA_FILE);
+    const exportDir = path.dirname(metadataPath);
+    const metadata: ExpoMetadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+    const platforms = metadata.fileMetadata || {};
+
+    const entry = platforms[platform] && platforms[platform].bundle;
+    if (!entry) {
+      const available = Object.keys(platforms).join(', ') || 'none';
+      throw new Error(
+        `${metadataPath} has no bundle for platform "${platform}" (available: ${available})`
+      );
+    }
+
+    const entryPath = path.resolve(exportDir, entry);
+    const chunkDir = path.dirname(entryPath);
+
+    return fs
+      .readdirSync(chunkDir)
+      .filter((file) => CHUNK_EXTENSIONS.has(path.extname(file)))
+      .sort()
+      .map((file) => {
+        const bundlePath = path.join(chunkDir, file);
+        return {
+          name: path.relative(exportDir, bundlePath).split(path.sep).join('/'),
+          bundlePath,
+          sourcemapPath: findChunkSourcemap(bundlePath),
+          isInitial: bundlePath === entryPath,
+        };
+      })
+      .sort((a, b) => Number(b.isInitial) - Number(a.isInitial));
+  }
+
+  /**
+   * Load every chunk of an export with its own sourcemap and combine them into one
+   * bundle. Each module records its chunk; a module ID already seen in an earlier chunk
+   * gets the chunk name appended, so that both copies are counted. Dependencies resolve
+   * to the copy in the same chunk, or to the first copy when the chunk has none.
+   */
+  static load(inputPath: string, platform: string, workspaceDirs: string[] = []): LoadedBundle {
+    const modules: ModuleData[] = [];
+    const moduleCode = new Map<ModuleId, string>();
+    const warnings: ParseWarning[] = [];
+    const chunks: ChunkInfo[] = [];
+    const seenIds = new Set<ModuleId>();
+    let isDevBundle = false;
+
+    this.findChunks(inputPath, platform).forEach((file) => {
+      let sourcemapParser: SourcemapParser | undefined;
+      if (file.sourcemapPath) {
+        sourcemapParser = new SourcemapParser(file.sourcemapPath);
+        sourcemapParser.load();
+      }
+
+      const loaded = BundleLoader.load(file.bundlePath, sourcemapParser, workspaceDirs);
+      const compressed = CompressionAnalyzer.compress(loaded.content!);
+
+      // IDs of this chunk's modules, so its requires resolve to its own copies first
+      const localIds = new Map<ModuleId, ModuleId>();
+      loaded.modules.forEach((module) => {
+        const originalId = module.id;
+        if (seenIds.has(module.id)) {
+          module.id = `${module.id}@${file.name}`;
+        }
+        seenIds.add(module.id);
+        localIds.set(originalId, module.id);
+        module.chunk = file.name;
+
+        const code = loaded.moduleCode && loaded.moduleCode.get(originalId);
+        if (code !== undefined) {
+          moduleCode.set(module.id, code);
+        }
+        modules.push(module);
+      });
+      loaded.modules.forEach((module) => {
+        if (module.dependencies) {
+          module.dependencies = module.dependencies.map((id) => localIds.get(id) ?? id);
+        }
+      });
+
+      (loaded.warnings || []).forEach((warning) =>
+        warnings.push({ ...warning, message: `${file.name}: ${warning.message}` })
+      );
+      isDevBundle = isDevBundle || !!loaded.isDevBundle;
+
+      chunks.push({
+        name: file.name,
+        format: loaded.format,
+        isInitial: file.isInitial,
+        size: loaded.totalSize,
+        gzipSize: compressed.gzipSize,
+        brotliSize: compressed.brotliSize,
+        moduleCount: loaded.modules.length,
+      });
+    });
+
+    return {
+      format: chunks[0].format,
+      modules,
+      totalSize: chunks.reduce((sum, chunk) => sum + chunk.size, 0),
+      moduleCode,
+      compressedSizes: {
+        gzipSize: chunks.reduce((sum, chunk) => sum + (chunk.gzipSize || 0), 0),
+        brotliSize: chunks.reduce((sum, chunk) => sum + (chunk.brotliSize || 0), 0),
+      },
+      warnings,
+      isDevBundle,
+      chunks,
+    };
+  }
+}
+
+/**
+ * Expo writes each chunk's map next to it, as `<chunk>.map` or with the extension replaced
+ */
+function findChunkSourcemap(bundlePath: string): string | undefined {
+  const candidates = [
+    bundlePath + '.map',
+    bundlePath.slice(0, -path.extname(bundlePath).length) + '.map',
+  ];
+  return candidates.find((candidate) => fs.existsSync(candidate));
+}
@@ -0,0 +1,406 @@
+import { ModuleData } from '../types';
+import { SourcemapParser } from '../utils/sourcemapParser';
+
+export interface HermesBytecodeHeader {
+  version: number;
+  fileLength: number;
+  globalCodeIndex: number;
+  functionCount: number;
+  stringKindCount: number;
+  identifierCount: number;
+  stringCount: number;
+  overflowStringCount: number;
+  stringStorageSize: number;
+  debugInfoOffset: number;
+}
+
+export interface HermesFunction {
+  index: number;
+  name: string;
+  offset: number;
+  bytecodeSize: number;
+  paramCount: number;
+  infoOffset: number;
+  hasDebugInfo: boolean;
+  hasExceptionHandler: boolean;
+  filename?: string;
+}
+
+interface StringEntry {
+  isUTF16: boolean;
+  offset: number;
+  length: number;
+}
+
+interface FileRegion {
+  fromAddress: number;
+  filenameId: number;
+}
+
+// Magic number at the start of every Hermes bytecode file (little-endian uint64)
+const HERMES_MAGIC = Buffer.from([0xc6, 0x1f, 0xbc, 0x03, 0xc1, 0x03, 0x19, 0x1f]);
+
+// The file header is padded to a fixed size; sections follow it, each aligned to 4 bytes
+const HEADER_SIZE = 128;
+const SMALL_FUNCTION_HEADER_SIZE = 16;
+const LARGE_FUNCTION_HEADER_SIZE = 32;
+const SMALL_STRING_ENTRY_SIZE = 4;
+const OVERFLOW_STRING_ENTRY_SIZE = 8;
+const EXCEPTION_HANDLER_ENTRY_SIZE = 12;
+const FILE_REGION_SIZE = 12;
+
+// Bit layout of SmallFuncHeader.flags
+const FLAG_HAS_EXCEPTION_HANDLER = 1 << 3;
+const FLAG_HAS_DEBUG_INFO = 1 << 4;
+const FLAG_OVERFLOWED = 1 << 5;
+
+// Strings whose length does not fit in 8 bits live in the overflow table
+const STRING_LENGTH_OVERFLOW = 0xff;
+
+export class HermesParser {
+  private buffer: Buffer;
+  private sourcemapParser?: SourcemapParser;
+  private workspaceDirs: string[];
+  private header: HermesBytecodeHeader | null = null;
+  private stringEntries: StringEntry[] = [];
+  private overflowEntriesOffset = 0;
+  private stringStorageOffset = 0;
+
+  constructor(buffer: Buffer, sourcemapParser?: SourcemapParser, workspaceDirs: string[] = []) {
+    this.buffer = buffer;
+    this.sourcemapParser = sourcemapParser;
+    this.workspaceDirs = workspaceDirs;
+  }
+
+  /**
+   * Check whether a buffer holds Hermes bytecode
+   */
+  static isHermesBytecode(buffer: Buffer): boolean {
+    return buffer.length >= HERMES_MAGIC.length && buffer.subarray(0, 8).equals(HERMES_MAGIC);
+  }
+
+  /**
+   * Parse the Hermes bytecode and attribute bytecode size to source modules
+   */
+  parse(): ModuleData[] {
+    const functions = this.getFunctions();
+    const sizeByPath = new Map<string, number>();
+
+    functions.forEach((fn) => {
+      const modulePath = this.getFunctionPath(fn);
+      sizeByPath.set(modulePath, (sizeByPath.get(modulePath) || 0) + fn.bytecodeSize);
+    });
+
+    const modules: ModuleData[] = [];
+    sizeByPath.forEach((size, modulePath) => {
+      modules.push({
+        id: modules.length,
+        path: modulePath,
+        size,
+      });
+    });
+
+    return modules;
+  }
+
+  /**
+   * Decode the bytecode file header
+   */
+  parseHeader(): HermesBytecodeHeader {
+    if (this.header) {
+      return this.header;
+    }
+
+    if (!HermesParser.isHermesBytecode(this.buffer) || this.buffer.length < HEADER_SIZE) {
+      throw new Error('Not a Hermes bytecode file');
+    }
+
+    const fields = (index: number) => this.buffer.readUInt32LE(32 + index * 4);
+    const version = this.buffer.readUInt32LE(8);
+
+    // Offsets after the source hash are stable for the sections we read. The bigint
+    // fields (v87+) and function source table (v84+) only shift later sections.
+    this.header = {
+      version,
+      fileLength: fields(0),
+      globalCodeIndex: fields(1),
+      functionCount: fields(2),
+      stringKindCount: fields(3),
+      identifierCount: fields(4),
+      stringCount: fields(5),
+      overflowStringCount: fields(6),
+      stringStorageSize: fields(7),
+      debugInfoOffset: this.readDebugInfoOffset(version),
+    };
+
+    this.readStringTable();
+
+    return this.header;
+  }
+
+  /**
+   * Decode the function table
+   */
+  getFunctions(): HermesFunction[] {
+    const header = this.parseHeader();
+    const functions: HermesFunction[] = [];
+    const fileRegions = this.readFileRegions();
+
+    for (let index = 0; index < header.functionCount; index++) {
+      const fn = this.readFunctionHeader(index);
+      if (fn) {
+        if (fileRegions && fn.hasDebugInfo) {
+          fn.filename = this.resolveFunctionFilename(fn, fileRegions);
+        }
+        functions.push(fn);
+      }
+    }
+
+    return functions;
+  }
+
+  /**
+   * Read a string from the string table by ID
+   */
+  getString(id: number): string {
+    this.parseHeader();
+
+    const entry = this.stringEntries[id];
+    if (!entry) {
+      return '';
+    }
+
+    const start = this.stringStorageOffset + entry.offset;
+    if (entry.isUTF16) {
+      return this.buffer.toString('utf16le', start, start + entry.length * 2);
+    }
+    return this.buffer.toString('latin1', start, start + entry.length);
+  }
+
+  /**
+   * Get total bytecode file size
+   */
+  getTotalSize(): number {
+    return this.buffer.length;
+  }
+
+  private readDebugInfoOffset(version: number): number {
+    // Count the uint32 fields between stringStorageSize and debugInfoOffset
+    let index = 8;
+    if (version >= 87) index += 2; // bigIntCount, bigIntStorageSize
+    index += 5; // regExpCount, regExpStorageSize, arrayBufferSize, objKeyBufferSize, objValueBufferSize
+    index += 2; // segmentID, cjsModuleCount
+    if (version >= 84) index += 1; // functionSourceCount
+
+    const offset = 32 + index * 4;
+    return offset + 4 <= HEADER_SIZE ? this.buffer.readUInt32LE(offset) : 0;
+  }
+
+  private readStringTable(): void {
+    const header = this.header!;
+
+    let offset = HEADER_SIZE;
+    offset = align(offset + header.functionCount * SMALL_FUNCTION_HEADER_SIZE);
+    offset = align(offset + header.stringKindCount * 4);
+    offset = align(offset + header.identifierCount * 4);
+    const smallTableOffset = offset;
+    offset = align(offset + header.stringCount * SMALL_STRING_ENTRY_SIZE);
+    this.overflowEntriesOffset = offset;
+    offset = align(offset + header.overflowStringCount * OVERFLOW_STRING_ENTRY_SIZE);
+    this.stringStorageOffset = offset;
+
+    if (this.stringStorageOffset + header.stringStorageSize > this.buffer.length) {
+      throw new Error('Hermes string table exceeds file length');
+    }
+
+    this.stringEntries = [];
+    for (let i = 0; i < header.stringCount; i++) {
+      const word = this.buffer.readUInt32LE(smallTableOffset + i * SMALL_STRING_ENTRY_SIZE);
+      const isUTF16 = (word & 1) === 1;
+      const entryOffset = (word >>> 1) & 0x7fffff;
+      const length = word >>> 24;
+
+      if (length === STRING_LENGTH_OVERFLOW) {
+        // Offset is an index into the overflow table
+        const overflowOffset =
+          this.overflowEntriesOffset + entryOffset * OVERFLOW_STRING_ENTRY_SIZE;
+        this.stringEntries.push({
+          isUTF16,
+          offset: this.buffer.readUInt32LE(overflowOffset),
+          length: this.buffer.readUInt32LE(overflowOffset + 4),
+        });
+      } else {
+        this.stringEntries.push({ isUTF16, offset: entryOffset, length });
+      }
+    }
+  }
+
+  private readFunctionHeader(index: number): HermesFunction | null {
+    const base = HEADER_SIZE + index * SMALL_FUNCTION_HEADER_SIZE;
+    if (base + SMALL_FUNCTION_HEADER_SIZE > this.buffer.length) {
+      return null;
+    }
+
+    const word0 = this.buffer.readUInt32LE(base);
+    const word1 = this.buffer.readUInt32LE(base + 4);
+    const word2 = this.buffer.readUInt32LE(base + 8);
+    const flags = this.buffer.readUInt8(base + 15);
+
+    let offset = word0 & 0x1ffffff;
+    let paramCount = word0 >>> 25;
+    let bytecodeSize = word1 & 0x7fff;
+    let functionName = word1 >>> 15;
+    let infoOffset = word2 & 0x1ffffff;
+    let functionFlags = flags;
+
+    if (flags & FLAG_OVERFLOWED) {
+      // The real header lives in the info section, addressed by the split offset fields
+      const largeOffset = (infoOffset << 16) | offset;
+      if (largeOffset + LARGE_FUNCTION_HEADER_SIZE > this.buffer.length) {
+        return null;
+      }
+
+      offset = this.buffer.readUInt32LE(largeOffset);
+      paramCount = this.buffer.readUInt32LE(largeOffset + 4);
+      bytecodeSize = this.buffer.readUInt32LE(largeOffset + 8);
+      functionName = this.buffer.readUInt32LE(largeOffset + 12);
+      infoOffset = this.buffer.readUInt32LE(largeOffset + 16);
+      functionFlags = this.buffer.readUInt8(largeOffset + 30);
+    }
+
+    return {
+      index,
+      name: this.getString(functionName) || '<anonymous>',
+      offset,
+      bytecodeSize,
+      paramCount,
+      infoOffset,
+      hasDebugInfo: (functionFlags & FLAG_HAS_DEBUG_INFO) !== 0,
+      hasExceptionHandler: (functionFlags & FLAG_HAS_EXCEPTION_HANDLER) !== 0,
+    };
+  }
+
+  /**
+   * Read debug info filenames and the file regions that map debug data to them
+   */
+  private readFileRegions(): {
+    filenames: string[];
+    regions: FileRegion[];
+    dataOffset: number;
+  } | null {
+    const header = this.header!;
+    if (!header.debugInfoOffset || header.debugInfoOffset >= this.buffer.length) {
+      return null;
+    }
+
+    try {
+      let offset = header.debugInfoOffset;
+      const filenameCount = this.buffer.readUInt32LE(offset);
+      const filenameStorageSize = this.buffer.readUInt32LE(offset + 4);
+      const fileRegionCount = this.buffer.readUInt32LE(offset + 8);
+      // v91+ adds textifiedCalleeOffset and stringTableOffset before debugDataSize
+      offset += header.version >= 91 ? 28 : 20;
+
+      const filenameEntries: StringEntry[] = [];
+      for (let i = 0; i < filenameCount; i++) {
+        const entryOffset = this.buffer.readUInt32LE(offset + i * 8);
+        const word = this.buffer.readUInt32LE(offset + i * 8 + 4);
+        filenameEntries.push({
+          offset: entryOffset,
+          length: word & 0x7fffffff,
+          isUTF16: (word & 0x80000000) !== 0,
+        });
+      }
+      offset += filenameCount * 8;
+
+      const storageOffset = offset;
+      const filenames = filenameEntries.map((entry) => {
+        const start = storageOffset + entry.offset;
+        return entry.isUTF16
+          ? this.buffer.toString('utf16le', start, start + entry.length * 2)
+          : this.buffer.toString('utf-8', start, start + entry.length);
+      });
+      offset += filenameStorageSize;
+
+      const regions: FileRegion[] = [];
+      for (let i = 0; i < fileRegionCount; i++) {
+        const regionOffset = offset + i * FILE_REGION_SIZE;
+        regions.push({
+          fromAddress: this.buffer.readUInt32LE(regionOffset),
+          filenameId: this.buffer.readUInt32LE(regionOffset + 4),
+        });
+      }
+      offset += fileRegionCount * FILE_REGION_SIZE;
+
+      return { filenames, regions, dataOffset: offset };
+    } catch (error) {
+      // Malformed or unsupported debug info layout
+      return null;
+    }
+  }
+
+  private resolveFunctionFilename(
+    fn: HermesFunction,
+    debugInfo: { filenames: string[]; regions: FileRegion[] }
+  ): string | undefined {
+    try {
+      // Function info: optional exception handler table, then the debug offsets
+      let offset = align(fn.infoOffset);
+      if (fn.hasExceptionHandler) {
+        const count = this.buffer.readUInt32LE(offset);
+        offset = align(offset + 4 + count * EXCEPTION_HANDLER_ENTRY_SIZE);
+      }
+      const sourceLocations = this.buffer.readUInt32LE(offset);
+
+      // Regions are sorted by address; the last one starting at or before the offset wins
+      let filenameId: number | undefined;
+      for (const region of debugInfo.regions) {
+        if (region.fromAddress > sourceLocations) break;
+        filenameId = region.filenameId;
+      }
+
+      return filenameId !== undefined ? debugInfo.filenames[filenameId] : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private getFunctionPath(fn: HermesFunction): string {
+    const sourcemapPath = this.getFunctionPathFromSourcemap(fn);
+    if (sourcemapPath) {
+      return sourcemapPath;
+    }
+
+    if (fn.filename) {
+      return SourcemapParser.normalizeModulePath(fn.filename, this.workspaceDirs);
+    }
+
+    return `hermes/${fn.name}`;
+  }
+
+  private getFunctionPathFromSourcemap(fn: HermesFunction): string | undefined {
+    if (!this.sourcemapParser || !this.sourcemapParser.isLoaded()) {
+      return undefined;
+    }
+
+    // Hermes sourcemaps put all bytecode on line 1. Composed maps list each function's
+    // virtual offset, which is the column of its first instruction; otherwise fall back
+    // to the function's offset in the file.
+    const functionOffsets = this.sourcemapParser.getHermesFunctionOffsets(0);
+    const column =
+      functionOffsets && functionOffsets[fn.index] !== undefined
+        ? functionOffsets[fn.index]
+        : fn.offset;
+    const sourceIndex = this.sourcemapParser.getSourceIndexAt(0, column);
+    if (sourceIndex === undefined) {
+      return undefined;
+    }
+
+    const rawPath = this.sourcemapParser.getModulePath(sourceIndex);
+    return rawPath ? SourcemapParser.normalizeModulePath(rawPath, this.workspaceDirs) : undefined;
+  }
+}
+
+function align(offset: number, alignment = 4): number {
+  return Math.ceil(offset / alignment) * alignment;
+}
@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+import {
+  IdenticalModule,
+  IdenticalModuleAnalysis,
+  IdenticalModuleGroup,
+  ModuleData,
+  ModuleId,
+} from '../types';
+import { BundleLexer } from './bundleLexer';
+import { LoadedBundle } from './bundleLoader';
+import { BundleParser } from './bundleParser';
+import { ModuleScan } from './moduleScan';
+
+// Metro's `__d(function(g,r,i,a,m,e,d){` header and `},<id>,[<deps>],"<name>");` footer,
+// which differ between copies of the same code
+const FACTORY_HEADER_PATTERN = /^\s*(?:__d\(\s*)?function\s*\([^)]*\)\s*\{/;
+const FACTORY_FOOTER_PATTERN =
+  /\}\s*,\s*[^,[\]]+\s*,\s*\[[^\]]*\](?:\s*,\s*"(?:[^"\\]|\\.)*")?\s*\)\s*;?\s*$/;
+
+// Smaller modules, such as one-line re-exports, match by accident too often to report
+const MIN_MODULE_SIZE = 128;
+
+// Matching only the shape of the code, with identifiers and numbers renamed, is loose
+// enough that it is only trusted for larger modules
+const MIN_NEAR_IDENTICAL_SIZE = 1024;
+
+const HASH_LENGTH = 12;
+
+// Words kept when identifiers are renamed, so the shape of the code still matches
+const KEYWORDS = new Set([
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'debugger',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'import',
+  'in',
+  'instanceof',
+  'let',
+  'new',
+  'null',
+  'return',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'undefined',
+  'var',
+  'void',
+  'while',
+  'with',
+  'yield',
+  'async',
+  'await',
+  'of',
+]);
+
+export interface Fingerprint {
+  exact: string;
+  near: string;
+}
+
+/**
+ * Finds modules with the same code at different paths, such as helpers that several
+ * packages vendor or inline. Module bodies are normalized by dropping Metro's factory
+ * wrapper, whitespace and comments before hashing; larger modules are also matched when
+ * they differ only in identifier names and numbers. Strings are kept, so modules such as
+ * locales that share their code but not their text do not match.
+ */
+export class IdenticalModuleAnalyzer {
+  private modules: ModuleData[];
+  private moduleCode?: Map<ModuleId, string>;
+  private moduleScans?: Map<ModuleId, ModuleScan>;
+
+  constructor(
+    modules: ModuleData[],
+    moduleCode?: Map<ModuleId, string>,
+    moduleScans?: Map<ModuleId, ModuleScan>
+  ) {
+    this.modules = modules;
+    this.moduleCode = moduleCode;
+    this.moduleScans = moduleScans;
+  }
+
+  static forBundle(bundle: LoadedBundle): IdenticalModuleAnalyzer {
+    return new IdenticalModuleAnalyzer(bundle.modules, bundle.moduleCode, bundle.moduleScans);
+  }
+
+  /**
+   * Group modules by the hash of their normalized code. Returns undefined when the
+   * bundle kept neither module code nor module scans, as for Hermes bytecode.
+   */
+  analyze(): IdenticalModuleAnalysis | undefined {
+    if (!this.moduleCode?.size && !this.moduleScans?.size) {
+      return undefined;
+    }
+
+    const buckets = new Map<string, Array<{ module: ModuleData; exactHash: string }>>();
+    let unscannedModuleCount = 0;
+
+    this.modules.forEach((module) => {
+      if (
+        module.size < MIN_MODULE_SIZE ||
+        BundleParser.categorizeModule(module.path) === 'runtime'
+      ) {
+        return;
+      }
+      const code = this.moduleCode?.get(module.id);
+      const hashes =
+        code !== undefined
+          ? IdenticalModuleAnalyzer.hashFingerprint(code)
+          : this.moduleScans?.get(module.id)?.fingerprint;
+      if (!hashes) {
+        unscannedModuleCount++;
+        return;
+      }
+
+      const exactHash = hashes.exact;
+      const key = module.size >= MIN_NEAR_IDENTICAL_SIZE ? `near:${hashes.near}` : exactHash;
+      const bucket = buckets.get(key) || [];
+      bucket.push({ module, exactHash });
+      buckets.set(key, bucket);
+    });
+
+    const groups: IdenticalModuleGroup[] = [];
+    buckets.forEach((bucket, key) => {
+      if (bucket.length < 2) {
+        return;
+      }
+      const modules: IdenticalModule[] = bucket
+        .map(({ module }) => ({
+          id: module.id,
+          path: module.path,
+          size: module.size,
+          package: BundleParser.extractPackageName(module.path),
+        }))
+        .sort((a, b) => b.size - a.size || a.path.localeCompare(b.path));
+      const totalSize = modules.reduce((sum, module) => sum + module.size, 0);
+
+      groups.push({
+        hash: key.replace(/^near:/, ''),
+        exact: bucket.every(({ exactHash }) => exactHash === bucket[0].exactHash),
+        modules,
+        packages: Array.from(
+          new Set(modules.map((module) => module.package).filter((name): name is string => !!name))
+        ),
+        // One copy is needed; the largest is kept
+        wastedSize: totalSize - modules[0].size,
+      });
+    });
+
+    groups.sort((a, b) => b.wastedSize - a.wastedSize);
+
+    return {
+      groups,
+      totalWaste: groups.reduce((sum, group) => sum + group.wastedSize, 0),
+      unscannedModuleCount,
+    };
+  }
+
+  /**
+   * Hash both fingerprints of a module's code
+   */
+  static hashFingerprint(code: string): Fingerprint {
+    const fingerprint = IdenticalModuleAnalyzer.fingerprint(code);
+    return { exact: hash(fingerprint.exact), near: hash(fingerprint.near) };
+  }
+
+  /**
+   * Normalize a module's code for comparison. `exact` keeps every token but drops the
+   * factory wrapper, whitespace and comments; `near` also renames identifiers (but not
+   * keywords or property names) and replaces numbers.
+   */
+  static fingerprint(code: string): Fingerprint {
+    const header = code.match(FACTORY_HEADER_PATTERN);
+    const footer = header ? code.match(FACTORY_FOOTER_PATTERN) : null;
+    const body = header ? code.slice(header[0].length, footer ? footer.index : code.length) : code;
+
+    const exact: string[] = [];
+    const near: string[] = [];
+    let previous = '';
+
+    BundleLexer.tokenize(body).forEach(({ type, start, end }) => {
+      const token = body.slice(start, end);
+      let normalized = token;
+      if (type === 'word') {
+        if (/^\d/.test(token)) {
+          normalized = '0';
+        } else if (!KEYWORDS.has(token) && previous !== '.') {
+          normalized = '_';
+        }
+      }
+
+      exact.push(token);
+      near.push(normalized);
+      previous = token;
+    });
+
+    return { exact: exact.join(' '), near: near.join(' ') };
+  }
+}
+
+function hash(content: string): string {
+  return createHash('sha1').update(content).digest('hex').slice(0, HASH_LENGTH);
+}
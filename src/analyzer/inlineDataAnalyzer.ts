@@ -0,0 +1,267 @@
+import { InlineDataAnalysis, InlineDataItem, InlineDataKind, ModuleData, ModuleId } from '../types';
+import { BundleLexer, Token } from './bundleLexer';
+import { LoadedBundle } from './bundleLoader';
+import { BundleParser } from './bundleParser';
+import { ModuleScan } from './moduleScan';
+
+// Smaller literals are ordinary code
+const MIN_INLINE_DATA_SIZE = 2 * 1024;
+
+const PREVIEW_LENGTH = 60;
+
+// A data object is a translation table when most of its values are strings
+const MIN_TRANSLATION_ENTRIES = 20;
+const TRANSLATION_STRING_SHARE = 0.8;
+
+// Words that are values in data literals; any other word must be a number or an object key
+const DATA_WORDS = new Set(['true', 'false', 'null', 'undefined', 'NaN', 'Infinity']);
+
+// Punctuators that can appear in data: brackets, separators, and the parts of numbers
+// and minified booleans such as -1.5e-3 and !0
+const DATA_PUNCTUATORS = '{}[],:.-+!';
+
+/**
+ * A literal found in a module's code, before it is attributed to the module
+ */
+export type InlineLiteral = Omit<InlineDataItem, 'moduleId' | 'path' | 'package'>;
+
+interface DataShape {
+  leafCount: number;
+  stringCount: number;
+}
+
+/**
+ * Finds large data embedded in module code: long string and template literals, `data:`
+ * URIs, and object and array literals that hold only data, such as inlined JSON,
+ * Lottie animations and translation tables. The asset analyzer never sees these.
+ */
+export class InlineDataAnalyzer {
+  private modules: ModuleData[];
+  private moduleCode?: Map<ModuleId, string>;
+  private moduleScans?: Map<ModuleId, ModuleScan>;
+
+  constructor(
+    modules: ModuleData[],
+    moduleCode?: Map<ModuleId, string>,
+    moduleScans?: Map<ModuleId, ModuleScan>
+  ) {
+    this.modules = modules;
+    this.moduleCode = moduleCode;
+    this.moduleScans = moduleScans;
+  }
+
+  static forBundle(bundle: LoadedBundle): InlineDataAnalyzer {
+    return new InlineDataAnalyzer(bundle.modules, bundle.moduleCode, bundle.moduleScans);
+  }
+
+  /**
+   * Scan every module for large literals. Returns undefined when the bundle kept neither
+   * module code nor module scans, as for Hermes bytecode.
+   */
+  analyze(): InlineDataAnalysis | undefined {
+    if (!this.moduleCode?.size && !this.moduleScans?.size) {
+      return undefined;
+    }
+
+    const items: InlineDataItem[] = [];
+    let unscannedModuleCount = 0;
+
+    this.modules.forEach((module) => {
+      const category = BundleParser.categorizeModule(module.path);
+      if (category === 'runtime' || category === 'unmapped') {
+        return;
+      }
+      const literals = this.findModuleLiterals(module.id);
+      if (!literals) {
+        unscannedModuleCount++;
+        return;
+      }
+
+      const packageName = BundleParser.extractPackageName(module.path);
+      literals.forEach((literal) => {
+        items.push({
+          ...literal,
+          moduleId: module.id,
+          path: module.path,
+          ...(packageName ? { package: packageName } : {}),
+        });
+      });
+    });
+
+    items.sort((a, b) => b.size - a.size);
+
+    return {
+      items,
+      totalSize: items.reduce((sum, item) => sum + item.size, 0),
+      assetCandidateCount: items.filter((item) => item.assetSize !== undefined).length,
+      unscannedModuleCount,
+    };
+  }
+
+  private findModuleLiterals(id: ModuleId): InlineLiteral[] | undefined {
+    const code = this.moduleCode?.get(id);
+    if (code === undefined) {
+      return this.moduleScans?.get(id)?.literals;
+    }
+    return code.length < MIN_INLINE_DATA_SIZE ? [] : InlineDataAnalyzer.findLiterals(code);
+  }
+
+  /**
+   * Find the large literals in a piece of code. A data literal is reported as a whole,
+   * not the strings and arrays inside it.
+   */
+  static findLiterals(code: string): InlineLiteral[] {
+    const found: InlineLiteral[] = [];
+    const tokens = BundleLexer.tokenize(code);
+    const openBrackets: number[] = [];
+
+    const add = (literal: InlineLiteral) => {
+      // Anything found inside this literal is part of it, unless the literal is little
+      // more than a wrapper around strings, as in { uri: 'data:...' }
+      let inner = found.length;
+      while (inner > 0 && found[inner - 1].offset > literal.offset) {
+        inner--;
+      }
+      const innerItems = found.slice(inner);
+      const innerSize = innerItems.reduce((sum, item) => sum + item.size, 0);
+      const wrapsStrings =
+        innerItems.length > 0 && innerItems.every((item) => !'{['.includes(code[item.offset]));
+      if (wrapsStrings && literal.size - innerSize < MIN_INLINE_DATA_SIZE) {
+        return;
+      }
+      found.splice(inner);
+      found.push(literal);
+    };
+
+    tokens.forEach((token, index) => {
+      if (token.type === 'string' || token.type === 'template') {
+        if (token.end - token.start >= MIN_INLINE_DATA_SIZE) {
+          add(describeString(code, token.start, token.end));
+        }
+        return;
+      }
+      if (token.type !== 'punctuator') {
+        return;
+      }
+
+      const char = code[token.start];
+      if (char === '{' || char === '[') {
+        openBrackets.push(index);
+      } else if (char === '}' || char === ']') {
+        const open = openBrackets.pop();
+        if (open === undefined) {
+          return;
+        }
+        const start = tokens[open].start;
+        if (token.end - start >= MIN_INLINE_DATA_SIZE) {
+          const shape = readDataShape(code, tokens, open, index);
+          if (shape) {
+            add(describeData(code, start, token.end, shape));
+          }
+        }
+      }
+    });
+
+    return found;
+  }
+}
+
+function describeString(code: string, start: number, end: number): InlineLiteral {
+  const content = code.slice(start + 1, end - 1);
+  const literal: InlineLiteral = {
+    kind: 'string',
+    offset: start,
+    size: Buffer.byteLength(code.slice(start, end), 'utf-8'),
+    preview: preview(code, start),
+  };
+
+  const dataUri = content.match(/^data:([\w.+-]+\/[\w.+-]+)?((?:;[\w-]+=[^;,]*)*)(;base64)?,/);
+  if (dataUri) {
+    literal.kind = 'data-uri';
+    if (dataUri[1]) {
+      literal.mimeType = dataUri[1];
+    }
+    // Base64 takes 4 characters for every 3 bytes; the decoded image is what an asset costs
+    if (dataUri[3] && dataUri[1] && dataUri[1].startsWith('image/')) {
+      const payload = content.slice(dataUri[0].length).replace(/\\[nr]|\s/g, '');
+      const padding = (payload.match(/=+$/) || [''])[0].length;
+      literal.assetSize = Math.floor((payload.length * 3) / 4) - padding;
+    }
+  } else if (/^\s*(?:\{\s*\\?["']|\[)[\s\S]*[}\]]\s*$/.test(content)) {
+    literal.kind = 'json';
+  }
+  return literal;
+}
+
+function describeData(code: string, start: number, end: number, shape: DataShape): InlineLiteral {
+  let kind: InlineDataKind = code[start] === '[' ? 'array' : 'json';
+  const isTranslationTable =
+    kind === 'json' &&
+    shape.stringCount >= MIN_TRANSLATION_ENTRIES &&
+    shape.stringCount / shape.leafCount >= TRANSLATION_STRING_SHARE;
+  if (isTranslationTable) {
+    kind = 'translations';
+  }
+  return {
+    kind,
+    offset: start,
+    size: Buffer.byteLength(code.slice(start, end), 'utf-8'),
+    preview: preview(code, start),
+    ...(isTranslationTable ? { entryCount: shape.stringCount } : {}),
+  };
+}
+
+/**
+ * Check that the tokens from `open` to `close` are an object or array literal that holds
+ * only data: strings, numbers, booleans (also minified as !0 and !1), null, nested
+ * literals and object keys. Returns the count of values and of string values, or
+ * undefined for anything with code in it.
+ */
+function readDataShape(
+  code: string,
+  tokens: Token[],
+  open: number,
+  close: number
+): DataShape | undefined {
+  const shape: DataShape = { leafCount: 0, stringCount: 0 };
+  const text = (token: Token) => code.slice(token.start, token.end);
+
+  for (let index = open + 1; index < close; index++) {
+    const token = tokens[index];
+    const value = text(token);
+    const isKey = index + 1 < close && text(tokens[index + 1]) === ':';
+
+    if (token.type === 'punctuator') {
+      if (!DATA_PUNCTUATORS.includes(value)) {
+        return undefined;
+      }
+    } else if (token.type === 'template') {
+      // Template parts with substitutions between them are code
+      if (value.length < 2 || value[0] !== '`' || value[value.length - 1] !== '`') {
+        return undefined;
+      }
+    } else if (token.type === 'word') {
+      if (!isKey && !DATA_WORDS.has(value) && !/^\d/.test(value)) {
+        return undefined;
+      }
+    } else if (token.type !== 'string') {
+      return undefined;
+    }
+
+    // A value starts after an opening bracket or a separator
+    const isValueStart = ',:[{'.includes(text(tokens[index - 1])) && !'{[]}'.includes(value);
+    if (isValueStart && !isKey) {
+      shape.leafCount++;
+      if (token.type === 'string' || token.type === 'template') {
+        shape.stringCount++;
+      }
+    }
+  }
+
+  return shape;
+}
+
+function preview(code: string, start: number): string {
+  const text = code.slice(start, start + PREVIEW_LENGTH).replace(/\s+/g, ' ');
+  return start + PREVIEW_LENGTH < code.length ? `${text}…` : text;
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LicenseAnalysis, LicensePolicy, ModuleData, PackageLicense } from '../types';
+import { parsePackagePath } from '../utils/packagePaths';
+import { PackageManifest, PackageVersionResolver } from '../utils/packageVersions';
+
+export const UNKNOWN_LICENSE = 'UNKNOWN';
+
+// LICENSE, LICENSE.md, LICENSE-MIT, LICENCE.txt, COPYING and the like
+const LICENSE_FILE_PATTERN = /^(?:licen[cs]e|copying)(?:[.-].*)?$/i;
+
+// Parsed SPDX license expression
+export type LicenseExpression =
+  | { kind: 'license'; id: string }
+  | { kind: 'and' | 'or'; terms: LicenseExpression[] };
+
+/**
+ * Lists the licenses of the third-party packages in the bundle, read from each bundled
+ * copy's package.json `license` (or legacy `licenses`) field and license file, and
+ * checks them against an allow/deny policy.
+ */
+export class LicenseAnalyzer {
+  private modules: ModuleData[];
+  private resolver: PackageVersionResolver;
+  private policy?: LicensePolicy;
+
+  constructor(modules: ModuleData[], projectRoot: string = process.cwd(), policy?: LicensePolicy) {
+    this.modules = modules;
+    this.resolver = new PackageVersionResolver(projectRoot);
+    this.policy = policy;
+  }
+
+  analyze(): LicenseAnalysis {
+    // One entry per bundled name and version, however many paths it is installed at
+    const packages = new Map<string, PackageLicense>();
+
+    this.modules.forEach((module) => {
+      const location = parsePackagePath(module.path);
+      if (!location) {
+        return;
+      }
+      const version = this.resolver.resolveInstallPath(location.installPath);
+      const key = `${location.name}@${version || ''}`;
+      const existing = packages.get(key);
+      if (existing) {
+        existing.size += module.size;
+        return;
+      }
+      packages.set(key, {
+        ...this.readPackageLicense(location.name, location.installPath),
+        version,
+        size: module.size,
+      });
+    });
+
+    const licenses = Array.from(packages.values()).sort(
+      (a, b) => a.name.localeCompare(b.name) || (a.version || '').localeCompare(b.version || '')
+    );
+    if (this.policy) {
+      licenses.forEach((pkg) => {
+        const violation = LicenseAnalyzer.checkPolicy(pkg.license, this.policy!);
+        if (violation) {
+          pkg.violation = violation;
+        }
+      });
+    }
+
+    const analysis: LicenseAnalysis = {
+      packages: licenses,
+      unknownCount: licenses.filter((pkg) => pkg.license === UNKNOWN_LICENSE).length,
+      violationCount: licenses.filter((pkg) => pkg.violation).length,
+    };
+    if (this.policy) {
+      analysis.policy = this.policy;
+    }
+    return analysis;
+  }
+
+  /**
+   * Check a license expression against a policy. Returns why it is not allowed, or
+   * undefined when it is. `OR` needs one allowed alternative and `AND` needs every term
+   * allowed. Unknown licenses only break a policy with an allow list.
+   */
+  static checkPolicy(license: string, policy: LicensePolicy): string | undefined {
+    const allow = policy.allow && policy.allow.length > 0 ? policy.allow : undefined;
+    const deny = policy.deny || [];
+
+    if (license === UNKNOWN_LICENSE) {
+      return allow ? 'No license found' : undefined;
+    }
+
+    const expression = LicenseAnalyzer.parseExpression(license);
+    const rejected: string[] = [];
+    const isAllowed = (node: LicenseExpression): boolean => {
+      if (node.kind !== 'license') {
+        // Evaluate every term so all rejected licenses are reported
+        const results = node.terms.map(isAllowed);
+        return node.kind === 'or' ? results.some(Boolean) : results.every(Boolean);
+      }
+      const ok =
+        !deny.some((entry) => matchesLicense(node.id, entry)) &&
+        (!allow || allow.some((entry) => matchesLicense(node.id, entry)));
+      if (!ok) {
+        rejected.push(node.id);
+      }
+      return ok;
+    };
+
+    if (isAllowed(expression)) {
+      return undefined;
+    }
+    const denied = rejected.filter((id) => deny.some((entry) => matchesLicense(id, entry)));
+    return denied.length > 0
+      ? `Denied license ${Array.from(new Set(denied)).join(', ')}`
+      : `License ${Array.from(new Set(rejected)).join(', ')} is not in the allow list`;
+  }
+
+  /**
+   * Parse an SPDX expression such as `(MIT OR Apache-2.0) AND BSD-3-Clause`. `WITH`
+   * exceptions are dropped and anything unparseable is kept as a single license.
+   */
+  static parseExpression(license: string): LicenseExpression {
+    const tokens = license.match(/\(|\)|[^\s()]+/g) || [];
+    let index = 0;
+
+    const parseOr = (): LicenseExpression => {
+      const terms = [parseAnd()];
+      while (tokens[index] && tokens[index].toUpperCase() === 'OR') {
+        index++;
+        terms.push(parseAnd());
+      }
+      return terms.length === 1 ? terms[0] : { kind: 'or', terms };
+    };
+    const parseAnd = (): LicenseExpression => {
+      const terms = [parseTerm()];
+      while (tokens[index] && tokens[index].toUpperCase() === 'AND') {
+        index++;
+        terms.push(parseTerm());
+      }
+      return terms.length === 1 ? terms[0] : { kind: 'and', terms };
+    };
+    const parseTerm = (): LicenseExpression => {
+      if (tokens[index] === '(') {
+        index++;
+        const inner = parseOr();
+        if (tokens[index] === ')') {
+          index++;
+        }
+        return inner;
+      }
+      const id = tokens[index++] || UNKNOWN_LICENSE;
+      if (tokens[index] && tokens[index].toUpperCase() === 'WITH') {
+        index += 2;
+      }
+      return { kind: 'license', id };
+    };
+
+    const expression = parseOr();
+    return index >= tokens.length ? expression : { kind: 'license', id: license };
+  }
+
+  private readPackageLicense(
+    name: string,
+    installPath: string
+  ): Omit<PackageLicense, 'version' | 'size'> {
+    const manifest = this.resolver.getManifest(installPath);
+    const pkg: Omit<PackageLicense, 'version' | 'size'> = {
+      name,
+      license: readLicenseField(manifest) || UNKNOWN_LICENSE,
+      installPath,
+    };
+
+    const repository = manifest?.repository;
+    const repositoryUrl = typeof repository === 'string' ? repository : repository?.url;
+    if (typeof repositoryUrl === 'string') {
+      pkg.repository = repositoryUrl;
+    }
+    const author = manifest?.author;
+    const authorName = typeof author === 'string' ? author : author?.name;
+    if (typeof authorName === 'string') {
+      pkg.author = authorName;
+    }
+
+    const dir = this.resolver.findInstallDir(installPath);
+    const licenseFile = dir ? findLicenseFile(dir) : undefined;
+    if (dir && licenseFile) {
+      pkg.licenseFile = licenseFile;
+      pkg.licenseText = fs.readFileSync(path.join(dir, licenseFile), 'utf-8').trim();
+    }
+    return pkg;
+  }
+}
+
+/**
+ * Read the `license` field, the legacy `{ type, url }` form or the legacy `licenses`
+ * list, as one SPDX expression
+ */
+function readLicenseField(manifest: PackageManifest | undefined): string | undefined {
+  if (!manifest) {
+    return undefined;
+  }
+  const readType = (license: PackageManifest['license']): string | undefined => {
+    const type = typeof license === 'object' && license !== null ? license.type : license;
+    return typeof type === 'string' ? type : undefined;
+  };
+
+  const license = readType(manifest.license);
+  if (license) {
+    return license;
+  }
+  if (Array.isArray(manifest.licenses)) {
+    const types = manifest.licenses.map(readType).filter((type): type is string => !!type);
+    if (types.length > 0) {
+      return types.length === 1 ? types[0] : `(${types.join(' OR ')})`;
+    }
+  }
+  return undefined;
+}
+
+function findLicenseFile(dir: string): string | undefined {
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isFile() && LICENSE_FILE_PATTERN.test(entry.name))
+      .map((entry) => entry.name)
+      .sort()[0];
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * A policy entry matches the same license, or a license it is a prefix of: `GPL`
+ * matches `GPL-2.0` and `GPL-3.0-or-later`, but not `LGPL-2.1`
+ */
+function matchesLicense(license: string, entry: string): boolean {
+  const id = license.toUpperCase().replace(/\+$/, '');
+  const prefix = entry.toUpperCase();
+  return id === prefix || id.startsWith(`${prefix}-`);
+}
@@ -0,0 +1,285 @@
+import { ModuleData, OptimizationSuggestion, PackageInfo } from '../types';
+import { parsePackagePath } from '../utils/packagePaths';
+
+/**
+ * A suggestion from a detector, before OptimizationEngine tags it with its rule and source
+ */
+export type DetectedSuggestion = Omit<OptimizationSuggestion, 'source' | 'rule'>;
+
+/**
+ * Inspects the modules bundled from packages, rather than just their names and sizes
+ */
+export interface ModuleDetector {
+  // Shown as the suggestion's rule (`detector:<name>`) and used to disable the detector
+  name: string;
+  // Packages whose built-in replacement rule this detector makes redundant
+  supersedes?: string[];
+  detect(packages: PackageInfo[]): DetectedSuggestion[];
+}
+
+// Locales an app is assumed to need; only bytes beyond the largest few count as savings
+const KEPT_LOCALES = 3;
+
+// Smaller findings are not worth a suggestion
+const MIN_SAVINGS = 10 * 1024;
+
+// Which core-js modules polyfill proposals, or built-ins Hermes and JavaScriptCore have
+const CORE_JS_MODULE_PATTERN = /^modules\/((?:es|esnext|web)\..+)\.js$/;
+const CORE_JS_BUILT_IN_PREFIXES = [
+  'es.array.',
+  'es.array-buffer',
+  'es.date.',
+  'es.function.',
+  'es.global-this',
+  'es.json.',
+  'es.map',
+  'es.math.',
+  'es.number.',
+  'es.object.',
+  'es.promise',
+  'es.reflect.',
+  'es.set',
+  'es.string.',
+  'es.symbol',
+  'es.typed-array',
+  'es.weak-map',
+  'es.weak-set',
+];
+// Fewer polyfills than this were most likely picked per usage already
+const CORE_JS_MODULE_LIMIT = 20;
+
+const momentLocales: ModuleDetector = {
+  name: 'moment-locales',
+  detect(packages) {
+    const pkg = packages.find((p) => p.name === 'moment');
+    if (!pkg) {
+      return [];
+    }
+    // moment/locale/fr.js, moment/dist/locale/fr.js, and min/locales.js with all of them
+    const locales = groupByLocale(pkg.modules, (file) => {
+      const match = file.match(/^(?:dist\/|src\/)?locale\/([^/]+)\.js$/);
+      return match ? match[1] : /^min\/locales(?:\.min)?\.js$/.test(file) ? 'all' : undefined;
+    });
+    return localeSuggestion(
+      pkg.name,
+      locales,
+      `Bundle only the moment locales you use`,
+      `Import locales one by one (import 'moment/locale/fr') instead of all of them, or switch to dayjs`
+    );
+  },
+};
+
+const dateFnsLocales: ModuleDetector = {
+  name: 'date-fns-locales',
+  detect(packages) {
+    const pkg = packages.find((p) => p.name === 'date-fns');
+    if (!pkg) {
+      return [];
+    }
+    // date-fns/locale/fr/index.js, date-fns/esm/locale/fr/_lib/localize/index.js and
+    // date-fns v3's locale/fr.js. en-US is the default every formatter uses.
+    const locales = groupByLocale(pkg.modules, (file) => {
+      const match = file.match(/^(?:esm\/)?locale\/([^/_][^/]*?)(?:\.m?js)?(?:\/|$)/);
+      return match && match[1] !== 'en-US' && match[1] !== 'index' ? match[1] : undefined;
+    });
+    return localeSuggestion(
+      pkg.name,
+      locales,
+      `Bundle only the date-fns locales you use`,
+      `Import single locales (import { fr } from 'date-fns/locale/fr') instead of the date-fns/locale index`
+    );
+  },
+};
+
+const intlLocaleData: ModuleDetector = {
+  name: 'intl-locale-data',
+  detect(packages) {
+    // @formatjs/intl-pluralrules/locale-data/fr.js and the like. The intl polyfill's own
+    // locale data is left to intl-polyfill, which suggests removing all of it.
+    const intlPackages = packages.filter(
+      (p) => p.name.startsWith('@formatjs/') || p.name.startsWith('intl-')
+    );
+    const locales = new Map<string, number>();
+    const owners = new Set<string>();
+    intlPackages.forEach((pkg) => {
+      groupByLocale(pkg.modules, (file) => {
+        const match = file.match(/(?:^|\/)locale-data\/([^/]+?)\.js$/);
+        return match ? match[1] : undefined;
+      }).forEach((size, locale) => {
+        locales.set(locale, (locales.get(locale) || 0) + size);
+        owners.add(pkg.name);
+      });
+    });
+    return localeSuggestion(
+      Array.from(owners).join(', '),
+      locales,
+      `Bundle only the Intl locale data you use`,
+      `Load locale data per locale (import '@formatjs/intl-pluralrules/locale-data/fr') instead of all locales`
+    );
+  },
+};
+
+const intlPolyfill: ModuleDetector = {
+  name: 'intl-polyfill',
+  detect(packages) {
+    const pkg = packages.find((p) => p.name === 'intl');
+    if (!pkg || pkg.size < MIN_SAVINGS) {
+      return [];
+    }
+    return [
+      {
+        type: 'remove',
+        severity: severityFor(pkg.size),
+        package: pkg.name,
+        currentSize: pkg.size,
+        potentialSavings: pkg.size,
+        suggestion: `Remove the intl polyfill\n   💡 Hermes has had Intl since React Native 0.70; polyfill only the APIs you need with @formatjs`,
+      },
+    ];
+  },
+};
+
+const lodashFull: ModuleDetector = {
+  name: 'lodash-full',
+  // Without the full build, per-method imports already are what the lodash rule suggests
+  supersedes: ['lodash'],
+  detect(packages) {
+    const pkg = packages.find((p) => p.name === 'lodash');
+    if (!pkg) {
+      return [];
+    }
+    const files = pkg.modules.map((module) => ({ file: packageFile(module), size: module.size }));
+    const fullBuild = files.filter(({ file }) => /^lodash(?:\.min)?\.js$/.test(file));
+    if (fullBuild.length === 0) {
+      return [];
+    }
+    const fullSize = sum(fullBuild.map(({ size }) => size));
+    const methodCount = files.length - fullBuild.length;
+    const alongside =
+      methodCount > 0 ? ` ${methodCount} per-method modules are bundled alongside it.` : '';
+    return [
+      {
+        type: 'replace',
+        severity: severityFor(fullSize),
+        package: pkg.name,
+        currentSize: fullSize,
+        potentialSavings: fullSize,
+        suggestion: `Import lodash methods one by one instead of the full build\n   💡 lodash/lodash.js (all ~300 functions) is bundled.${alongside} Use import debounce from 'lodash/debounce' or babel-plugin-lodash; savings are less the methods you import`,
+        alternative: 'lodash/<method> imports',
+      },
+    ];
+  },
+};
+
+const coreJs: ModuleDetector = {
+  name: 'core-js',
+  detect(packages) {
+    return packages
+      .filter((p) => p.name === 'core-js' || p.name === 'core-js-pure')
+      .flatMap((pkg) => {
+        const polyfills = pkg.modules
+          .map((module) => ({ match: packageFile(module).match(CORE_JS_MODULE_PATTERN), module }))
+          .filter(({ match }) => match);
+        if (polyfills.length < CORE_JS_MODULE_LIMIT) {
+          return [];
+        }
+        const unneeded = polyfills.filter(({ match }) => {
+          const feature = match![1];
+          return (
+            feature.startsWith('esnext.') ||
+            CORE_JS_BUILT_IN_PREFIXES.some((prefix) => feature.startsWith(prefix))
+          );
+        });
+        const savings = sum(unneeded.map(({ module }) => module.size));
+        if (savings < MIN_SAVINGS) {
+          return [];
+        }
+        return [
+          {
+            type: 'remove' as const,
+            severity: severityFor(savings),
+            package: pkg.name,
+            currentSize: pkg.size,
+            potentialSavings: savings,
+            suggestion: `Polyfill only what the app needs from ${pkg.name}\n   💡 ${polyfills.length} polyfill modules are bundled; ${unneeded.length} of them cover proposals or built-ins Hermes and JavaScriptCore already have. Use @babel/preset-env with useBuiltIns: 'usage' instead of importing all of ${pkg.name}`,
+          },
+        ];
+      });
+  },
+};
+
+export const MODULE_DETECTORS: ModuleDetector[] = [
+  momentLocales,
+  dateFnsLocales,
+  intlLocaleData,
+  intlPolyfill,
+  lodashFull,
+  coreJs,
+];
+
+/**
+ * Path of a module inside its package, such as `locale/fr.js`
+ */
+function packageFile(module: ModuleData): string {
+  const location = parsePackagePath(module.path);
+  const normalized = module.path.replace(/\\/g, '/');
+  return location
+    ? normalized.slice(
+        normalized.lastIndexOf(location.installPath) + location.installPath.length + 1
+      )
+    : normalized;
+}
+
+function groupByLocale(
+  modules: ModuleData[],
+  readLocale: (file: string) => string | undefined
+): Map<string, number> {
+  const locales = new Map<string, number>();
+  modules.forEach((module) => {
+    const locale = readLocale(packageFile(module));
+    if (locale) {
+      locales.set(locale, (locales.get(locale) || 0) + module.size);
+    }
+  });
+  return locales;
+}
+
+/**
+ * Suggest trimming locales when more are bundled than an app usually needs. Savings are
+ * the bytes of every locale but the largest KEPT_LOCALES.
+ */
+function localeSuggestion(
+  packageName: string,
+  locales: Map<string, number>,
+  title: string,
+  advice: string
+): DetectedSuggestion[] {
+  if (locales.size <= KEPT_LOCALES && !locales.has('all')) {
+    return [];
+  }
+  const sizes = Array.from(locales.values()).sort((a, b) => b - a);
+  const totalSize = sum(sizes);
+  const savings = locales.has('all') ? totalSize : totalSize - sum(sizes.slice(0, KEPT_LOCALES));
+  if (savings < MIN_SAVINGS) {
+    return [];
+  }
+  const count = locales.has('all') ? 'All' : String(locales.size);
+  return [
+    {
+      type: 'remove',
+      severity: severityFor(savings),
+      package: packageName,
+      currentSize: totalSize,
+      potentialSavings: savings,
+      suggestion: `${title}\n   💡 ${count} locales are bundled. ${advice}`,
+    },
+  ];
+}
+
+function severityFor(savings: number): OptimizationSuggestion['severity'] {
+  return savings > 200 * 1024 ? 'high' : 'medium';
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
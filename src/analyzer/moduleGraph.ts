@@ -0,0 +1,121 @@
+import { BundleAnalysis, ModuleData, ModuleId } from '../types';
+
+export class ModuleGraph {
+  private modules = new Map<ModuleId, ModuleData>();
+  private dependents = new Map<ModuleId, ModuleId[]>();
+
+  constructor(modules: ModuleData[]) {
+    modules.forEach((module) => {
+      this.modules.set(module.id, module);
+      this.dependents.set(module.id, []);
+    });
+
+    // Build reverse edges, ignoring dependencies that are not part of the bundle
+    modules.forEach((module) => {
+      (module.dependencies || []).forEach((dependencyId) => {
+        const dependents = this.dependents.get(dependencyId);
+        if (dependents && !dependents.includes(module.id)) {
+          dependents.push(module.id);
+        }
+      });
+    });
+  }
+
+  /**
+   * Rebuild the graph from a (possibly deserialized) analysis
+   */
+  static fromAnalysis(analysis: BundleAnalysis): ModuleGraph {
+    const moduleMap = analysis.moduleMap as unknown;
+    let modules: ModuleData[];
+
+    // moduleMap is a Map in memory, an array of entries in saved JSON reports
+    if (moduleMap instanceof Map) {
+      modules = Array.from(moduleMap.values());
+    } else if (Array.isArray(moduleMap)) {
+      modules = moduleMap.map(([, module]) => module as ModuleData);
+    } else {
+      modules = Object.values(moduleMap as { [path: string]: ModuleData });
+    }
+
+    return new ModuleGraph(modules);
+  }
+
+  /**
+   * Copy the reverse edges onto each module's `dependents` field
+   */
+  linkDependents(): void {
+    this.modules.forEach((module, id) => {
+      module.dependents = [...(this.dependents.get(id) || [])];
+    });
+  }
+
+  getModule(id: ModuleId): ModuleData | undefined {
+    return this.modules.get(id);
+  }
+
+  getModules(): ModuleData[] {
+    return Array.from(this.modules.values());
+  }
+
+  /**
+   * Get the modules that are run directly by the bundle's __r() calls
+   */
+  getEntryIds(): ModuleId[] {
+    return this.getModules()
+      .filter((module) => module.isEntry)
+      .map((module) => module.id);
+  }
+
+  /**
+   * Get the IDs of the modules a module depends on that exist in the bundle
+   */
+  getDependencyIds(id: ModuleId): ModuleId[] {
+    const module = this.modules.get(id);
+    return (module?.dependencies || []).filter((dependencyId) => this.modules.has(dependencyId));
+  }
+
+  /**
+   * Get the IDs of the modules that depend on a module
+   */
+  getDependentIds(id: ModuleId): ModuleId[] {
+    return this.dependents.get(id) || [];
+  }
+
+  /**
+   * Get every module reachable from the given roots (defaults to the entry modules),
+   * optionally skipping edges for which `isEdgeExcluded` returns true
+   */
+  getReachable(
+    rootIds: ModuleId[] = this.getEntryIds(),
+    isEdgeExcluded?: (from: ModuleId, to: ModuleId) => boolean
+  ): Set<ModuleId> {
+    const visited = new Set<ModuleId>();
+    const stack = rootIds.filter((id) => this.modules.has(id));
+
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+
+      this.getDependencyIds(id).forEach((dependencyId) => {
+        if (isEdgeExcluded && isEdgeExcluded(id, dependencyId)) return;
+        if (!visited.has(dependencyId)) {
+          stack.push(dependencyId);
+        }
+      });
+    }
+
+    return visited;
+  }
+
+  /**
+   * Count the dependency edges between modules in the bundle
+   */
+  getEdgeCount(): number {
+    let count = 0;
+    this.dependents.forEach((dependents) => {
+      count += dependents.length;
+    });
+    return count;
+  }
+}
@@ -0,0 +1,28 @@
+import { DevBranches, DevCodeAnalyzer } from './devCodeAnalyzer';
+import { Fingerprint, IdenticalModuleAnalyzer } from './identicalModuleAnalyzer';
+import { InlineDataAnalyzer, InlineLiteral } from './inlineDataAnalyzer';
+import { RequireCall, StartupAnalyzer } from './startupAnalyzer';
+
+/**
+ * What the code-based analyzers read from one module's code. Streamed bundles keep these
+ * instead of the code, so the analyzers can still run on them.
+ */
+export interface ModuleScan {
+  requires: RequireCall[];
+  // Hashes of the normalized code
+  fingerprint: Fingerprint;
+  devBranches: DevBranches;
+  literals: InlineLiteral[];
+}
+
+/**
+ * Run every per-module scan on a module's code
+ */
+export function scanModule(code: string): ModuleScan {
+  return {
+    requires: StartupAnalyzer.findRequires(code),
+    fingerprint: IdenticalModuleAnalyzer.hashFingerprint(code),
+    devBranches: DevCodeAnalyzer.findDevBranches(code),
+    literals: InlineDataAnalyzer.findLiterals(code),
+  };
+}
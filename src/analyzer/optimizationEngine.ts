@@ -1,4 +1,7 @@
-import { BundleAnalysis, OptimizationSuggestion, PackageInfo } from '../types';
+import { BundleAnalysis, OptimizationConfig, OptimizationSuggestion, PackageInfo } from '../types';
+import { MODULE_DETECTORS, ModuleDetector } from './moduleDetectors';
+
+type RuleSource = OptimizationSuggestion['source'];
 
 interface OptimizationRule {
   packageName: string;
@@ -7,6 +10,24 @@ interface OptimizationRule {
   estimatedSavings: number; // percentage
 }
 
+interface Threshold {
+  value: number;
+  source: RuleSource;
+}
+
+/**
+ * Built-in rules, thresholds and essential packages merged with the project config
+ */
+interface OptimizationSettings {
+  rules: Array<OptimizationRule & { source: RuleSource }>;
+  detectors: ModuleDetector[];
+  largePackageThreshold: Threshold;
+  duplicateThreshold: Threshold;
+  identicalModuleThreshold: Threshold;
+  // From the config, matched by exact name
+  essentialPackages: string[];
+}
+
 export class OptimizationEngine {
   private static OPTIMIZATION_RULES: OptimizationRule[] = [
     {
@@ -101,34 +122,141 @@ export class OptimizationEngine {
     },
   ];
 
-  private static LARGE_PACKAGE_THRESHOLD = 100 * 1024; // 100KB
+  // Packages that should NOT be lazy loaded (essential/core packages)
+  private static ESSENTIAL_PACKAGES = [
+    'react',
+    'react-native',
+    '@react-native',
+    '@sentry/core',
+    '@sentry/react-native',
+    'react-native-safe-area-context',
+    'react-native-screens',
+    '@react-navigation/native',
+    '@react-navigation/stack',
+    '@react-navigation/bottom-tabs',
+  ];
+
+  private static LARGE_PACKAGE_THRESHOLD = 200 * 1024; // 200KB
   private static DUPLICATE_THRESHOLD = 50 * 1024; // 50KB
+  private static IDENTICAL_MODULE_THRESHOLD = 4 * 1024; // 4KB
 
-  static generateOptimizations(analysis: BundleAnalysis): OptimizationSuggestion[] {
+  /**
+   * Generate suggestions from the built-in rules merged with the project's
+   * `optimizationRules` config
+   */
+  static generateOptimizations(
+    analysis: BundleAnalysis,
+    config: OptimizationConfig = {}
+  ): OptimizationSuggestion[] {
+    if (config.enabled === false) {
+      return [];
+    }
+    const settings = this.resolveSettings(config);
     const suggestions: OptimizationSuggestion[] = [];
 
     // Check for packages with known better alternatives
-    suggestions.push(...this.checkKnownReplacements(analysis.packages));
+    if (config.checkKnownAlternatives !== false) {
+      suggestions.push(...this.checkKnownReplacements(analysis.packages, settings));
+    }
 
-    // Check for large packages
-    suggestions.push(...this.checkLargePackages(analysis.packages));
+    // Check the modules bundled from packages, such as locales and full builds
+    if (config.checkModules !== false) {
+      suggestions.push(...this.checkModuleDetectors(analysis.packages, settings));
+    }
 
-    // Check for duplicates
-    suggestions.push(...this.checkDuplicates(analysis));
+    // Check for large packages and commonly over-imported ones
+    if (config.checkHeavyPackages !== false) {
+      suggestions.push(...this.checkLargePackages(analysis.packages, settings));
+      suggestions.push(...this.checkUnusedCode(analysis.packages));
+    }
 
-    // Check for unused heavy packages
-    suggestions.push(...this.checkUnusedCode(analysis.packages));
+    // Check for code that only belongs in development builds
+    if (config.checkDevCode !== false) {
+      suggestions.push(...this.checkDevCode(analysis));
+    }
+
+    // Check for duplicates and the same code bundled at several paths
+    if (config.checkDuplicates !== false) {
+      suggestions.push(...this.checkDuplicates(analysis, settings));
+      suggestions.push(...this.checkIdenticalModules(analysis, settings));
+    }
 
     // Sort by potential savings
     return suggestions.sort((a, b) => b.potentialSavings - a.potentialSavings);
   }
 
-  private static checkKnownReplacements(packages: PackageInfo[]): OptimizationSuggestion[] {
+  /**
+   * Whether a built-in replacement rule exists for the package, so a config rule for it
+   * only needs the fields it overrides
+   */
+  static hasBuiltInRule(packageName: string): boolean {
+    return this.OPTIMIZATION_RULES.some(
+      (rule) => rule.packageName.toLowerCase() === packageName.toLowerCase()
+    );
+  }
+
+  /**
+   * Merge the config with the built-ins. A config rule for a package with a built-in
+   * rule overrides its fields; any other config rule needs all of them. `disable` turns
+   * off built-in rules and module detectors by name.
+   */
+  private static resolveSettings(config: OptimizationConfig): OptimizationSettings {
+    const disabled = new Set((config.disable || []).map((name) => name.toLowerCase()));
+    const rules: OptimizationSettings['rules'] = this.OPTIMIZATION_RULES.filter(
+      (rule) => !disabled.has(rule.packageName.toLowerCase())
+    ).map((rule) => ({ ...rule, source: 'built-in' as const }));
+
+    (config.rules || []).forEach((configRule) => {
+      const index = rules.findIndex(
+        (rule) => rule.packageName.toLowerCase() === configRule.packageName.toLowerCase()
+      );
+      if (index !== -1) {
+        rules[index] = { ...rules[index], ...withoutUndefined(configRule), source: 'config' };
+        return;
+      }
+      // loadProjectConfig rejects incomplete new rules, so this only skips ones passed in code
+      const { packageName, alternative, reason, estimatedSavings } = configRule;
+      if (alternative === undefined || reason === undefined || estimatedSavings === undefined) {
+        return;
+      }
+      rules.push({ packageName, alternative, reason, estimatedSavings, source: 'config' });
+    });
+
+    const threshold = (configured: number | undefined, builtIn: number): Threshold =>
+      configured === undefined
+        ? { value: builtIn, source: 'built-in' }
+        : { value: configured, source: 'config' };
+    const thresholds = config.thresholds || {};
+
+    return {
+      rules,
+      detectors: MODULE_DETECTORS.filter((detector) => !disabled.has(detector.name)),
+      largePackageThreshold: threshold(thresholds.largePackage, this.LARGE_PACKAGE_THRESHOLD),
+      duplicateThreshold: threshold(thresholds.duplicate, this.DUPLICATE_THRESHOLD),
+      identicalModuleThreshold: threshold(
+        thresholds.identicalModules,
+        this.IDENTICAL_MODULE_THRESHOLD
+      ),
+      essentialPackages: (config.essentialPackages || []).map((name) => name.toLowerCase()),
+    };
+  }
+
+  /**
+   * Match rules by exact package name, so the lodash rule leaves lodash.debounce alone.
+   * Built-in rules for packages a module detector inspects more closely are skipped.
+   */
+  private static checkKnownReplacements(
+    packages: PackageInfo[],
+    settings: OptimizationSettings
+  ): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = [];
+    const superseded = new Set(settings.detectors.flatMap((detector) => detector.supersedes || []));
 
     packages.forEach((pkg) => {
-      const rule = this.OPTIMIZATION_RULES.find((r) =>
-        pkg.name.toLowerCase().includes(r.packageName.toLowerCase())
+      const rule = settings.rules.find(
+        (r) =>
+          r.packageName.toLowerCase() === pkg.name.toLowerCase() &&
+          !(r.source === 'built-in' && superseded.has(r.packageName))
       );
 
       if (rule) {
@@ -142,6 +270,8 @@ export class OptimizationEngine {
           potentialSavings,
           suggestion: `Replace ${pkg.name} with ${rule.alternative}\n   💡 ${rule.reason}`,
           alternative: rule.alternative,
+          source: rule.source,
+          rule: `replace:${rule.packageName}`,
         });
       }
     });
@@ -149,56 +279,64 @@ export class OptimizationEngine {
     return suggestions;
   }
 
-  private static checkLargePackages(packages: PackageInfo[]): OptimizationSuggestion[] {
+  private static checkModuleDetectors(
+    packages: PackageInfo[],
+    settings: OptimizationSettings
+  ): OptimizationSuggestion[] {
+    return settings.detectors.flatMap((detector) =>
+      detector.detect(packages).map((suggestion) => ({
+        ...suggestion,
+        source: 'built-in' as const,
+        rule: `detector:${detector.name}`,
+      }))
+    );
+  }
+
+  private static checkLargePackages(
+    packages: PackageInfo[],
+    settings: OptimizationSettings
+  ): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = [];
+    const threshold = settings.largePackageThreshold;
 
-    // Packages that should NOT be lazy loaded (essential/core packages)
-    const essentialPackages = [
-      'react',
-      'react-native',
-      '@react-native',
-      '@sentry/core',
-      '@sentry/react-native',
-      'react-native-safe-area-context',
-      'react-native-screens',
-      '@react-navigation/native',
-      '@react-navigation/stack',
-      '@react-navigation/bottom-tabs',
-    ];
-
-    const largePackages = packages.filter((pkg) => pkg.size > this.LARGE_PACKAGE_THRESHOLD);
+    const largePackages = packages.filter((pkg) => pkg.size > threshold.value);
 
     largePackages.forEach((pkg) => {
       // Skip essential packages that can't be lazy loaded
-      const isEssential = essentialPackages.some((essential) =>
-        pkg.name.toLowerCase().includes(essential.toLowerCase())
-      );
+      const name = pkg.name.toLowerCase();
+      const isEssential =
+        this.ESSENTIAL_PACKAGES.some((essential) => name.includes(essential)) ||
+        settings.essentialPackages.includes(name);
 
       if (isEssential) {
         return; // Skip lazy loading suggestion for essential packages
       }
 
       // Suggest dynamic imports for large non-essential packages
-      if (pkg.size > 200 * 1024) {
-        suggestions.push({
-          type: 'dynamic-import',
-          severity: pkg.size > 500 * 1024 ? 'high' : 'medium',
-          package: pkg.name,
-          currentSize: pkg.size,
-          potentialSavings: pkg.size, // Full savings if lazy loaded
-          suggestion: `Consider lazy loading ${pkg.name} with dynamic imports\n   💡 Load this package only when needed to reduce initial bundle size`,
-        });
-      }
+      suggestions.push({
+        type: 'dynamic-import',
+        severity: pkg.size > 500 * 1024 ? 'high' : 'medium',
+        package: pkg.name,
+        currentSize: pkg.size,
+        potentialSavings: pkg.size, // Full savings if lazy loaded
+        suggestion: `Consider lazy loading ${pkg.name} with dynamic imports\n   💡 Load this package only when needed to reduce initial bundle size`,
+        source: threshold.source,
+        rule: 'large-package',
+      });
     });
 
     return suggestions;
   }
 
-  private static checkDuplicates(analysis: BundleAnalysis): OptimizationSuggestion[] {
+  private static checkDuplicates(
+    analysis: BundleAnalysis,
+    settings: OptimizationSettings
+  ): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = [];
+    const threshold = settings.duplicateThreshold;
 
     analysis.duplicates.forEach((duplicate) => {
-      if (duplicate.totalWaste > this.DUPLICATE_THRESHOLD) {
+      if (duplicate.totalWaste > threshold.value) {
         suggestions.push({
           type: 'dedupe',
           severity: duplicate.totalWaste > 200 * 1024 ? 'high' : 'medium',
@@ -206,6 +344,8 @@ export class OptimizationEngine {
           currentSize: duplicate.totalWaste,
           potentialSavings: Math.floor(duplicate.totalWaste * 0.5), // Estimate 50% savings
           suggestion: `Deduplicate ${duplicate.name} - found ${duplicate.versions.length} versions`,
+          source: threshold.source,
+          rule: 'duplicate-package',
         });
       }
     });
@@ -213,6 +353,82 @@ export class OptimizationEngine {
     return suggestions;
   }
 
+  /**
+   * Suggest sharing code that several packages vendor or inline. Groups whose copies all
+   * belong to a package already reported as duplicated are left to checkDuplicates.
+   */
+  private static checkIdenticalModules(
+    analysis: BundleAnalysis,
+    settings: OptimizationSettings
+  ): OptimizationSuggestion[] {
+    if (!analysis.identicalModules) {
+      return [];
+    }
+    const threshold = settings.identicalModuleThreshold;
+    const duplicatedPackages = new Set(analysis.duplicates.map((duplicate) => duplicate.name));
+
+    return analysis.identicalModules.groups
+      .filter(
+        (group) =>
+          group.wastedSize > threshold.value &&
+          !(group.packages.length === 1 && duplicatedPackages.has(group.packages[0]))
+      )
+      .map((group) => {
+        const copies = group.modules.length;
+        const owners = group.packages.length > 0 ? group.packages.join(', ') : 'your code';
+        return {
+          type: 'dedupe' as const,
+          severity: group.wastedSize > 200 * 1024 ? ('high' as const) : ('medium' as const),
+          package: owners,
+          currentSize: group.wastedSize,
+          // Near-identical copies may need changes before they can share one module
+          potentialSavings: group.exact ? group.wastedSize : Math.floor(group.wastedSize * 0.5),
+          suggestion: `Deduplicate ${copies} ${group.exact ? 'identical' : 'near-identical'} copies of ${
+            group.modules[0].path
+          }\n   💡 Bundled by ${owners}. Share one copy, e.g. through @babel/runtime or tslib with importHelpers`,
+          source: threshold.source,
+          rule: 'identical-modules',
+        };
+      });
+  }
+
+  /**
+   * Every piece of dev-only code is a high-severity suggestion, whatever its size. A dev
+   * bundle saves nothing by itself, but none of its sizes can be trusted.
+   */
+  private static checkDevCode(analysis: BundleAnalysis): OptimizationSuggestion[] {
+    if (!analysis.devCode) {
+      return [];
+    }
+
+    return analysis.devCode.findings.map((finding) => {
+      let suggestion: string;
+      switch (finding.kind) {
+        case 'dev-bundle':
+          suggestion = `Analyze a release bundle\n   💡 This is a development bundle with dev-only code and unminified output. Build it with --dev false --minify true`;
+          break;
+        case 'dev-package':
+          suggestion = `Keep ${finding.name} out of release builds\n   💡 ${finding.description} is bundled. Require it only inside if (__DEV__) { ... } so Metro strips it`;
+          break;
+        case 'react-dev-build':
+          suggestion = `Bundle the production build of ${finding.name}\n   💡 ${finding.moduleCount} development build module(s) are bundled. Make sure process.env.NODE_ENV is 'production' and nothing requires cjs/*.development.js directly`;
+          break;
+        default:
+          suggestion = `Strip development-only branches from ${finding.name}\n   💡 ${finding.branchCount} __DEV__ or NODE_ENV branch(es) were left in. Make sure Metro inlines them (no Babel config overrides __DEV__ or process.env.NODE_ENV) and minification is on`;
+      }
+      return {
+        type: 'remove' as const,
+        severity: 'high' as const,
+        package: finding.name,
+        currentSize: finding.size,
+        potentialSavings: finding.kind === 'dev-bundle' ? 0 : finding.size,
+        suggestion,
+        source: 'built-in' as const,
+        rule: `dev-code:${finding.kind}`,
+      };
+    });
+  }
+
   private static checkUnusedCode(packages: PackageInfo[]): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = [];
 
@@ -233,6 +449,8 @@ export class OptimizationEngine {
           currentSize: pkg.size,
           potentialSavings: Math.floor(pkg.size * 0.7),
           suggestion: `Import only needed icons from ${pkg.name} instead of the entire library`,
+          source: 'built-in',
+          rule: 'icon-library',
         });
       }
     });
@@ -262,3 +480,9 @@ export class OptimizationEngine {
     };
   }
 }
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModuleData, ModuleId, ParseWarning } from '../types';
+import { SourcemapParser } from '../utils/sourcemapParser';
+import { BundleParser } from './bundleParser';
+
+export interface RamBundleContents {
+  modules: ModuleData[];
+  startupCodeSize: number;
+  totalSize: number;
+  startupCode: string;
+  moduleCode: Map<ModuleId, string>;
+  warnings: ParseWarning[];
+  isDevBundle: boolean;
+}
+
+// Magic number shared by indexed RAM bundles and the js-modules/UNBUNDLE marker file
+const RAM_BUNDLE_MAGIC = 0xfb0bd1e5;
+const INDEXED_HEADER_SIZE = 12;
+const TABLE_ENTRY_SIZE = 8;
+const FILE_RAM_BUNDLE_DIR = 'js-modules';
+const FILE_RAM_BUNDLE_MARKER = 'UNBUNDLE';
+
+export class RamBundleParser {
+  private sourcemapParser?: SourcemapParser;
+  private workspaceDirs: string[];
+
+  constructor(sourcemapParser?: SourcemapParser, workspaceDirs: string[] = []) {
+    this.sourcemapParser = sourcemapParser;
+    this.workspaceDirs = workspaceDirs;
+  }
+
+  /**
+   * Check whether a buffer is an indexed RAM bundle (--indexed-ram-bundle)
+   */
+  static isIndexedRamBundle(buffer: Buffer): boolean {
+    return buffer.length >= INDEXED_HEADER_SIZE && buffer.readUInt32LE(0) === RAM_BUNDLE_MAGIC;
+  }
+
+  /**
+   * Find the js-modules directory of a file RAM bundle next to the startup bundle
+   */
+  static findFileRamBundleDir(bundlePath: string): string | null {
+    const modulesDir = path.join(path.dirname(bundlePath), FILE_RAM_BUNDLE_DIR);
+    const markerPath = path.join(modulesDir, FILE_RAM_BUNDLE_MARKER);
+
+    try {
+      if (!fs.existsSync(markerPath)) {
+        return null;
+      }
+      const marker = fs.readFileSync(markerPath);
+      return marker.length >= 4 && marker.readUInt32LE(0) === RAM_BUNDLE_MAGIC ? modulesDir : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Parse an indexed RAM bundle: header, table of contents, startup code and module code
+   */
+  parseIndexed(buffer: Buffer): RamBundleContents {
+    if (!RamBundleParser.isIndexedRamBundle(buffer)) {
+      throw new Error('Not an indexed RAM bundle');
+    }
+
+    const entryCount = buffer.readUInt32LE(4);
+    const startupCodeLength = buffer.readUInt32LE(8);
+    const codeOffset = INDEXED_HEADER_SIZE + entryCount * TABLE_ENTRY_SIZE;
+
+    if (codeOffset > buffer.length) {
+      throw new Error('RAM bundle table of contents exceeds file length');
+    }
+
+    const parser = new BundleParser('', this.sourcemapParser, this.workspaceDirs);
+    const modules: ModuleData[] = [];
+
+    // Table entries are indexed by module ID; missing IDs have a zero offset and length
+    for (let id = 0; id < entryCount; id++) {
+      const entryOffset = INDEXED_HEADER_SIZE + id * TABLE_ENTRY_SIZE;
+      const offset = buffer.readUInt32LE(entryOffset);
+      const length = buffer.readUInt32LE(entryOffset + 4);
+
+      if (length === 0) {
+        continue;
+      }
+
+      const start = codeOffset + offset;
+      const code = buffer.toString('utf-8', start, Math.min(start + length, buffer.length));
+      modules.push(parser.parseModuleCode(stripNullTerminator(code), id, this.getModuleLine(id)));
+    }
+
+    const startupCode = buffer.toString('utf-8', codeOffset, codeOffset + startupCodeLength);
+    markEntryModules(modules, startupCode);
+
+    return {
+      modules,
+      startupCodeSize: startupCodeLength,
+      totalSize: buffer.length,
+      startupCode,
+      moduleCode: parser.getModuleCode(),
+      warnings: parser.getWarnings(),
+      isDevBundle: parser.isDevBundle() || BundleParser.isDevPrelude(startupCode),
+    };
+  }
+
+  /**
+   * Parse a file RAM bundle: startup code in the bundle file, one file per module in js-modules/
+   */
+  parseFileBased(bundlePath: string, modulesDir: string): RamBundleContents {
+    const startupCodeSize = fs.statSync(bundlePath).size;
+    const parser = new BundleParser('', this.sourcemapParser, this.workspaceDirs);
+
+    const moduleFiles = fs
+      .readdirSync(modulesDir)
+      .filter((file) => /^\d+\.js$/.test(file))
+      .map((file) => ({ file, id: parseInt(file, 10) }))
+      .sort((a, b) => a.id - b.id);
+
+    const modules: ModuleData[] = [];
+    let totalSize = startupCodeSize;
+
+    moduleFiles.forEach(({ file, id }) => {
+      const code = fs.readFileSync(path.join(modulesDir, file), 'utf-8');
+      const module = parser.parseModuleCode(stripNullTerminator(code), id, this.getModuleLine(id));
+      modules.push(module);
+      totalSize += module.size;
+    });
+
+    const startupCode = fs.readFileSync(bundlePath, 'utf-8');
+    markEntryModules(modules, startupCode);
+
+    return {
+      modules,
+      startupCodeSize,
+      totalSize,
+      startupCode,
+      moduleCode: parser.getModuleCode(),
+      warnings: parser.getWarnings(),
+      isDevBundle: parser.isDevBundle() || BundleParser.isDevPrelude(startupCode),
+    };
+  }
+
+  /**
+   * RAM bundle sourcemaps lay the modules out one after another and record the line each
+   * one starts on; without that, a module's bytes cannot be found in the map
+   */
+  private getModuleLine(id: number): number | undefined {
+    return this.sourcemapParser && this.sourcemapParser.isLoaded()
+      ? this.sourcemapParser.getModuleLine(id)
+      : undefined;
+  }
+}
+
+/**
+ * Flag the modules run by the __r() calls in the startup code
+ */
+function markEntryModules(modules: ModuleData[], startupCode: string): void {
+  const entryIds = BundleParser.findRunCalls(startupCode);
+  modules.forEach((module) => {
+    if (entryIds.includes(module.id as number)) {
+      module.isEntry = true;
+    }
+  });
+}
+
+function stripNullTerminator(code: string): string {
+  return code.endsWith('\0') ? code.slice(0, -1) : code;
+}
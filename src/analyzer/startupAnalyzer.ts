@@ -0,0 +1,308 @@
+import { ModuleData, ModuleId, StartupAnalysis, StartupModule, StartupPackage } from '../types';
+import { BundleLexer } from './bundleLexer';
+import { LoadedBundle } from './bundleLoader';
+import { BundleParser } from './bundleParser';
+import { ModuleScan } from './moduleScan';
+
+// Metro's factory: function(global, require, importDefault, importAll, module, exports, dependencyMap)
+const FACTORY_HEADER_PATTERN = /^\s*(?:__d\(\s*)?function\s*\(([^)]*)\)\s*\{/;
+const REQUIRE_PARAMETERS = [1, 2, 3];
+const DEPENDENCY_MAP_PARAMETER = 6;
+
+// Names used when the code has no factory header: minified and dev bundle parameters
+const DEFAULT_REQUIRE_NAMES = [
+  'r',
+  'i',
+  'a',
+  '_$$_REQUIRE',
+  '_$$_IMPORT_DEFAULT',
+  '_$$_IMPORT_ALL',
+];
+const DEFAULT_DEPENDENCY_MAP_NAMES = ['d', '_dependencyMap'];
+
+// Keywords whose parenthesized head is followed by a block rather than a function body
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with']);
+
+const WORD_CHAR = /[\w$]/;
+
+export interface RequireCall {
+  dependencyIndex: number;
+  // Called at the top level of the factory rather than inside a nested function
+  eager: boolean;
+}
+
+type Frame =
+  | { kind: 'function' | 'block' | 'bracket' | 'arrow' }
+  | { kind: 'paren'; keyword: string };
+
+/**
+ * Estimates which modules are evaluated at startup. Metro's inline requires move most
+ * `require` calls into the functions that use them, so only requires made at the top
+ * level of a module factory run when the module is first required. Starting from the
+ * entry modules, those top-level requires are followed; everything else is deferred.
+ */
+export class StartupAnalyzer {
+  private modules: ModuleData[];
+  private moduleCode?: Map<ModuleId, string>;
+  private moduleScans?: Map<ModuleId, ModuleScan>;
+
+  constructor(
+    modules: ModuleData[],
+    moduleCode?: Map<ModuleId, string>,
+    moduleScans?: Map<ModuleId, ModuleScan>
+  ) {
+    this.modules = modules;
+    this.moduleCode = moduleCode;
+    this.moduleScans = moduleScans;
+  }
+
+  /**
+   * Create an analyzer for a loaded bundle. Webpack module sources do not use Metro's
+   * dependency map, so their dependencies are all treated as eager.
+   */
+  static forBundle(bundle: LoadedBundle): StartupAnalyzer {
+    return new StartupAnalyzer(
+      bundle.modules,
+      bundle.format === 'webpack' ? undefined : bundle.moduleCode,
+      bundle.moduleScans
+    );
+  }
+
+  /**
+   * Walk the eager requires from the entry modules. Returns undefined when the bundle
+   * has no entry modules to start from.
+   */
+  analyze(): StartupAnalysis | undefined {
+    const entries = this.modules.filter((module) => module.isEntry);
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    const byId = new Map(this.modules.map((module) => [module.id, module]));
+    const requiredBy = new Map<ModuleId, ModuleId | undefined>();
+    let unscannedModuleCount = 0;
+
+    // Prelude, polyfills and the module system run before the entry module
+    this.modules
+      .filter((module) => BundleParser.categorizeModule(module.path) === 'runtime')
+      .forEach((module) => requiredBy.set(module.id, undefined));
+
+    const queue = entries.map((module) => module.id);
+    entries.forEach((module) => requiredBy.set(module.id, undefined));
+
+    while (queue.length > 0) {
+      const module = byId.get(queue.shift()!)!;
+      const requires = this.findModuleRequires(module.id);
+      const dependencies = module.dependencies || [];
+      let eagerDependencies: ModuleId[];
+
+      if (requires) {
+        eagerDependencies = requires
+          .filter((call) => call.eager && call.dependencyIndex < dependencies.length)
+          .map((call) => dependencies[call.dependencyIndex]);
+      } else {
+        unscannedModuleCount++;
+        eagerDependencies = dependencies;
+      }
+
+      eagerDependencies.forEach((dependencyId) => {
+        if (!requiredBy.has(dependencyId) && byId.has(dependencyId)) {
+          requiredBy.set(dependencyId, module.id);
+          queue.push(dependencyId);
+        }
+      });
+    }
+
+    return this.summarize(requiredBy, unscannedModuleCount);
+  }
+
+  /**
+   * Find the dependency-map requires in a module's code and whether each runs at the
+   * top level of the factory. Arrow functions, function expressions and methods count
+   * as nested.
+   */
+  static findRequires(code: string): RequireCall[] {
+    const header = code.match(FACTORY_HEADER_PATTERN);
+    const parameters = header ? header[1].split(',').map((name) => name.trim()) : [];
+    const requireNames = new Set(
+      header
+        ? REQUIRE_PARAMETERS.map((index) => parameters[index]).filter(Boolean)
+        : DEFAULT_REQUIRE_NAMES
+    );
+    const mapNames = new Set(
+      header ? [parameters[DEPENDENCY_MAP_PARAMETER]].filter(Boolean) : DEFAULT_DEPENDENCY_MAP_NAMES
+    );
+    if (requireNames.size === 0 || mapNames.size === 0) {
+      return [];
+    }
+
+    const bodyStart = header ? header[0].length : 0;
+    const tokens = BundleLexer.tokenize(code).filter((token) => token.start >= bodyStart);
+    const text = (index: number) =>
+      index < tokens.length ? code.slice(tokens[index].start, tokens[index].end) : '';
+
+    const calls: RequireCall[] = [];
+    const stack: Frame[] = [];
+    let functionDepth = 0;
+    // Last significant token: a punctuator, a word, or '' at the start
+    let previous = '';
+    let closedParenKeyword = '';
+
+    const push = (frame: Frame) => {
+      stack.push(frame);
+      if (frame.kind === 'function' || frame.kind === 'arrow') functionDepth++;
+    };
+    const pop = (): Frame | undefined => {
+      const frame = stack.pop();
+      if (frame && (frame.kind === 'function' || frame.kind === 'arrow')) functionDepth--;
+      return frame;
+    };
+    const closeArrows = () => {
+      while (stack.length > 0 && stack[stack.length - 1].kind === 'arrow') pop();
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      let value = text(i);
+
+      // An arrow function without braces: its body ends at the next `,` `;` or closer
+      if (previous === '=>' && value !== '{') {
+        push({ kind: 'arrow' });
+        previous = '=> body';
+      }
+
+      if (token.type === 'string' || token.type === 'template') {
+        // The `}` ending a template substitution also ends an arrow body inside it
+        if (value[0] === '}') closeArrows();
+        previous = 'string';
+        continue;
+      }
+      if (token.type === 'regex') {
+        previous = 'regexp';
+        continue;
+      }
+
+      if (token.type === 'word') {
+        const isCall =
+          requireNames.has(value) &&
+          previous !== '.' &&
+          text(i + 1) === '(' &&
+          mapNames.has(text(i + 2)) &&
+          text(i + 3) === '[' &&
+          /^\d+$/.test(text(i + 4)) &&
+          text(i + 5) === ']';
+        if (isCall) {
+          calls.push({ dependencyIndex: parseInt(text(i + 4), 10), eager: functionDepth === 0 });
+        }
+        previous = value;
+        continue;
+      }
+
+      // Operators are single-character punctuators; => is the only one that matters here
+      if (value === '=' && text(i + 1) === '>' && tokens[i + 1].start === token.end) {
+        i++;
+        value = '=>';
+      }
+
+      switch (value) {
+        case '{': {
+          const isFunctionBody =
+            previous === '=>' || (previous === ')' && !CONTROL_KEYWORDS.has(closedParenKeyword));
+          push({ kind: isFunctionBody ? 'function' : 'block' });
+          break;
+        }
+        case '(':
+          push({ kind: 'paren', keyword: WORD_CHAR.test(previous[0] || '') ? previous : '' });
+          break;
+        case '[':
+          push({ kind: 'bracket' });
+          break;
+        case '}':
+        case ')':
+        case ']': {
+          closeArrows();
+          const frame = pop();
+          if (!frame) {
+            // Closing brace of the factory itself
+            return calls;
+          }
+          if (frame.kind === 'paren') {
+            closedParenKeyword = frame.keyword;
+          }
+          break;
+        }
+        case ',':
+        case ';':
+          closeArrows();
+          break;
+      }
+      previous = value;
+    }
+
+    return calls;
+  }
+
+  private findModuleRequires(id: ModuleId): RequireCall[] | undefined {
+    const code = this.moduleCode?.get(id);
+    return code ? StartupAnalyzer.findRequires(code) : this.moduleScans?.get(id)?.requires;
+  }
+
+  private summarize(
+    requiredBy: Map<ModuleId, ModuleId | undefined>,
+    unscannedModuleCount: number
+  ): StartupAnalysis {
+    const eagerModules: StartupModule[] = [];
+    const packages = new Map<string, StartupPackage>();
+    let eagerSize = 0;
+    let deferredSize = 0;
+    let deferredModuleCount = 0;
+
+    this.modules.forEach((module) => {
+      // Unmapped bytes belong to no module, so they are neither eager nor deferred
+      if (BundleParser.categorizeModule(module.path) === 'unmapped') {
+        return;
+      }
+
+      const eager = requiredBy.has(module.id);
+      if (eager) {
+        eagerSize += module.size;
+        const startupModule: StartupModule = {
+          id: module.id,
+          path: module.path,
+          size: module.size,
+        };
+        const parent = requiredBy.get(module.id);
+        if (parent !== undefined) {
+          startupModule.requiredBy = parent;
+        }
+        eagerModules.push(startupModule);
+      } else {
+        deferredSize += module.size;
+        deferredModuleCount++;
+      }
+
+      const packageName = BundleParser.extractPackageName(module.path);
+      if (packageName) {
+        if (!packages.has(packageName)) {
+          packages.set(packageName, { name: packageName, eagerSize: 0, deferredSize: 0 });
+        }
+        const pkg = packages.get(packageName)!;
+        if (eager) {
+          pkg.eagerSize += module.size;
+        } else {
+          pkg.deferredSize += module.size;
+        }
+      }
+    });
+
+    return {
+      eagerSize,
+      deferredSize,
+      eagerModuleCount: eagerModules.length,
+      deferredModuleCount,
+      unscannedModuleCount,
+      eagerModules: eagerModules.sort((a, b) => b.size - a.size),
+      packages: Array.from(packages.values()).sort((a, b) => b.eagerSize - a.eagerSize),
+    };
+  }
+}
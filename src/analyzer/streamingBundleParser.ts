@@ -0,0 +1,338 @@
+import * as fs from 'fs';
+import { StringDecoder } from 'string_decoder';
+import { ModuleData, ModuleId, ParseWarning } from '../types';
+import { MappingSegment, SourcemapParser, UNMAPPED_SOURCE } from '../utils/sourcemapParser';
+import {
+  DEFAULT_CHUNK_SIZE,
+  MappingLineReader,
+  SourcemapOutline,
+  SourcemapStream,
+} from '../utils/sourcemapStream';
+import { BundleLexer } from './bundleLexer';
+import { BundleParser, PRELUDE_PROBE_SIZE } from './bundleParser';
+import { CompressedSizes, StreamingCompressor } from './compressionAnalyzer';
+import { ModuleScan, scanModule } from './moduleScan';
+
+export interface StreamingProgress {
+  phase: 'sourcemap' | 'bundle';
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export interface StreamingParseOptions {
+  sourcemapPath?: string;
+  // Monorepo workspace package directories, kept whole in module paths
+  workspaceDirs?: string[];
+  chunkSize?: number;
+  onProgress?: (progress: StreamingProgress) => void;
+}
+
+export interface StreamingParseResult {
+  modules: ModuleData[];
+  totalSize: number;
+  compressedSizes: CompressedSizes;
+  // What each module's code held, keyed by the ID of its __d() call
+  moduleScans: Map<ModuleId, ModuleScan>;
+  warnings: ParseWarning[];
+  isDevBundle: boolean;
+  // Bytes outside any __d() call, measured when there is no sourcemap to map them
+  runtimeSize: number;
+}
+
+// A __r() call can straddle two chunks, so the end of each chunk is searched again
+const RUN_CALL_OVERLAP = 32;
+
+interface SpanModule {
+  byteStart: number;
+  byteEnd: number;
+  module: ModuleData;
+}
+
+/**
+ * Parses a Metro bundle and its sourcemap in chunks. Only per-module results are kept,
+ * so memory depends on the number of modules rather than the size of the files. Each
+ * module's code is held until its __d() call ends and is scanned, then dropped.
+ */
+export class StreamingBundleParser {
+  private bundlePath: string;
+  private options: StreamingParseOptions;
+  private warnings: ParseWarning[] = [];
+  // Read once, by whichever of hasIndexSourcemap() and parse() runs first
+  private outline?: SourcemapOutline | null;
+
+  constructor(bundlePath: string, options: StreamingParseOptions = {}) {
+    this.bundlePath = bundlePath;
+    this.options = options;
+  }
+
+  /**
+   * Check whether the sourcemap is an index map. Its sources and mappings live in
+   * sections, which are not streamed, so callers should parse such bundles in memory.
+   */
+  hasIndexSourcemap(): boolean {
+    return this.loadOutline(this.options.chunkSize || DEFAULT_CHUNK_SIZE)?.hasSections === true;
+  }
+
+  /**
+   * Read the sourcemap outline, then stream the bundle through the lexer, the mapped
+   * size counter and the compressors in a single pass
+   */
+  async parse(): Promise<StreamingParseResult> {
+    const chunkSize = this.options.chunkSize || DEFAULT_CHUNK_SIZE;
+    const outline = this.readSourcemapOutline(chunkSize);
+    const mappings =
+      outline && outline.mappingsOffset !== null
+        ? new SourcemapStream(this.options.sourcemapPath!, chunkSize).openMappings(
+            outline.mappingsOffset
+          )
+        : null;
+
+    const totalBytes = fs.statSync(this.bundlePath).size;
+    const lexer = new BundleLexer();
+    const counter = mappings ? new MappedSizeCounter(mappings) : null;
+    const compressor = new StreamingCompressor(totalBytes);
+    const decoder = new StringDecoder('utf8');
+    const parser = new BundleParser('', undefined, this.options.workspaceDirs);
+    const spanModules: SpanModule[] = [];
+    const moduleScans = new Map<ModuleId, ModuleScan>();
+    const entryIds = new Set<number>();
+    // Text from character offset `pendingStart` that may belong to a module not yet scanned
+    let pending = '';
+    let pendingStart = 0;
+    let runCallTail = '';
+    let prelude = '';
+    let bytesRead = 0;
+
+    const collectSpans = () => {
+      lexer.takeSpans().forEach((span) => {
+        const index = spanModules.length;
+        const module = parser.parseSpan(span, index);
+        spanModules.push({ byteStart: span.byteStart, byteEnd: span.byteEnd, module });
+        moduleScans.set(
+          module.id,
+          scanModule(pending.slice(span.start - pendingStart, span.end - pendingStart))
+        );
+      });
+
+      const keepFrom = lexer.getUnfinishedStart();
+      pending = pending.slice(keepFrom - pendingStart);
+      pendingStart = keepFrom;
+    };
+
+    const scan = (text: string) => {
+      if (prelude.length < PRELUDE_PROBE_SIZE) {
+        prelude += text.slice(0, PRELUDE_PROBE_SIZE - prelude.length);
+      }
+      pending += text;
+      lexer.write(text);
+      counter?.write(text);
+      collectSpans();
+
+      BundleParser.findRunCalls(runCallTail + text).forEach((id) => entryIds.add(id));
+      runCallTail = text.slice(-RUN_CALL_OVERLAP);
+    };
+
+    try {
+      for await (const chunk of fs.createReadStream(this.bundlePath, {
+        highWaterMark: chunkSize,
+      })) {
+        const buffer = chunk as Buffer;
+        const compressed = compressor.write(buffer);
+        scan(decoder.write(buffer));
+        await compressed;
+
+        bytesRead += buffer.length;
+        this.options.onProgress?.({ phase: 'bundle', bytesRead, totalBytes });
+      }
+      scan(decoder.end());
+      lexer.end();
+      collectSpans();
+    } finally {
+      mappings?.close();
+    }
+
+    lexer.getWarnings().forEach((warning) => this.warnings.push(warning));
+    parser.getWarnings().forEach((warning) => this.warnings.push(warning));
+
+    const modules = counter
+      ? this.buildMappedModules(counter, outline!, spanModules)
+      : spanModules.map((entry) => entry.module);
+    modules.forEach((module) => {
+      if (entryIds.has(module.id as number)) {
+        module.isEntry = true;
+      }
+    });
+
+    const lastSpan = spanModules[spanModules.length - 1];
+    const runtimeSize =
+      !counter && lastSpan ? spanModules[0].byteStart + bytesRead - lastSpan.byteEnd : 0;
+
+    return {
+      modules,
+      totalSize: bytesRead,
+      runtimeSize,
+      compressedSizes: await compressor.end(),
+      moduleScans,
+      warnings: this.warnings,
+      isDevBundle: parser.isDevBundle() || BundleParser.isDevPrelude(prelude),
+    };
+  }
+
+  private loadOutline(chunkSize: number): SourcemapOutline | null {
+    const { sourcemapPath, onProgress } = this.options;
+    if (this.outline === undefined) {
+      this.outline = sourcemapPath
+        ? new SourcemapStream(sourcemapPath, chunkSize).readOutline((bytesRead, totalBytes) =>
+            onProgress?.({ phase: 'sourcemap', bytesRead, totalBytes })
+          )
+        : null;
+    }
+    return this.outline;
+  }
+
+  private readSourcemapOutline(chunkSize: number): SourcemapOutline | null {
+    const outline = this.loadOutline(chunkSize);
+    if (!outline) {
+      return null;
+    }
+    if (outline.hasSections) {
+      this.warnings.push({
+        offset: 0,
+        message: 'Index sourcemaps are not read when streaming; module paths come from the bundle',
+      });
+      return null;
+    }
+    return outline;
+  }
+
+  /**
+   * Build modules from the bytes each source owns. A source takes the ID and dependencies
+   * of the __d() call its first mapped byte falls in.
+   */
+  private buildMappedModules(
+    counter: MappedSizeCounter,
+    outline: SourcemapOutline,
+    spanModules: SpanModule[]
+  ): ModuleData[] {
+    const modules: ModuleData[] = [];
+    const usedSpans = new Set<SpanModule>();
+
+    counter.bySource.forEach((size, sourceIndex) => {
+      const span = findSpanAt(spanModules, counter.firstByteBySource.get(sourceIndex)!);
+      const hasDefinition = span && typeof span.module.id === 'number' && !usedSpans.has(span);
+      if (hasDefinition) {
+        usedSpans.add(span!);
+      }
+
+      const rawPath = outline.sources[sourceIndex];
+      modules.push({
+        id: hasDefinition ? span!.module.id : `source_${sourceIndex}`,
+        path: rawPath
+          ? SourcemapParser.normalizeModulePath(rawPath, this.options.workspaceDirs)
+          : `source_${sourceIndex}`,
+        size,
+        dependencies: hasDefinition ? span!.module.dependencies : [],
+      });
+    });
+
+    if (counter.unmapped > 0) {
+      modules.push({ id: UNMAPPED_SOURCE, path: UNMAPPED_SOURCE, size: counter.unmapped });
+    }
+
+    return modules;
+  }
+}
+
+/**
+ * Attributes generated bytes to sources while the bundle streams past, reading one
+ * mapping line at a time. Splits lines the same way as `SourcemapParser.computeSourceSizes`.
+ */
+class MappedSizeCounter {
+  bySource = new Map<number, number>();
+  firstByteBySource = new Map<number, number>();
+  unmapped = 0;
+
+  private reader: MappingLineReader;
+  private segments: MappingSegment[];
+  private nextSegment = 0;
+  private column = 0;
+  private bytes = 0;
+
+  constructor(reader: MappingLineReader) {
+    this.reader = reader;
+    this.segments = reader.nextLine();
+  }
+
+  write(text: string): void {
+    let start = 0;
+    while (start < text.length) {
+      const newline = text.indexOf('\n', start);
+      const end = newline === -1 ? text.length : newline + 1;
+      this.count(text, start, end);
+
+      if (newline !== -1) {
+        this.segments = this.reader.nextLine();
+        this.nextSegment = 0;
+        this.column = 0;
+      }
+      start = end;
+    }
+  }
+
+  /**
+   * Count text[start, end) of the current line, which begins at `this.column`
+   */
+  private count(text: string, start: number, end: number): void {
+    const segments = this.segments;
+    let position = start;
+
+    while (position < end) {
+      const column = this.column + position - start;
+      while (
+        this.nextSegment < segments.length &&
+        segments[this.nextSegment].generatedColumn <= column
+      ) {
+        this.nextSegment++;
+      }
+
+      const owner = this.nextSegment > 0 ? segments[this.nextSegment - 1] : undefined;
+      const boundary =
+        this.nextSegment < segments.length
+          ? start + segments[this.nextSegment].generatedColumn - this.column
+          : end;
+      const spanEnd = Math.min(end, boundary);
+      const bytes = Buffer.byteLength(text.slice(position, spanEnd), 'utf-8');
+
+      const sourceIndex = owner ? owner.sourceIndex : undefined;
+      if (sourceIndex === undefined) {
+        this.unmapped += bytes;
+      } else {
+        if (!this.firstByteBySource.has(sourceIndex)) {
+          this.firstByteBySource.set(sourceIndex, this.bytes);
+        }
+        this.bySource.set(sourceIndex, (this.bySource.get(sourceIndex) || 0) + bytes);
+      }
+
+      this.bytes += bytes;
+      position = spanEnd;
+    }
+
+    this.column += end - start;
+  }
+}
+
+function findSpanAt(spans: SpanModule[], byteOffset: number): SpanModule | undefined {
+  let low = 0;
+  let high = spans.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (spans[mid].byteEnd <= byteOffset) {
+      low = mid + 1;
+    } else if (spans[mid].byteStart > byteOffset) {
+      high = mid - 1;
+    } else {
+      return spans[mid];
+    }
+  }
+  return undefined;
+}
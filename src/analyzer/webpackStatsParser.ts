@@ -0,0 +1,325 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChunkInfo, ModuleData, ModuleId } from '../types';
+import { SourcemapParser } from '../utils/sourcemapParser';
+import { LoadedBundle } from './bundleLoader';
+import { CompressionAnalyzer } from './compressionAnalyzer';
+
+// The subset of `webpack --json` / `stats.toJson()` output that is read
+interface WebpackReason {
+  moduleId?: string | number | null;
+  moduleIdentifier?: string | null;
+  type?: string;
+}
+
+interface WebpackModule {
+  id?: string | number | null;
+  identifier: string;
+  name: string;
+  size: number;
+  chunks?: (string | number)[];
+  reasons?: WebpackReason[];
+  modules?: WebpackModule[];
+  source?: string;
+  orphan?: boolean;
+}
+
+interface WebpackChunk {
+  id: string | number;
+  names?: string[];
+  files?: string[];
+  size: number;
+  initial?: boolean;
+}
+
+interface ModuleRecord {
+  webpackModule: WebpackModule;
+  id: ModuleId;
+  chunkId?: string | number;
+}
+
+interface WebpackStats {
+  outputPath?: string;
+  modules?: WebpackModule[];
+  chunks?: WebpackChunk[];
+  children?: WebpackStats[];
+}
+
+// Enough of the file to see the top-level keys webpack writes first
+const HEADER_PROBE_SIZE = 64 * 1024;
+const STATS_KEY_PATTERN = /"(?:modules|chunks|assetsByChunkName|namedChunkGroups)"\s*:/;
+
+// Emitted files that hold JavaScript, as opposed to maps and assets
+const SCRIPT_EXTENSIONS = new Set(['.js', '.bundle', '.cjs', '.mjs']);
+
+// Loaders prefix a module name and concatenated modules get a count suffix:
+// "../node_modules/babel-loader/lib/index.js??ruleSet[1]!./src/App.tsx + 3 modules"
+const CONCATENATED_SUFFIX_PATTERN = / \+ \d+ modules?$/;
+
+/**
+ * Reads webpack stats, such as those written by Re.Pack builds, into the same module
+ * model as Metro bundles. Dependencies come from each module's reasons, and modules
+ * that webpack concatenated are split back into the modules they contain.
+ */
+export class WebpackStatsParser {
+  private stats: WebpackStats;
+  private idsByIdentifier = new Map<string, ModuleId>();
+  private records: ModuleRecord[] | null = null;
+  private workspaceDirs: string[];
+
+  constructor(stats: WebpackStats, workspaceDirs: string[] = []) {
+    this.stats = WebpackStatsParser.selectCompilation(stats);
+    this.workspaceDirs = workspaceDirs;
+  }
+
+  /**
+   * Check whether a file looks like webpack stats JSON from its first bytes
+   */
+  static isWebpackStats(filePath: string): boolean {
+    if (path.extname(filePath) !== '.json' || !fs.existsSync(filePath)) {
+      return false;
+    }
+
+    const header = Buffer.alloc(HEADER_PROBE_SIZE);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const bytesRead = fs.readSync(fd, header, 0, HEADER_PROBE_SIZE, 0);
+      return STATS_KEY_PATTERN.test(header.toString('utf-8', 0, bytesRead));
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Read a stats file into a loaded bundle. Compressed sizes come from the emitted
+   * bundle files when they are still in the output path, or from module sources when
+   * the stats include them. Files in `workspaceDirs` keep their path from the workspace root.
+   */
+  static load(statsPath: string, workspaceDirs: string[] = []): LoadedBundle {
+    const parser = new WebpackStatsParser(
+      JSON.parse(fs.readFileSync(statsPath, 'utf-8')),
+      workspaceDirs
+    );
+    const modules = parser.parse();
+    const moduleCode = parser.getModuleCode();
+    const chunks = parser.getChunks(modules);
+
+    const outputDir = parser.findOutputDir(path.dirname(statsPath));
+    const emitted = outputDir
+      ? Buffer.concat(
+          parser.getScriptFiles().map((file) => fs.readFileSync(path.join(outputDir, file)))
+        )
+      : undefined;
+    const content =
+      emitted ||
+      (moduleCode.size > 0
+        ? Buffer.from(Array.from(moduleCode.values()).join(''), 'utf-8')
+        : undefined);
+
+    if (outputDir && chunks) {
+      chunks.forEach((chunk) => {
+        const chunkPath = path.join(outputDir, chunk.name);
+        if (fs.existsSync(chunkPath)) {
+          Object.assign(chunk, CompressionAnalyzer.compress(fs.readFileSync(chunkPath)));
+        }
+      });
+    }
+
+    return {
+      format: 'webpack',
+      modules,
+      totalSize: emitted ? emitted.length : modules.reduce((sum, m) => sum + m.size, 0),
+      content,
+      moduleCode: moduleCode.size > 0 ? moduleCode : undefined,
+      chunks,
+    };
+  }
+
+  /**
+   * Multi-compiler stats keep each compilation under `children`; use the first with modules
+   */
+  private static selectCompilation(stats: WebpackStats): WebpackStats {
+    if (stats.modules || !stats.children) {
+      return stats;
+    }
+    return stats.children.find((child) => child.modules) || stats;
+  }
+
+  parse(): ModuleData[] {
+    if (!this.stats.modules) {
+      throw new Error(
+        'Webpack stats have no modules; build with `--json` or stats `modules: true`'
+      );
+    }
+
+    const records = this.collectModules();
+
+    const dependencies = new Map<ModuleId, Set<ModuleId>>();
+    const entries = new Set<ModuleId>();
+
+    records.forEach(({ webpackModule, id }) => {
+      (webpackModule.reasons || []).forEach((reason) => {
+        if (reason.type === 'entry') {
+          entries.add(id);
+          return;
+        }
+        const issuer = this.resolveReason(reason);
+        if (issuer === undefined || issuer === id) return;
+        if (!dependencies.has(issuer)) dependencies.set(issuer, new Set());
+        dependencies.get(issuer)!.add(id);
+      });
+    });
+
+    return records.map(({ webpackModule, id, chunkId }) => {
+      const module: ModuleData = {
+        id,
+        path: cleanModuleName(webpackModule.name, this.workspaceDirs),
+        size: webpackModule.size,
+        dependencies: Array.from(dependencies.get(id) || []),
+      };
+      if (entries.has(id)) {
+        module.isEntry = true;
+      }
+      const chunkName = chunkId !== undefined ? this.getChunkName(chunkId) : undefined;
+      if (chunkName !== undefined) {
+        module.chunk = chunkName;
+      }
+      return module;
+    });
+  }
+
+  /**
+   * Source of each module, when the stats were written with `source: true`
+   */
+  getModuleCode(): Map<ModuleId, string> {
+    const moduleCode = new Map<ModuleId, string>();
+    this.collectModules().forEach(({ webpackModule, id }) => {
+      if (typeof webpackModule.source === 'string') {
+        moduleCode.set(id, webpackModule.source);
+      }
+    });
+    return moduleCode;
+  }
+
+  /**
+   * Chunk breakdown, for builds split into more than one chunk
+   */
+  getChunks(modules: ModuleData[]): ChunkInfo[] | undefined {
+    const chunks = this.stats.chunks || [];
+    if (chunks.length < 2) {
+      return undefined;
+    }
+
+    return chunks
+      .map((chunk) => {
+        const name = this.getChunkName(chunk.id)!;
+        return {
+          name,
+          format: 'webpack' as const,
+          isInitial: !!chunk.initial,
+          size: chunk.size,
+          moduleCount: modules.filter((module) => module.chunk === name).length,
+        };
+      })
+      .sort((a, b) => Number(b.isInitial) - Number(a.isInitial));
+  }
+
+  /**
+   * Top-level modules that ended up in a chunk, with concatenated modules replaced by
+   * the modules inside them. Module IDs are kept; inner modules have none, so they are
+   * identified by their path.
+   */
+  private collectModules(): ModuleRecord[] {
+    if (this.records) {
+      return this.records;
+    }
+
+    const records: ModuleRecord[] = [];
+    const usedIds = new Set<ModuleId>();
+
+    const add = (webpackModule: WebpackModule, chunkId?: string | number) => {
+      let id: ModuleId =
+        webpackModule.id !== undefined && webpackModule.id !== null
+          ? webpackModule.id
+          : cleanModuleName(webpackModule.name, this.workspaceDirs);
+      if (usedIds.has(id)) {
+        id = webpackModule.identifier;
+      }
+      usedIds.add(id);
+      records.push({ webpackModule, id, chunkId });
+      this.idsByIdentifier.set(webpackModule.identifier, id);
+    };
+
+    this.stats.modules!.forEach((webpackModule) => {
+      const chunkIds = webpackModule.chunks || [];
+      if (webpackModule.orphan || chunkIds.length === 0) {
+        return;
+      }
+
+      if (webpackModule.modules && webpackModule.modules.length > 0) {
+        // The root module stands for the concatenated module: its ID, its reasons, and
+        // the reasons of other modules that point at it
+        const root = webpackModule.modules[0];
+        const reasons = [...(webpackModule.reasons || []), ...(root.reasons || [])];
+        add({ ...root, id: webpackModule.id, reasons }, chunkIds[0]);
+        this.idsByIdentifier.set(webpackModule.identifier, records[records.length - 1].id);
+        webpackModule.modules.slice(1).forEach((inner) => add({ ...inner, id: null }, chunkIds[0]));
+      } else {
+        add(webpackModule, chunkIds[0]);
+      }
+    });
+
+    this.records = records;
+    return records;
+  }
+
+  private resolveReason(reason: WebpackReason): ModuleId | undefined {
+    if (reason.moduleIdentifier) {
+      const id = this.idsByIdentifier.get(reason.moduleIdentifier);
+      if (id !== undefined) return id;
+    }
+    return reason.moduleId !== undefined && reason.moduleId !== null ? reason.moduleId : undefined;
+  }
+
+  private getChunkName(chunkId: string | number): string | undefined {
+    const chunk = (this.stats.chunks || []).find((candidate) => candidate.id === chunkId);
+    if (!chunk) {
+      return undefined;
+    }
+    const script = (chunk.files || []).find((file) => SCRIPT_EXTENSIONS.has(path.extname(file)));
+    return script || (chunk.names && chunk.names[0]) || String(chunk.id);
+  }
+
+  /**
+   * Emitted scripts of every chunk, relative to the output directory
+   */
+  private getScriptFiles(): string[] {
+    return (this.stats.chunks || []).flatMap((chunk) =>
+      (chunk.files || []).filter((file) => SCRIPT_EXTENSIONS.has(path.extname(file)))
+    );
+  }
+
+  /**
+   * Find the directory holding every emitted script. The output path recorded in the
+   * stats is absolute on the build machine, so the stats file's directory is tried too.
+   */
+  private findOutputDir(statsDir: string): string | undefined {
+    const files = this.getScriptFiles();
+    if (files.length === 0) {
+      return undefined;
+    }
+
+    return [this.stats.outputPath, statsDir].find(
+      (dir): dir is string => !!dir && files.every((file) => fs.existsSync(path.join(dir, file)))
+    );
+  }
+}
+
+/**
+ * Turn a webpack module name into a module path like those read from sourcemaps
+ */
+function cleanModuleName(name: string, workspaceDirs: string[]): string {
+  const request = name.slice(name.lastIndexOf('!') + 1).replace(CONCATENATED_SUFFIX_PATTERN, '');
+  const withoutQuery = request.split('?')[0];
+  return SourcemapParser.normalizeModulePath(withoutQuery, workspaceDirs).replace(/^\.\//, '');
+}
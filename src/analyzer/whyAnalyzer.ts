@@ -0,0 +1,185 @@
+import { ModuleData, ModuleId } from '../types';
+import { BundleParser } from './bundleParser';
+import { ModuleGraph } from './moduleGraph';
+
+export interface ImportChain {
+  modules: { id: ModuleId; path: string }[];
+}
+
+export interface DirectImporter {
+  id: ModuleId;
+  path: string;
+  imports: string[];
+}
+
+export interface WhyResult {
+  target: string;
+  targetType: 'package' | 'module';
+  targetModules: ModuleData[];
+  targetSize: number;
+  chains: ImportChain[];
+  directImporters: DirectImporter[];
+  otherImporterCount: number;
+  retainedSize: number;
+}
+
+export class WhyAnalyzer {
+  private graph: ModuleGraph;
+
+  constructor(graph: ModuleGraph) {
+    this.graph = graph;
+  }
+
+  /**
+   * Explain why a package or module is included in the bundle
+   */
+  explain(target: string, maxChains = 5): WhyResult {
+    const { targetType, targetModules } = this.findTargetModules(target);
+    if (targetModules.length === 0) {
+      throw new Error(`"${target}" was not found in the bundle`);
+    }
+
+    const targetIds = new Set(targetModules.map((m) => m.id));
+    const importers = this.findImporters(targetIds);
+    const directImporters = importers.filter(
+      (importer) => BundleParser.categorizeModule(importer.path) === 'user'
+    );
+
+    return {
+      target,
+      targetType,
+      targetModules,
+      targetSize: targetModules.reduce((sum, m) => sum + m.size, 0),
+      chains: this.findShortestChains(targetIds, maxChains),
+      directImporters,
+      otherImporterCount: importers.length - directImporters.length,
+      retainedSize: this.computeFreedSize(targetIds, directImporters),
+    };
+  }
+
+  private findTargetModules(target: string): {
+    targetType: 'package' | 'module';
+    targetModules: ModuleData[];
+  } {
+    const modules = this.graph.getModules();
+
+    const packageModules = modules.filter(
+      (module) => BundleParser.extractPackageName(module.path) === target
+    );
+    if (packageModules.length > 0) {
+      return { targetType: 'package', targetModules: packageModules };
+    }
+
+    const normalizedTarget = target.replace(/^\.\//, '');
+    const exactModule = modules.filter((module) => module.path === normalizedTarget);
+    if (exactModule.length > 0) {
+      return { targetType: 'module', targetModules: exactModule };
+    }
+
+    return {
+      targetType: 'module',
+      targetModules: modules.filter((module) => module.path.endsWith('/' + normalizedTarget)),
+    };
+  }
+
+  /**
+   * Find modules outside the target that require a target module directly
+   */
+  private findImporters(targetIds: Set<ModuleId>): DirectImporter[] {
+    const importers = new Map<ModuleId, DirectImporter>();
+
+    targetIds.forEach((targetId) => {
+      const targetPath = this.graph.getModule(targetId)!.path;
+
+      this.graph.getDependentIds(targetId).forEach((dependentId) => {
+        if (targetIds.has(dependentId)) return;
+
+        const dependent = this.graph.getModule(dependentId)!;
+        if (!importers.has(dependentId)) {
+          importers.set(dependentId, { id: dependentId, path: dependent.path, imports: [] });
+        }
+        importers.get(dependentId)!.imports.push(targetPath);
+      });
+    });
+
+    return Array.from(importers.values()).sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Breadth-first search from the entry modules, stopping at the first target module on
+   * each path, so every chain shows where the target is first pulled in
+   */
+  private findShortestChains(targetIds: Set<ModuleId>, maxChains: number): ImportChain[] {
+    const roots = this.getRoots();
+    const parents = new Map<ModuleId, ModuleId | null>();
+    const queue: ModuleId[] = [];
+    const reachedTargets: ModuleId[] = [];
+
+    roots.forEach((id) => {
+      parents.set(id, null);
+      queue.push(id);
+    });
+
+    for (let i = 0; i < queue.length && reachedTargets.length < maxChains; i++) {
+      const id = queue[i];
+      if (targetIds.has(id)) {
+        reachedTargets.push(id);
+        continue;
+      }
+
+      this.graph.getDependencyIds(id).forEach((dependencyId) => {
+        if (!parents.has(dependencyId)) {
+          parents.set(dependencyId, id);
+          queue.push(dependencyId);
+        }
+      });
+    }
+
+    return reachedTargets.map((targetId) => {
+      const chain: ImportChain = { modules: [] };
+      let current: ModuleId | null | undefined = targetId;
+      while (current !== null && current !== undefined) {
+        chain.modules.unshift({ id: current, path: this.graph.getModule(current)!.path });
+        current = parents.get(current);
+      }
+      return chain;
+    });
+  }
+
+  /**
+   * Bytes that would leave the bundle if the given importers stopped requiring the target
+   */
+  private computeFreedSize(targetIds: Set<ModuleId>, importers: DirectImporter[]): number {
+    const roots = this.getRoots();
+    const importerIds = new Set(importers.map((importer) => importer.id));
+
+    const before = this.graph.getReachable(roots);
+    const after = this.graph.getReachable(
+      roots,
+      (from, to) => importerIds.has(from) && targetIds.has(to)
+    );
+
+    let freed = 0;
+    before.forEach((id) => {
+      if (!after.has(id)) {
+        freed += this.graph.getModule(id)!.size;
+      }
+    });
+    return freed;
+  }
+
+  /**
+   * Entry modules, or modules nothing depends on when the bundle has no __r() calls
+   */
+  private getRoots(): ModuleId[] {
+    const entryIds = this.graph.getEntryIds();
+    if (entryIds.length > 0) {
+      return entryIds;
+    }
+
+    return this.graph
+      .getModules()
+      .filter((module) => this.graph.getDependentIds(module.id).length === 0)
+      .map((module) => module.id);
+  }
+}
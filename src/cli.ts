@@ -4,16 +4,30 @@ import { Command } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs';
 import chalk from 'chalk';
-import { BundleParser } from './analyzer/bundleParser';
+import { BundleLoader, LoadedBundle } from './analyzer/bundleLoader';
 import { DependencyAnalyzer } from './analyzer/dependencyAnalyzer';
+import { ExpoExportLoader } from './analyzer/expoExportLoader';
+import { CompressionAnalyzer } from './analyzer/compressionAnalyzer';
+import { ModuleGraph } from './analyzer/moduleGraph';
+import { StreamingProgress } from './analyzer/streamingBundleParser';
+import { WebpackStatsParser } from './analyzer/webpackStatsParser';
+import { WhyAnalyzer } from './analyzer/whyAnalyzer';
 import { OptimizationEngine } from './analyzer/optimizationEngine';
+import { StartupAnalyzer } from './analyzer/startupAnalyzer';
+import { IdenticalModuleAnalyzer } from './analyzer/identicalModuleAnalyzer';
+import { DevCodeAnalyzer } from './analyzer/devCodeAnalyzer';
+import { InlineDataAnalyzer } from './analyzer/inlineDataAnalyzer';
+import { LicenseAnalyzer } from './analyzer/licenseAnalyzer';
 import { DeadCodeAnalyzer } from './analyzer/deadCodeAnalyzer';
 import { TreeShakeAnalyzer } from './analyzer/treeShakeAnalyzer';
 import { Reporter } from './cli/reporter';
-import { findBundleFile, readBundleFile, writeJsonFile } from './utils/fileHelper';
+import { ensureDir, findBundleFile, writeJsonFile } from './utils/fileHelper';
+import { loadProjectConfig } from './utils/projectConfig';
+import { ReportGenerator } from './utils/reportGenerator';
 import { SourcemapParser } from './utils/sourcemapParser';
+import { findWorkspaces } from './utils/workspaces';
 import { startServer } from './server';
-import { AnalyzerConfig } from './types';
+import { AnalyzerConfig, BundleFormat, LicenseAnalysis } from './types';
 
 const program = new Command();
 
@@ -25,7 +39,7 @@ program
 program
   .command('analyze')
   .description('Analyze the React Native bundle')
-  .option('-b, --bundle <path>', 'Path to the bundle file')
+  .option('-b, --bundle <path>', 'Path to the bundle file, an expo export directory or webpack stats.json')
   .option('-s, --sourcemap <path>', 'Path to the sourcemap file (auto-detected if not provided)')
   .option('-p, --platform <platform>', 'Platform: ios or android', 'ios')
   .option('--dev', 'Development bundle', false)
@@ -33,8 +47,17 @@ program
   .option('--json', 'Output JSON report', false)
   .option('--open', 'Open interactive visualization', false)
   .option('--port <port>', 'Port for the visualization server', '8888')
+  .option('--size <metric>', 'Size metric for rankings: raw, gzip or brotli', 'raw')
+  .option('--stream', 'Read the bundle and sourcemap in chunks to keep memory bounded', false)
+  .option('--project <path>', 'Project root for package versions', process.cwd())
+  .option('--licenses', 'Include the licenses of bundled packages and check the license policy', false)
+  .option('--config <path>', 'Config file (defaults to rnbi.config.js, rnbi.config.json or .rnbundlerc.json in the project root)')
   .action(async (options) => {
     try {
+      if (!['raw', 'gzip', 'brotli'].includes(options.size)) {
+        throw new Error(`Unknown size metric "${options.size}". Use raw, gzip or brotli.`);
+      }
+
       const config: AnalyzerConfig = {
         bundlePath: options.bundle,
         sourcemapPath: options.sourcemap,
@@ -43,6 +66,11 @@ program
         outputDir: options.output,
         port: parseInt(options.port, 10),
         openBrowser: options.open,
+        sizeMetric: options.size,
+        stream: options.stream,
+        projectRoot: path.resolve(options.project),
+        licenses: options.licenses,
+        configPath: options.config,
       };
 
       await analyzeBundle(config, options.json);
@@ -52,6 +80,117 @@ program
     }
   });
 
+program
+  .command('why <target>')
+  .description('Explain why a package or module is included in the bundle')
+  .option('-b, --bundle <path>', 'Path to the bundle file, an expo export directory or webpack stats.json')
+  .option('-s, --sourcemap <path>', 'Path to the sourcemap file (auto-detected if not provided)')
+  .option('-p, --platform <platform>', 'Platform: ios or android', 'ios')
+  .option('--dev', 'Development bundle', false)
+  .option('--chains <count>', 'Maximum number of import chains to show', '5')
+  .option('--stream', 'Read the bundle and sourcemap in chunks to keep memory bounded', false)
+  .option('--json', 'Output JSON format', false)
+  .action(async (target, options) => {
+    try {
+      const chainCount = Number(options.chains);
+      if (!/^\d+$/.test(options.chains) || chainCount < 1) {
+        throw new Error(`Invalid chain count "${options.chains}". Use a positive whole number.`);
+      }
+
+      const config: AnalyzerConfig = {
+        bundlePath: options.bundle,
+        sourcemapPath: options.sourcemap,
+        platform: options.platform,
+        dev: options.dev,
+        stream: options.stream,
+      };
+
+      const { modules } = await loadBundle(config, options.json);
+      const graph = new ModuleGraph(modules);
+      const result = new WhyAnalyzer(graph).explain(target, chainCount);
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        Reporter.printWhy(result);
+      }
+    } catch (error) {
+      Reporter.printError((error as Error).message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('licenses')
+  .description('List the licenses of bundled packages, write third-party notices and check the license policy')
+  .option('-b, --bundle <path>', 'Path to the bundle file, an expo export directory or webpack stats.json')
+  .option('-s, --sourcemap <path>', 'Path to the sourcemap file (auto-detected if not provided)')
+  .option('-p, --platform <platform>', 'Platform: ios or android', 'ios')
+  .option('--dev', 'Development bundle', false)
+  .option('--stream', 'Read the bundle and sourcemap in chunks to keep memory bounded', false)
+  .option('--project <path>', 'Project root where packages are installed', process.cwd())
+  .option('--config <path>', 'Config file (defaults to rnbi.config.js, rnbi.config.json or .rnbundlerc.json in the project root)')
+  .option('-o, --output <path>', 'Output directory for the notices', '.rn-bundle-analyzer')
+  .option('--format <formats>', 'Notice formats to write: text, html and json, comma separated', 'text,html,json')
+  .option('--json', 'Output JSON format', false)
+  .action(async (options) => {
+    try {
+      const formats: string[] = options.format.split(',').map((format: string) => format.trim());
+      const unknownFormat = formats.find((format) => !['text', 'html', 'json'].includes(format));
+      if (unknownFormat) {
+        throw new Error(`Unknown notice format "${unknownFormat}". Use text, html or json.`);
+      }
+
+      const projectRoot = path.resolve(options.project);
+      const { licenses: policy } = loadProjectConfig(projectRoot, options.config);
+      const config: AnalyzerConfig = {
+        bundlePath: options.bundle,
+        sourcemapPath: options.sourcemap,
+        platform: options.platform,
+        dev: options.dev,
+        stream: options.stream,
+        projectRoot,
+      };
+
+      const { modules } = await loadBundle(config, options.json);
+      if (!options.json) {
+        Reporter.printLoading('Reading package licenses');
+      }
+      const licenses = new LicenseAnalyzer(modules, projectRoot, policy).analyze();
+
+      if (options.json) {
+        console.log(JSON.stringify(licenses, null, 2));
+      } else {
+        Reporter.printLicenses(licenses);
+      }
+
+      ensureDir(options.output);
+      const outputs: Record<string, [string, (licenses: LicenseAnalysis, path: string) => void]> = {
+        text: ['THIRD_PARTY_NOTICES.txt', ReportGenerator.generateNoticesText],
+        html: ['third-party-notices.html', ReportGenerator.generateNoticesHtml],
+        json: ['third-party-notices.json', ReportGenerator.generateNoticesJson],
+      };
+      formats.forEach((format) => {
+        const [fileName, generate] = outputs[format];
+        const outputPath = path.join(options.output, fileName);
+        generate(licenses, outputPath);
+        if (!options.json) {
+          Reporter.printSuccess(`Notices saved to ${outputPath}`);
+        }
+      });
+
+      if (licenses.violationCount > 0) {
+        if (!options.json) {
+          Reporter.printError(`${licenses.violationCount} package(s) violate the license policy`);
+        }
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      Reporter.printError((error as Error).message);
+      process.exit(1);
+    }
+  });
+
 program
   .command('server')
   .description('Start the visualization server')
@@ -192,12 +331,14 @@ program
 program
   .command('bundle-treemap')
   .description('Visualize bundle size with interactive treemap')
-  .option('-b, --bundle <path>', 'Path to the bundle file')
+  .option('-b, --bundle <path>', 'Path to the bundle file, an expo export directory or webpack stats.json')
   .option('-s, --sourcemap <path>', 'Path to the sourcemap file (auto-detected if not provided)')
   .option('-p, --platform <platform>', 'Platform: ios or android', 'ios')
   .option('--dev', 'Development bundle', false)
   .option('--open', 'Open web visualization', true)
   .option('--port <port>', 'Port for visualization server', '8891')
+  .option('--stream', 'Read the bundle and sourcemap in chunks to keep memory bounded', false)
+  .option('--project <path>', 'Project root for package versions', process.cwd())
   .action(async (options) => {
     try {
       const config: AnalyzerConfig = {
@@ -208,6 +349,8 @@ program
         outputDir: '.rn-bundle-analyzer',
         port: parseInt(options.port, 10),
         openBrowser: options.open,
+        stream: options.stream,
+        projectRoot: path.resolve(options.project),
       };
 
       // Run bundle analysis
@@ -420,6 +563,7 @@ program
           outputDir,
           port: parseInt(options.port, 10),
           openBrowser: false,
+          projectRoot,
         };
         await analyzeBundleForTreemap(config);
       } catch (error) {
@@ -497,11 +641,51 @@ program
     }
   });
 
-async function analyzeBundle(config: AnalyzerConfig, outputJson: boolean): Promise<void> {
-  Reporter.printLoading('Analyzing bundle');
+function describeBundleFormat(format: BundleFormat): string {
+  switch (format) {
+    case 'hermes':
+      return ' (Hermes bytecode)';
+    case 'ram-indexed':
+      return ' (indexed RAM bundle)';
+    case 'ram-file':
+      return ' (file RAM bundle)';
+    case 'webpack':
+      return ' (webpack stats)';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Find the bundle and its sourcemap, then parse the bundle into modules. Large bundles,
+ * or any bundle with --stream, are read in chunks instead of being loaded whole.
+ * An `expo export` directory is loaded chunk by chunk and combined, and webpack stats
+ * from Re.Pack builds are read in place of a bundle. `quiet` leaves out every progress
+ * line and warning, for commands that print JSON.
+ */
+async function loadBundle(config: AnalyzerConfig, quiet = false): Promise<LoadedBundle> {
+  // Keep the files of monorepo workspace packages apart from the app's own code
+  const workspaceDirs = findWorkspaces(config.projectRoot).map((workspace) => workspace.dir);
 
   // Find bundle file
   let bundlePath = config.bundlePath;
+  if (bundlePath && ExpoExportLoader.isExpoExport(bundlePath)) {
+    const platform = config.platform || 'ios';
+    if (!quiet) {
+      Reporter.printLoading(`Loading Expo export for ${platform}`);
+    }
+    const loaded = ExpoExportLoader.load(bundlePath, platform, workspaceDirs);
+    if (!quiet) {
+      Reporter.printSuccess(`Loaded ${loaded.chunks!.length} chunk(s) from ${bundlePath}`);
+    }
+    return reportLoadedBundle(loaded, quiet);
+  }
+  if (bundlePath && WebpackStatsParser.isWebpackStats(bundlePath)) {
+    if (!quiet) {
+      Reporter.printLoading('Reading webpack stats');
+    }
+    return reportLoadedBundle(WebpackStatsParser.load(bundlePath, workspaceDirs), quiet);
+  }
   if (!bundlePath) {
     const foundPath = findBundleFile(config.platform, config.dev);
     if (!foundPath) {
@@ -514,7 +698,9 @@ async function analyzeBundle(config: AnalyzerConfig, outputJson: boolean): Promi
     bundlePath = foundPath;
   }
 
-  Reporter.printSuccess(`Found bundle: ${bundlePath}`);
+  if (!quiet) {
+    Reporter.printSuccess(`Found bundle: ${bundlePath}`);
+  }
 
   // Try to find and load sourcemap
   let sourcemapParser: SourcemapParser | undefined;
@@ -527,36 +713,141 @@ async function analyzeBundle(config: AnalyzerConfig, outputJson: boolean): Promi
     }
   }
 
+  const stream = config.stream || BundleLoader.shouldStream(bundlePath, sourcemapPath);
+
   if (sourcemapPath && fs.existsSync(sourcemapPath)) {
-    Reporter.printLoading('Loading sourcemap');
-    try {
-      sourcemapParser = new SourcemapParser(sourcemapPath);
-      sourcemapParser.load();
-      Reporter.printSuccess(`Loaded sourcemap: ${sourcemapPath}`);
-    } catch (error) {
-      Reporter.printError(`Failed to load sourcemap: ${(error as Error).message}`);
+    if (!stream) {
+      if (!quiet) {
+        Reporter.printLoading('Loading sourcemap');
+      }
+      try {
+        sourcemapParser = new SourcemapParser(sourcemapPath);
+        sourcemapParser.load();
+        if (!quiet) {
+          Reporter.printSuccess(`Loaded sourcemap: ${sourcemapPath}`);
+        }
+      } catch (error) {
+        if (!quiet) {
+          Reporter.printError(`Failed to load sourcemap: ${(error as Error).message}`);
+        }
+      }
     }
-  } else if (!sourcemapPath) {
+  } else if (!sourcemapPath && !quiet) {
     console.log(chalk.yellow('\n⚠️  No sourcemap found. Package detection will be limited.'));
     console.log(chalk.gray('   Generate bundle with sourcemap for detailed analysis:'));
     console.log(chalk.gray('   npx react-native bundle ... --sourcemap-output bundle.map\n'));
   }
 
   // Parse bundle
-  Reporter.printLoading('Parsing bundle');
-  const bundleContent = readBundleFile(bundlePath);
-  const parser = new BundleParser(bundleContent, sourcemapParser);
-  const modules = parser.parse();
+  let loaded: LoadedBundle;
+  if (stream) {
+    if (!quiet) {
+      Reporter.printLoading('Streaming bundle');
+    }
+    loaded = await BundleLoader.loadStreaming(bundlePath, {
+      sourcemapPath: sourcemapPath && fs.existsSync(sourcemapPath) ? sourcemapPath : undefined,
+      workspaceDirs,
+      onProgress: quiet ? undefined : createProgressPrinter(),
+    });
+  } else {
+    if (!quiet) {
+      Reporter.printLoading('Parsing bundle');
+    }
+    loaded = BundleLoader.load(bundlePath, sourcemapParser, workspaceDirs);
+  }
 
-  Reporter.printSuccess(`Parsed ${modules.length} modules`);
+  return reportLoadedBundle(loaded, quiet);
+}
+
+/**
+ * Print what was parsed, and any warnings the parser raised
+ */
+function reportLoadedBundle(loaded: LoadedBundle, quiet: boolean): LoadedBundle {
+  if (quiet) {
+    return loaded;
+  }
+
+  Reporter.printSuccess(
+    `Parsed ${loaded.modules.length} modules${describeBundleFormat(loaded.format)}`
+  );
+
+  if (loaded.isDevBundle) {
+    Reporter.printDevBundleBanner();
+  }
+
+  if (loaded.warnings && loaded.warnings.length > 0) {
+    console.log(
+      chalk.yellow(
+        `⚠️  ${loaded.warnings.length} module(s) could not be delimited exactly, their sizes may be approximate:`
+      )
+    );
+    loaded.warnings.slice(0, 5).forEach((warning) => {
+      const moduleLabel = warning.moduleId !== undefined ? `module ${warning.moduleId}` : 'bundle';
+      console.log(chalk.gray(`   ${moduleLabel} (byte ${warning.offset}): ${warning.message}`));
+    });
+    console.log('');
+  }
+
+  return loaded;
+}
+
+/**
+ * Print read progress, once per percent per phase
+ */
+function createProgressPrinter(): (progress: StreamingProgress) => void {
+  let lastStep = '';
+  return (progress) => {
+    const percent =
+      progress.totalBytes > 0 ? Math.floor((progress.bytesRead / progress.totalBytes) * 100) : 100;
+    const step = `${progress.phase}:${percent}`;
+    if (step === lastStep) return;
+    lastStep = step;
+
+    Reporter.printProgress(
+      progress.phase === 'sourcemap' ? 'Reading sourcemap' : 'Reading bundle',
+      progress.bytesRead,
+      progress.totalBytes
+    );
+  };
+}
+
+async function analyzeBundle(config: AnalyzerConfig, outputJson: boolean): Promise<void> {
+  // Read the config first so a broken config fails before the bundle is parsed
+  const projectConfig = loadProjectConfig(config.projectRoot, config.configPath);
+
+  Reporter.printLoading('Analyzing bundle');
+
+  const loaded = await loadBundle(config);
+  const { modules } = loaded;
 
   // Get project root
-  const projectRoot = process.cwd();
+  const projectRoot = config.projectRoot || process.cwd();
 
   // Analyze dependencies
   Reporter.printLoading('Analyzing dependencies');
-  const analyzer = new DependencyAnalyzer(modules);
+  const analyzer = new DependencyAnalyzer(modules, projectRoot);
   const analysis = analyzer.analyze();
+  BundleLoader.applyTo(analysis, loaded);
+
+  Reporter.printLoading('Computing compressed sizes');
+  CompressionAnalyzer.forBundle(loaded).analyze(analysis, modules);
+
+  Reporter.printLoading('Estimating startup modules');
+  analysis.startup = StartupAnalyzer.forBundle(loaded).analyze();
+
+  Reporter.printLoading('Finding identical modules');
+  analysis.identicalModules = IdenticalModuleAnalyzer.forBundle(loaded).analyze();
+
+  Reporter.printLoading('Looking for development-only code');
+  analysis.devCode = DevCodeAnalyzer.forBundle(loaded).analyze();
+
+  Reporter.printLoading('Finding inline data');
+  analysis.inlineData = InlineDataAnalyzer.forBundle(loaded).analyze();
+
+  if (config.licenses) {
+    Reporter.printLoading('Reading package licenses');
+    analysis.licenses = new LicenseAnalyzer(modules, projectRoot, projectConfig.licenses).analyze();
+  }
 
   // Add project name from package.json
   try {
@@ -570,7 +861,10 @@ async function analyzeBundle(config: AnalyzerConfig, outputJson: boolean): Promi
   }
 
   // Generate optimizations
-  analysis.optimizations = OptimizationEngine.generateOptimizations(analysis);
+  analysis.optimizations = OptimizationEngine.generateOptimizations(
+    analysis,
+    projectConfig.optimizationRules
+  );
 
   // Analyze dead code (disabled by default due to accuracy issues)
   // Reporter.printLoading('Detecting unused code');
@@ -588,7 +882,13 @@ async function analyzeBundle(config: AnalyzerConfig, outputJson: boolean): Promi
   Reporter.printSuccess('Analysis complete');
 
   // Print report
-  Reporter.printReport(analysis);
+  Reporter.printReport(analysis, config.sizeMetric);
+  if (analysis.licenses && analysis.licenses.violationCount > 0) {
+    Reporter.printError(
+      `${analysis.licenses.violationCount} package(s) violate the license policy`
+    );
+    process.exitCode = 1;
+  }
 
   // Save JSON report
   if (outputJson || config.openBrowser) {
@@ -615,60 +915,17 @@ async function analyzeBundle(config: AnalyzerConfig, outputJson: boolean): Promi
 async function analyzeBundleForTreemap(config: AnalyzerConfig): Promise<void> {
   Reporter.printLoading('Analyzing bundle for treemap');
 
-  // Find bundle file
-  let bundlePath = config.bundlePath;
-  if (!bundlePath) {
-    const foundPath = findBundleFile(config.platform, config.dev);
-    if (!foundPath) {
-      throw new Error(
-        `Could not find bundle file. Please specify the path with --bundle option.\n` +
-          `Or generate a bundle first:\n` +
-          `  npx react-native bundle --platform ${config.platform} --dev false --entry-file index.js --bundle-output ./index.${config.platform}.bundle`
-      );
-    }
-    bundlePath = foundPath;
-  }
-
-  Reporter.printSuccess(`Found bundle: ${bundlePath}`);
-
-  // Try to find and load sourcemap
-  let sourcemapParser: SourcemapParser | undefined;
-  let sourcemapPath = config.sourcemapPath;
-
-  if (!sourcemapPath) {
-    const foundSourcemap = SourcemapParser.findSourcemap(bundlePath);
-    if (foundSourcemap) {
-      sourcemapPath = foundSourcemap;
-    }
-  }
-
-  if (sourcemapPath && fs.existsSync(sourcemapPath)) {
-    Reporter.printLoading('Loading sourcemap');
-    try {
-      sourcemapParser = new SourcemapParser(sourcemapPath);
-      sourcemapParser.load();
-      Reporter.printSuccess(`Loaded sourcemap: ${sourcemapPath}`);
-    } catch (error) {
-      Reporter.printError(`Failed to load sourcemap: ${(error as Error).message}`);
-    }
-  } else if (!sourcemapPath) {
-    console.log(chalk.yellow('\n⚠️  No sourcemap found. Package detection will be limited.'));
-    console.log(chalk.gray('   Generate bundle with sourcemap for detailed analysis:'));
-    console.log(chalk.gray('   npx react-native bundle ... --sourcemap-output bundle.map\n'));
-  }
-
-  // Parse bundle
-  Reporter.printLoading('Parsing bundle');
-  const bundleContent = readBundleFile(bundlePath);
-  const parser = new BundleParser(bundleContent, sourcemapParser);
-  const modules = parser.parse();
-
-  Reporter.printSuccess(`Parsed ${modules.length} modules`);
+  const loaded = await loadBundle(config);
+  const { modules } = loaded;
 
   // Analyze dependencies
   Reporter.printLoading('Analyzing dependencies');
-  const analyzer = new DependencyAnalyzer(modules);
+  const analyzer = new DependencyAnalyzer(modules, config.projectRoot);
   const analysis = analyzer.analyze();
+  BundleLoader.applyTo(analysis, loaded);
+
+  Reporter.printLoading('Computing compressed sizes');
+  CompressionAnalyzer.forBundle(loaded).analyze(analysis, modules);
 
   Reporter.printSuccess('Analysis complete');
 
@@ -1,18 +1,56 @@
 import chalk from 'chalk';
 import Table from 'cli-table3';
-import { BundleAnalysis } from '../types';
+import {
+  BundleAnalysis,
+  DevCodeAnalysis,
+  IdenticalModuleAnalysis,
+  InlineDataAnalysis,
+  LicenseAnalysis,
+  SizeMetric,
+  StartupAnalysis,
+} from '../types';
+import { CompressionAnalyzer } from '../analyzer/compressionAnalyzer';
+import { WhyResult } from '../analyzer/whyAnalyzer';
 import { formatBytes } from '../utils/fileHelper';
 
 export class Reporter {
   /**
    * Print a beautiful analysis report to the console
    */
-  static printReport(analysis: BundleAnalysis): void {
+  static printReport(analysis: BundleAnalysis, sizeMetric: SizeMetric = 'raw'): void {
     console.log('\n');
     this.printHeader();
+    if (analysis.isDevBundle) {
+      this.printDevBundleBanner();
+    }
     this.printSummary(analysis);
-    this.printTopPackages(analysis);
+    // A dev bundle already has its banner
+    if (analysis.devCode && !analysis.devCode.isDevBundle && analysis.devCode.findings.length > 0) {
+      this.printDevCode(analysis.devCode);
+    }
+    if (analysis.chunks) {
+      this.printChunks(analysis);
+    }
+    if (analysis.workspaceSize) {
+      this.printWorkspaces(analysis);
+    }
+    this.printTopPackages(analysis, sizeMetric);
+    if (analysis.directDependencies) {
+      this.printDirectDependencies(analysis);
+    }
     this.printDuplicates(analysis);
+    if (analysis.identicalModules && analysis.identicalModules.groups.length > 0) {
+      this.printIdenticalModules(analysis.identicalModules);
+    }
+    if (analysis.inlineData && analysis.inlineData.items.length > 0) {
+      this.printInlineData(analysis.inlineData);
+    }
+    if (analysis.startup) {
+      this.printStartup(analysis.startup);
+    }
+    if (analysis.licenses) {
+      this.printLicenses(analysis.licenses);
+    }
 
     // Print new sections
     if (analysis.deadCode) {
@@ -37,9 +75,26 @@ export class Reporter {
     console.log(chalk.cyan(header));
   }
 
+  /**
+   * Warn that a development bundle's sizes say little about production
+   */
+  static printDevBundleBanner(): void {
+    console.log(
+      chalk.yellow.bold('\n⚠️  Development bundle detected\n') +
+        chalk.yellow(
+          '   Sizes include dev-only code and unminified output, and are not representative\n' +
+            '   of production. Analyze a bundle built with --dev false for real numbers.\n'
+        )
+    );
+  }
+
   private static printSummary(analysis: BundleAnalysis): void {
     const totalSize = formatBytes(analysis.totalSize);
     const yourCodePercentage = ((analysis.yourCodeSize / analysis.totalSize) * 100).toFixed(1);
+    const workspacePercentage = (
+      ((analysis.workspaceSize || 0) / analysis.totalSize) *
+      100
+    ).toFixed(1);
     const nodeModulesPercentage = (
       (analysis.nodeModulesSize / analysis.totalSize) *
       100
@@ -81,6 +136,16 @@ export class Reporter {
           yourCodePercentage + '%'
         )} ${chalk.gray('(' + formatBytes(analysis.yourCodeSize) + ')')}`,
       ],
+      ...(analysis.workspaceSize
+        ? [
+            [
+              chalk.cyan('Workspace Packages'),
+              `${this.createProgressBar(parseFloat(workspacePercentage), 30)} ${chalk.yellow(
+                workspacePercentage + '%'
+              )} ${chalk.gray('(' + formatBytes(analysis.workspaceSize) + ')')}`,
+            ],
+          ]
+        : []),
       [
         chalk.cyan('node_modules'),
         `${this.createProgressBar(parseFloat(nodeModulesPercentage), 30)} ${chalk.yellow(
@@ -95,35 +160,228 @@ export class Reporter {
       ]
     );
 
+    if (analysis.runtimeSize) {
+      const runtimePercentage = ((analysis.runtimeSize / analysis.totalSize) * 100).toFixed(1);
+      summaryTable.push([
+        chalk.cyan('Runtime / Polyfills'),
+        `${this.createProgressBar(parseFloat(runtimePercentage), 30)} ${chalk.yellow(
+          runtimePercentage + '%'
+        )} ${chalk.gray('(' + formatBytes(analysis.runtimeSize) + ')')}`,
+      ]);
+    }
+
+    if (analysis.gzipSize !== undefined && analysis.brotliSize !== undefined) {
+      summaryTable.push(
+        [chalk.cyan('Gzip Size'), formatBytes(analysis.gzipSize)],
+        [chalk.cyan('Brotli Size'), formatBytes(analysis.brotliSize)]
+      );
+    }
+
+    if (analysis.unmappedSize) {
+      summaryTable.push([chalk.cyan('Unmapped Bytes'), chalk.gray(formatBytes(analysis.unmappedSize))]);
+    }
+
+    if (analysis.unexplainedSize) {
+      summaryTable.push([
+        chalk.cyan('Unexplained Bytes'),
+        chalk.gray(formatBytes(analysis.unexplainedSize)),
+      ]);
+    }
+
+    if (analysis.startupCodeSize) {
+      summaryTable.push([chalk.cyan('RAM Bundle Startup Code'), formatBytes(analysis.startupCodeSize)]);
+    }
+
+    if (analysis.chunks) {
+      summaryTable.push(
+        [chalk.cyan('Initial Load'), formatBytes(analysis.initialSize || 0)],
+        [chalk.cyan('Lazy Chunks'), formatBytes(analysis.lazySize || 0)]
+      );
+    }
+
     console.log(summaryTable.toString());
   }
 
-  private static printTopPackages(analysis: BundleAnalysis): void {
-    console.log(chalk.bold('\n📊 Top 10 Dependencies\n'));
+  /**
+   * List the chunks of a multi-bundle export, the initial one first
+   */
+  private static printChunks(analysis: BundleAnalysis): void {
+    console.log(chalk.bold('\n🧩 Chunks\n'));
 
     const table = new Table({
       head: [
-        chalk.cyan.bold('Package'),
+        chalk.cyan.bold('Chunk'),
+        chalk.cyan.bold('Load'),
+        chalk.cyan.bold('Size'),
+        chalk.cyan.bold('Gzip'),
+        chalk.cyan.bold('Modules'),
+      ],
+      colWidths: [50, 10, 12, 12, 10],
+    });
+
+    analysis.chunks!.forEach((chunk) => {
+      table.push([
+        chunk.name,
+        chunk.isInitial ? chalk.green('initial') : chalk.gray('lazy'),
+        formatBytes(chunk.size),
+        chunk.gzipSize !== undefined ? formatBytes(chunk.gzipSize) : '-',
+        chunk.moduleCount.toString(),
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  /**
+   * Show the size of each monorepo workspace package in the bundle
+   */
+  private static printWorkspaces(analysis: BundleAnalysis): void {
+    console.log(chalk.bold('\n🗂️  Workspace Packages\n'));
+
+    const table = new Table({
+      head: [
+        chalk.cyan.bold('Workspace'),
+        chalk.cyan.bold('Directory'),
         chalk.cyan.bold('Size'),
         chalk.cyan.bold('% of Bundle'),
         chalk.cyan.bold('Modules'),
       ],
-      colWidths: [35, 15, 15, 10],
+      colWidths: [30, 30, 12, 13, 10],
     });
 
-    const top10 = analysis.packages.slice(0, 10);
+    analysis.packages
+      .filter((pkg) => pkg.workspace)
+      .forEach((pkg) => {
+        table.push([
+          pkg.name,
+          chalk.gray(pkg.workspace!),
+          formatBytes(pkg.size),
+          pkg.percentage.toFixed(2) + '%',
+          pkg.modules.length.toString(),
+        ]);
+      });
+
+    console.log(table.toString());
+  }
+
+  private static printTopPackages(analysis: BundleAnalysis, sizeMetric: SizeMetric): void {
+    const metricLabel = sizeMetric === 'gzip' ? 'Gzip' : sizeMetric === 'brotli' ? 'Brotli' : null;
+    console.log(
+      chalk.bold(`\n📊 Top 10 Dependencies${metricLabel ? ` by ${metricLabel} Size` : ''}\n`)
+    );
+
+    const table = new Table({
+      head: [
+        chalk.cyan.bold('Package'),
+        chalk.cyan.bold('Self'),
+        ...(metricLabel ? [chalk.cyan.bold(metricLabel)] : []),
+        chalk.cyan.bold('Retained'),
+        chalk.cyan.bold('Shared'),
+        chalk.cyan.bold('% of Bundle'),
+        chalk.cyan.bold('Modules'),
+      ],
+      colWidths: [35, 12, ...(metricLabel ? [12] : []), 12, 12, 13, 10],
+    });
+
+    const bundleSize = CompressionAnalyzer.getSize(analysis, sizeMetric);
+    const top10 = [...analysis.packages]
+      .sort(
+        (a, b) =>
+          CompressionAnalyzer.getSize(b, sizeMetric) - CompressionAnalyzer.getSize(a, sizeMetric)
+      )
+      .slice(0, 10);
 
     top10.forEach((pkg, index) => {
       const position = chalk.gray(`${index + 1}.`);
       const name = pkg.name + (pkg.version ? chalk.gray(` (${pkg.version})`) : '');
       const size = formatBytes(pkg.size);
-      const percentage = pkg.percentage.toFixed(2) + '%';
+      const metricSize = metricLabel ? [formatBytes(CompressionAnalyzer.getSize(pkg, sizeMetric))] : [];
+      const retained = formatBytes(pkg.retainedSize ?? pkg.size);
+      const shared = formatBytes(pkg.sharedSize ?? 0);
+      const percentage = metricLabel
+        ? ((CompressionAnalyzer.getSize(pkg, sizeMetric) / bundleSize) * 100).toFixed(2) + '%'
+        : pkg.percentage.toFixed(2) + '%';
       const modules = pkg.modules.length.toString();
 
-      table.push([`${position} ${name}`, size, percentage, modules]);
+      table.push([`${position} ${name}`, size, ...metricSize, retained, shared, percentage, modules]);
+    });
+
+    console.log(table.toString());
+  }
+
+  /**
+   * Show what each dependency in package.json costs with the packages it brings in
+   */
+  private static printDirectDependencies(analysis: BundleAnalysis): void {
+    console.log(chalk.bold('\n💰 Cost per Direct Dependency\n'));
+
+    const table = new Table({
+      head: [
+        chalk.cyan.bold('Dependency'),
+        chalk.cyan.bold('Own'),
+        chalk.cyan.bold('Transitive'),
+        chalk.cyan.bold('Shared'),
+        chalk.cyan.bold('Total'),
+        chalk.cyan.bold('Brings In'),
+      ],
+      colWidths: [35, 12, 12, 12, 12, 35],
+    });
+
+    analysis.directDependencies!.slice(0, 15).forEach((dependency) => {
+      const largest = dependency.transitive
+        .slice(0, 3)
+        .map((transitive) => transitive.name + (transitive.sharedWith.length > 0 ? '*' : ''));
+      const more = dependency.transitive.length - largest.length;
+      table.push([
+        dependency.name + (dependency.version ? chalk.gray(` (${dependency.version})`) : ''),
+        formatBytes(dependency.size),
+        formatBytes(dependency.exclusiveSize),
+        formatBytes(dependency.sharedSize),
+        chalk.yellow(formatBytes(dependency.totalSize)),
+        chalk.gray(largest.join(', ') + (more > 0 ? ` +${more}` : '')),
+      ]);
     });
 
     console.log(table.toString());
+    console.log(
+      chalk.gray('   Shared: an even split of packages other dependencies also bring in (marked *)')
+    );
+  }
+
+  /**
+   * Show how much of the bundle is estimated to run at launch, and the largest of it
+   */
+  private static printStartup(startup: StartupAnalysis): void {
+    const measured = startup.eagerSize + startup.deferredSize;
+    const eagerPercentage = measured > 0 ? ((startup.eagerSize / measured) * 100).toFixed(1) : '0';
+
+    console.log(chalk.bold('\n🚀 Startup (estimated)\n'));
+    console.log(
+      `   Evaluated at launch: ${chalk.yellow(formatBytes(startup.eagerSize))} in ${
+        startup.eagerModuleCount
+      } modules (${eagerPercentage}%)`
+    );
+    console.log(
+      `   Deferred by inline requires: ${chalk.green(formatBytes(startup.deferredSize))} in ${
+        startup.deferredModuleCount
+      } modules`
+    );
+    if (startup.unscannedModuleCount > 0) {
+      console.log(
+        chalk.gray(
+          `   ${startup.unscannedModuleCount} module(s) had no code to scan; all their dependencies were counted as eager`
+        )
+      );
+    }
+
+    const table = new Table({
+      head: [chalk.cyan.bold('Largest Startup Modules'), chalk.cyan.bold('Size')],
+      colWidths: [60, 12],
+    });
+    startup.eagerModules.slice(0, 10).forEach((module) => {
+      table.push([module.path, formatBytes(module.size)]);
+    });
+    console.log(table.toString());
   }
 
   private static printDuplicates(analysis: BundleAnalysis): void {
@@ -139,13 +397,13 @@ export class Reporter {
 
     const table = new Table({
       head: [chalk.cyan.bold('Package'), chalk.cyan.bold('Versions'), chalk.cyan.bold('Waste')],
-      colWidths: [35, 15, 15],
+      colWidths: [35, 25, 15],
     });
 
     analysis.duplicates.forEach((duplicate) => {
       table.push([
         chalk.yellow(duplicate.name),
-        duplicate.versions.length.toString(),
+        duplicate.versions.join(', '),
         chalk.red(formatBytes(duplicate.totalWaste)),
       ]);
     });
@@ -153,6 +411,155 @@ export class Reporter {
     console.log(table.toString());
   }
 
+  /**
+   * Show groups of modules bundled with the same code at different paths
+   */
+  private static printIdenticalModules(identicalModules: IdenticalModuleAnalysis): void {
+    console.log(chalk.bold('\n🧬 Identical Modules\n'));
+
+    const table = new Table({
+      head: [chalk.cyan.bold('Module'), chalk.cyan.bold('Copies'), chalk.cyan.bold('Waste')],
+      colWidths: [60, 10, 15],
+    });
+
+    identicalModules.groups.slice(0, 10).forEach((group) => {
+      const owners = group.packages.length > 0 ? group.packages.join(', ') : 'your code';
+      table.push([
+        group.modules[0].path + chalk.gray(`\n${owners}${group.exact ? '' : ' (near-identical)'}`),
+        String(group.modules.length),
+        chalk.red(formatBytes(group.wastedSize)),
+      ]);
+    });
+
+    console.log(table.toString());
+    console.log(
+      chalk.gray(
+        `   ${identicalModules.groups.length} group(s), ${formatBytes(
+          identicalModules.totalWaste
+        )} in extra copies`
+      )
+    );
+  }
+
+  /**
+   * Show the largest data literals embedded in module code
+   */
+  private static printInlineData(inlineData: InlineDataAnalysis): void {
+    console.log(chalk.bold('\n🗃️  Inline Data\n'));
+
+    const table = new Table({
+      head: [chalk.cyan.bold('Module'), chalk.cyan.bold('Data'), chalk.cyan.bold('Size')],
+      colWidths: [50, 30, 15],
+    });
+
+    inlineData.items.slice(0, 10).forEach((item) => {
+      const kind = item.mimeType ? `${item.kind} (${item.mimeType})` : item.kind;
+      const asAsset =
+        item.assetSize !== undefined
+          ? chalk.yellow(`\n${formatBytes(item.assetSize)} as an asset`)
+          : '';
+      table.push([item.path, kind + asAsset, formatBytes(item.size)]);
+    });
+
+    console.log(table.toString());
+    console.log(
+      chalk.gray(
+        `   ${inlineData.items.length} literal(s), ${formatBytes(inlineData.totalSize)} in total`
+      )
+    );
+    if (inlineData.assetCandidateCount > 0) {
+      console.log(
+        chalk.yellow(
+          `   ${inlineData.assetCandidateCount} base64 image(s) would be smaller as asset files loaded with require()`
+        )
+      );
+    }
+  }
+
+  /**
+   * Show dev-only code that made it into a production bundle
+   */
+  private static printDevCode(devCode: DevCodeAnalysis): void {
+    console.log(chalk.red.bold('\n🚧 Development Code in Production Bundle\n'));
+
+    const table = new Table({
+      head: [chalk.red.bold('Code'), chalk.red.bold('Kind'), chalk.red.bold('Size')],
+      colWidths: [50, 25, 15],
+    });
+
+    devCode.findings.forEach((finding) => {
+      const details =
+        finding.kind === 'dev-branch'
+          ? `${finding.branchCount} branch(es)`
+          : `${finding.moduleCount} module(s)`;
+      table.push([
+        finding.name + chalk.gray(`\n${details}`),
+        finding.description,
+        chalk.red(formatBytes(finding.size)),
+      ]);
+    });
+
+    console.log(table.toString());
+    console.log(chalk.red(`   ${formatBytes(devCode.totalSize)} of dev-only code`));
+    if (devCode.unscannedModuleCount > 0) {
+      console.log(
+        chalk.gray(
+          `   ${devCode.unscannedModuleCount} module(s) had no code to scan for __DEV__ branches`
+        )
+      );
+    }
+  }
+
+  /**
+   * Show the licenses of bundled packages, with any that break the license policy
+   */
+  static printLicenses(licenses: LicenseAnalysis): void {
+    console.log(chalk.bold('\n📜 Licenses\n'));
+
+    const counts = new Map<string, number>();
+    licenses.packages.forEach((pkg) => counts.set(pkg.license, (counts.get(pkg.license) || 0) + 1));
+    const table = new Table({
+      head: [chalk.cyan.bold('License'), chalk.cyan.bold('Packages')],
+      colWidths: [45, 12],
+    });
+    Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .forEach(([license, count]) => {
+        table.push([license, String(count)]);
+      });
+    console.log(table.toString());
+
+    if (licenses.unknownCount > 0) {
+      console.log(
+        chalk.yellow(
+          `   ${licenses.unknownCount} package(s) declare no license in their package.json`
+        )
+      );
+    }
+    if (licenses.violationCount === 0) {
+      if (licenses.policy) {
+        console.log(chalk.green('   All bundled packages comply with the license policy'));
+      }
+      return;
+    }
+
+    console.log(chalk.bold.red(`\n🚫 License Policy Violations (${licenses.violationCount})\n`));
+    const violations = new Table({
+      head: [chalk.cyan.bold('Package'), chalk.cyan.bold('License'), chalk.cyan.bold('Reason')],
+      colWidths: [35, 25, 45],
+    });
+    licenses.packages
+      .filter((pkg) => pkg.violation)
+      .forEach((pkg) => {
+        violations.push([
+          pkg.name + (pkg.version ? chalk.gray(` (${pkg.version})`) : ''),
+          chalk.red(pkg.license),
+          pkg.violation!,
+        ]);
+      });
+    console.log(violations.toString());
+  }
+
   private static printOptimizations(analysis: BundleAnalysis): void {
     if (analysis.optimizations.length === 0) {
       console.log(
@@ -168,9 +575,14 @@ export class Reporter {
       const icon = opt.severity === 'high' ? '🔴' : opt.severity === 'medium' ? '🟡' : '🟢';
       const savings = formatBytes(opt.potentialSavings);
 
+      const title = opt.rule.startsWith('dev-code:')
+        ? chalk.red.bold(opt.suggestion)
+        : chalk.bold(opt.suggestion);
+
       console.log(
-        `${icon} ${chalk.bold(opt.suggestion)}\n` +
+        `${icon} ${title}\n` +
           `   ${chalk.gray('Package:')} ${opt.package}\n` +
+          `   ${chalk.gray('Rule:')} ${opt.rule} ${chalk.gray(`(${opt.source})`)}\n` +
           `   ${chalk.gray('Current size:')} ${formatBytes(opt.currentSize)}\n` +
           `   ${chalk.green('Potential savings:')} ${chalk.green.bold(savings)}\n`
       );
@@ -190,6 +602,64 @@ export class Reporter {
     return `[${bar}]`;
   }
 
+  /**
+   * Print why a package or module is included in the bundle
+   */
+  static printWhy(result: WhyResult): void {
+    console.log(
+      chalk.bold(`\n🔍 Why is ${chalk.cyan(result.target)} in the bundle?\n`) +
+        chalk.gray(
+          `   ${result.targetType === 'package' ? 'Package' : 'Module'} size: ${formatBytes(
+            result.targetSize
+          )} across ${result.targetModules.length} module(s)\n`
+        )
+    );
+
+    if (result.chains.length === 0) {
+      console.log(chalk.yellow('   No import chain from an entry module was found.\n'));
+    } else {
+      console.log(chalk.bold('🔗 Shortest Import Chains\n'));
+      result.chains.forEach((chain, index) => {
+        console.log(chalk.gray(`   ${index + 1}.`));
+        chain.modules.forEach((module, depth) => {
+          const arrow = depth === 0 ? '   ' : '   ' + '  '.repeat(depth - 1) + '└─ ';
+          const label = depth === chain.modules.length - 1 ? chalk.yellow(module.path) : module.path;
+          console.log(`   ${arrow}${label}`);
+        });
+        console.log('');
+      });
+    }
+
+    if (result.directImporters.length > 0) {
+      console.log(chalk.bold('📥 Imported Directly By Your Code\n'));
+
+      const table = new Table({
+        head: [chalk.cyan.bold('Module'), chalk.cyan.bold('Imports')],
+        colWidths: [50, 50],
+      });
+
+      result.directImporters.forEach((importer) => {
+        table.push([importer.path, chalk.gray(importer.imports.join('\n'))]);
+      });
+
+      console.log(table.toString());
+    } else {
+      console.log(chalk.gray('   Not imported directly by your code.'));
+    }
+
+    if (result.otherImporterCount > 0) {
+      console.log(
+        chalk.gray(`\n   Also imported by ${result.otherImporterCount} third-party module(s).`)
+      );
+    }
+
+    console.log(
+      chalk.bold.green(
+        `\n💡 Removing these imports from your code would free: ${formatBytes(result.retainedSize)}\n`
+      )
+    );
+  }
+
   /**
    * Print simple loading message
    */
@@ -197,6 +667,19 @@ export class Reporter {
     console.log(chalk.cyan(`\n⏳ ${message}...\n`));
   }
 
+  /**
+   * Print progress of a long read on a single, rewritten line
+   */
+  static printProgress(label: string, done: number, total: number): void {
+    const percent = total > 0 ? Math.floor((done / total) * 100) : 100;
+    process.stdout.write(
+      chalk.cyan(`\r⏳ ${label}: ${percent}% (${formatBytes(done)} / ${formatBytes(total)})`)
+    );
+    if (done >= total) {
+      process.stdout.write('\n');
+    }
+  }
+
   /**
    * Print success message
    */
@@ -1,33 +1,109 @@
 // Main entry point for programmatic usage
 export { BundleParser } from './analyzer/bundleParser';
+export { BundleLexer } from './analyzer/bundleLexer';
+export { BundleLoader } from './analyzer/bundleLoader';
+export { ExpoExportLoader } from './analyzer/expoExportLoader';
+export { WebpackStatsParser } from './analyzer/webpackStatsParser';
+export { HermesParser } from './analyzer/hermesParser';
+export { RamBundleParser } from './analyzer/ramBundleParser';
 export { DependencyAnalyzer } from './analyzer/dependencyAnalyzer';
+export { CompressionAnalyzer, StreamingCompressor } from './analyzer/compressionAnalyzer';
+export { StreamingBundleParser } from './analyzer/streamingBundleParser';
+export type { StreamingParseOptions, StreamingProgress } from './analyzer/streamingBundleParser';
+export { ModuleGraph } from './analyzer/moduleGraph';
+export { StartupAnalyzer } from './analyzer/startupAnalyzer';
+export { IdenticalModuleAnalyzer } from './analyzer/identicalModuleAnalyzer';
+export { DevCodeAnalyzer } from './analyzer/devCodeAnalyzer';
+export { InlineDataAnalyzer } from './analyzer/inlineDataAnalyzer';
+export { LicenseAnalyzer } from './analyzer/licenseAnalyzer';
+export { WhyAnalyzer } from './analyzer/whyAnalyzer';
 export { OptimizationEngine } from './analyzer/optimizationEngine';
 export { Reporter } from './cli/reporter';
 export { startServer } from './server';
 export * from './types';
-export { formatBytes, findBundleFile, readBundleFile } from './utils/fileHelper';
+export { formatBytes, findBundleFile, readBundleFile, readBundleBuffer } from './utils/fileHelper';
+export { SourcemapParser } from './utils/sourcemapParser';
+export { findWorkspaces } from './utils/workspaces';
+export type { Workspace } from './utils/workspaces';
+export { SourcemapStream } from './utils/sourcemapStream';
 export { ReportGenerator } from './utils/reportGenerator';
+export { parsePackagePath } from './utils/packagePaths';
+export type { PackageLocation } from './utils/packagePaths';
+export { PackageVersionResolver } from './utils/packageVersions';
+export { loadProjectConfig } from './utils/projectConfig';
 
-import { BundleParser } from './analyzer/bundleParser';
+import { BundleLoader, LoadedBundle } from './analyzer/bundleLoader';
+import { CompressionAnalyzer } from './analyzer/compressionAnalyzer';
 import { DependencyAnalyzer } from './analyzer/dependencyAnalyzer';
+import { ExpoExportLoader } from './analyzer/expoExportLoader';
+import { IdenticalModuleAnalyzer } from './analyzer/identicalModuleAnalyzer';
+import { DevCodeAnalyzer } from './analyzer/devCodeAnalyzer';
+import { InlineDataAnalyzer } from './analyzer/inlineDataAnalyzer';
+import { LicenseAnalyzer } from './analyzer/licenseAnalyzer';
 import { OptimizationEngine } from './analyzer/optimizationEngine';
-import { readBundleFile } from './utils/fileHelper';
+import { StartupAnalyzer } from './analyzer/startupAnalyzer';
+import { StreamingParseOptions } from './analyzer/streamingBundleParser';
+import { WebpackStatsParser } from './analyzer/webpackStatsParser';
 import { BundleAnalysis } from './types';
+import { loadProjectConfig } from './utils/projectConfig';
+import { findWorkspaces } from './utils/workspaces';
 
 /**
  * Analyze a React Native bundle
- * @param bundlePath - Path to the bundle file
+ * @param bundlePath - Path to the bundle file, an `expo export` directory or webpack stats
+ * @param options - Set `stream` to read the bundle and sourcemap in chunks, `platform`
+ * to pick the platform of an Expo export (defaults to ios), `projectRoot` for where
+ * package versions and the project config are read from (defaults to the working
+ * directory), `configPath` for a config file other than rnbi.config.js, rnbi.config.json
+ * or .rnbundlerc.json, and `licenses` to include bundled package licenses checked against
+ * the config's license policy
  * @returns Bundle analysis data
  */
-export async function analyzeBundle(bundlePath: string): Promise<BundleAnalysis> {
-  const bundleContent = readBundleFile(bundlePath);
-  const parser = new BundleParser(bundleContent);
-  const modules = parser.parse();
+export async function analyzeBundle(
+  bundlePath: string,
+  options: StreamingParseOptions & {
+    stream?: boolean;
+    platform?: string;
+    projectRoot?: string;
+    licenses?: boolean;
+    configPath?: string;
+  } = {}
+): Promise<BundleAnalysis> {
+  const projectConfig = loadProjectConfig(options.projectRoot, options.configPath);
+  const workspaceDirs = findWorkspaces(options.projectRoot).map((workspace) => workspace.dir);
 
-  const analyzer = new DependencyAnalyzer(modules);
+  let loaded: LoadedBundle;
+  if (ExpoExportLoader.isExpoExport(bundlePath)) {
+    loaded = ExpoExportLoader.load(bundlePath, options.platform || 'ios', workspaceDirs);
+  } else if (WebpackStatsParser.isWebpackStats(bundlePath)) {
+    loaded = WebpackStatsParser.load(bundlePath, workspaceDirs);
+  } else if (options.stream) {
+    loaded = await BundleLoader.loadStreaming(bundlePath, { ...options, workspaceDirs });
+  } else {
+    loaded = BundleLoader.load(bundlePath, undefined, workspaceDirs);
+  }
+  const { modules } = loaded;
+
+  const analyzer = new DependencyAnalyzer(modules, options.projectRoot);
   const analysis = analyzer.analyze();
+  BundleLoader.applyTo(analysis, loaded);
+  CompressionAnalyzer.forBundle(loaded).analyze(analysis, modules);
+  analysis.startup = StartupAnalyzer.forBundle(loaded).analyze();
+  analysis.identicalModules = IdenticalModuleAnalyzer.forBundle(loaded).analyze();
+  analysis.devCode = DevCodeAnalyzer.forBundle(loaded).analyze();
+  analysis.inlineData = InlineDataAnalyzer.forBundle(loaded).analyze();
+  if (options.licenses) {
+    analysis.licenses = new LicenseAnalyzer(
+      modules,
+      options.projectRoot,
+      projectConfig.licenses
+    ).analyze();
+  }
 
-  analysis.optimizations = OptimizationEngine.generateOptimizations(analysis);
+  analysis.optimizations = OptimizationEngine.generateOptimizations(
+    analysis,
+    projectConfig.optimizationRules
+  );
 
   return analysis;
 }
@@ -1,8 +1,18 @@
+export type ModuleId = number | string;
+
 export interface ModuleData {
-  id: number | string;
+  id: ModuleId;
   path: string;
   size: number;
   package?: string;
+  dependencies?: ModuleId[];
+  dependents?: ModuleId[];
+  isEntry?: boolean;
+  retainedSize?: number;
+  sharedSize?: number;
+  gzipSize?: number;
+  brotliSize?: number;
+  chunk?: string;
 }
 
 export interface PackageInfo {
@@ -11,20 +21,223 @@ export interface PackageInfo {
   percentage: number;
   modules: ModuleData[];
   version?: string;
+  retainedSize?: number;
+  sharedSize?: number;
+  gzipSize?: number;
+  brotliSize?: number;
+  // Directory of a monorepo workspace package, such as `packages/ui`
+  workspace?: string;
+}
+
+/**
+ * What one dependency in the project's package.json costs: the package itself plus the
+ * transitive packages it brings in
+ */
+export interface DirectDependency {
+  name: string;
+  version?: string;
+  // Bytes of the package itself
+  size: number;
+  // Transitive packages only this dependency brings in
+  exclusiveSize: number;
+  // An even split of the transitive packages other direct dependencies also bring in
+  sharedSize: number;
+  totalSize: number;
+  transitive: TransitiveDependency[];
+}
+
+export interface TransitiveDependency {
+  name: string;
+  size: number;
+  // Other direct dependencies that bring in the same package
+  sharedWith: string[];
+}
+
+export interface ParseWarning {
+  moduleId?: ModuleId;
+  offset: number;
+  message: string;
+}
+
+export type SizeMetric = 'raw' | 'gzip' | 'brotli';
+
+export type BundleFormat = 'metro' | 'hermes' | 'ram-indexed' | 'ram-file' | 'webpack';
+
+export interface ChunkInfo {
+  name: string;
+  format: BundleFormat;
+  isInitial: boolean;
+  size: number;
+  gzipSize?: number;
+  brotliSize?: number;
+  moduleCount: number;
 }
 
 export interface BundleAnalysis {
   projectName?: string;
+  bundleFormat?: BundleFormat;
+  isDevBundle?: boolean;
   totalSize: number;
+  gzipSize?: number;
+  brotliSize?: number;
+  startupCodeSize?: number;
+  chunks?: ChunkInfo[];
+  initialSize?: number;
+  lazySize?: number;
   yourCodeSize: number;
+  // Code from the monorepo's shared workspace packages, not counted in yourCodeSize
+  workspaceSize?: number;
   nodeModulesSize: number;
   reactNativeSize: number;
+  runtimeSize?: number;
+  unmappedSize?: number;
+  // File bytes not attributed to any module or category
+  unexplainedSize?: number;
   packages: PackageInfo[];
+  directDependencies?: DirectDependency[];
   duplicates: DuplicatePackage[];
   optimizations: OptimizationSuggestion[];
   moduleMap: Map<string, ModuleData>;
+  entryModuleIds?: ModuleId[];
+  parseWarnings?: ParseWarning[];
   deadCode?: DeadCodeAnalysis;
   treeShake?: TreeShakeAnalysis;
+  startup?: StartupAnalysis;
+  identicalModules?: IdenticalModuleAnalysis;
+  devCode?: DevCodeAnalysis;
+  inlineData?: InlineDataAnalysis;
+  licenses?: LicenseAnalysis;
+}
+
+export interface StartupAnalysis {
+  eagerSize: number;
+  deferredSize: number;
+  eagerModuleCount: number;
+  deferredModuleCount: number;
+  // Modules with no code to scan, whose dependencies are all assumed to load at startup
+  unscannedModuleCount: number;
+  eagerModules: StartupModule[];
+  packages: StartupPackage[];
+}
+
+export interface StartupModule {
+  id: ModuleId;
+  path: string;
+  size: number;
+  // Module whose top-level require first pulled this one in; unset for entry and runtime code
+  requiredBy?: ModuleId;
+}
+
+export interface StartupPackage {
+  name: string;
+  eagerSize: number;
+  deferredSize: number;
+}
+
+export interface IdenticalModuleAnalysis {
+  groups: IdenticalModuleGroup[];
+  totalWaste: number;
+  // Modules with no code to hash
+  unscannedModuleCount: number;
+}
+
+export interface IdenticalModuleGroup {
+  // Hash of the normalized module code
+  hash: string;
+  // False when the copies only match after identifiers and numbers are renamed
+  exact: boolean;
+  modules: IdenticalModule[];
+  packages: string[];
+  // Bytes of every copy but the largest
+  wastedSize: number;
+}
+
+export interface IdenticalModule {
+  id: ModuleId;
+  path: string;
+  size: number;
+  package?: string;
+}
+
+export interface DevCodeAnalysis {
+  isDevBundle: boolean;
+  findings: DevCodeFinding[];
+  // Bytes of dev-only code; the whole bundle for a dev bundle
+  totalSize: number;
+  // Modules with no code to scan for __DEV__ and NODE_ENV branches
+  unscannedModuleCount: number;
+}
+
+export type DevCodeKind = 'dev-bundle' | 'dev-package' | 'react-dev-build' | 'dev-branch';
+
+export interface DevCodeFinding {
+  kind: DevCodeKind;
+  // Package name, the module path for app code, or `bundle` for a dev bundle
+  name: string;
+  description: string;
+  size: number;
+  moduleCount: number;
+  // Unstripped branches, for dev-branch findings
+  branchCount?: number;
+}
+
+export interface InlineDataAnalysis {
+  items: InlineDataItem[];
+  totalSize: number;
+  // Base64 images that would be smaller as asset files
+  assetCandidateCount: number;
+  // Modules with no code to scan
+  unscannedModuleCount: number;
+}
+
+export type InlineDataKind = 'string' | 'data-uri' | 'json' | 'translations' | 'array';
+
+export interface InlineDataItem {
+  kind: InlineDataKind;
+  moduleId: ModuleId;
+  // Source file from the sourcemap, or the module name
+  path: string;
+  package?: string;
+  // Character offset of the literal in the module's code
+  offset: number;
+  size: number;
+  preview: string;
+  mimeType?: string;
+  // Decoded size of a base64 image, what it would cost as an asset file
+  assetSize?: number;
+  // String values in a translation table
+  entryCount?: number;
+}
+
+export interface LicenseAnalysis {
+  packages: PackageLicense[];
+  // Packages whose package.json declares no license
+  unknownCount: number;
+  violationCount: number;
+  policy?: LicensePolicy;
+}
+
+export interface PackageLicense {
+  name: string;
+  version?: string;
+  // SPDX expression such as `MIT` or `(MIT OR Apache-2.0)`, or UNKNOWN
+  license: string;
+  installPath: string;
+  size: number;
+  // License file relative to the package directory, and its text
+  licenseFile?: string;
+  licenseText?: string;
+  repository?: string;
+  author?: string;
+  // Why the license breaks the policy
+  violation?: string;
+}
+
+export interface LicensePolicy {
+  // SPDX identifiers, or prefixes such as `GPL` that match `GPL-3.0-only`; when set,
+  // every other license is a violation
+  allow?: string[];
+  deny?: string[];
 }
 
 export interface DeadCodeAnalysis {
@@ -102,6 +315,10 @@ export interface OptimizationSuggestion {
   potentialSavings: number;
   suggestion: string;
   alternative?: string;
+  // Whether the rule or threshold behind the suggestion is built in or from the project config
+  source: 'built-in' | 'config';
+  // The rule that produced it, such as `replace:moment` or `large-package`
+  rule: string;
 }
 
 export interface AnalyzerConfig {
@@ -112,6 +329,53 @@ export interface AnalyzerConfig {
   outputDir?: string;
   port?: number;
   openBrowser?: boolean;
+  sizeMetric?: SizeMetric;
+  stream?: boolean;
+  // Where package versions are read from node_modules or the lockfile
+  projectRoot?: string;
+  // Include the licenses of bundled packages in the analysis
+  licenses?: boolean;
+  // Project config file, instead of rnbi.config.js, rnbi.config.json or .rnbundlerc.json
+  configPath?: string;
+}
+
+/**
+ * Settings read from the project's rnbi.config.js, rnbi.config.json or .rnbundlerc.json
+ */
+export interface ProjectConfig {
+  licenses?: LicensePolicy;
+  optimizationRules?: OptimizationConfig;
+}
+
+export interface OptimizationConfig {
+  // Turn all suggestions, or one kind of check, off
+  enabled?: boolean;
+  checkDuplicates?: boolean;
+  checkHeavyPackages?: boolean;
+  checkKnownAlternatives?: boolean;
+  checkModules?: boolean;
+  checkDevCode?: boolean;
+  // Replacement rules added to the built-in ones; a rule for a package that has a
+  // built-in rule overrides its fields
+  rules?: OptimizationRuleConfig[];
+  // Package names of built-in replacement rules, or names of module detectors, to turn off
+  disable?: string[];
+  // Sizes in bytes
+  thresholds?: {
+    largePackage?: number;
+    duplicate?: number;
+    identicalModules?: number;
+  };
+  // Packages never suggested for lazy loading, by exact name, added to the built-in ones
+  essentialPackages?: string[];
+}
+
+export interface OptimizationRuleConfig {
+  packageName: string;
+  alternative?: string;
+  reason?: string;
+  // Percentage of the package size saved by the replacement
+  estimatedSavings?: number;
 }
 
 export interface TreemapNode {
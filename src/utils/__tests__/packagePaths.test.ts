@@ -0,0 +1,60 @@
+import { parsePackagePath } from '../packagePaths';
+
+describe('parsePackagePath', () => {
+  it('should read nested node_modules installs', () => {
+    expect(parsePackagePath('/app/node_modules/lib-a/node_modules/tslib/tslib.js')).toEqual({
+      name: 'tslib',
+      installPath: 'node_modules/lib-a/node_modules/tslib',
+    });
+    expect(parsePackagePath('src/App.js')).toBeUndefined();
+  });
+
+  it('should read the pnpm virtual store', () => {
+    expect(
+      parsePackagePath('node_modules/.pnpm/lodash@4.17.21/node_modules/lodash/lodash.js')
+    ).toEqual({
+      name: 'lodash',
+      installPath: 'node_modules/.pnpm/lodash@4.17.21/node_modules/lodash',
+      version: '4.17.21',
+    });
+    expect(
+      parsePackagePath(
+        'node_modules/.pnpm/@babel+runtime@7.22.5/node_modules/@babel/runtime/helpers/extends.js'
+      )!.version
+    ).toBe('7.22.5');
+    expect(
+      parsePackagePath(
+        'node_modules/.pnpm/react-redux@8.1.0_react@18.2.0/node_modules/react-redux/lib/index.js'
+      )!.version
+    ).toBe('8.1.0');
+    // A dependency linked next to the package it belongs to
+    expect(
+      parsePackagePath('node_modules/.pnpm/react-redux@8.1.0/node_modules/hoist/index.js')
+    ).toEqual({
+      name: 'hoist',
+      installPath: 'node_modules/.pnpm/react-redux@8.1.0/node_modules/hoist',
+    });
+  });
+
+  it('should read Yarn PnP cache and unplugged paths', () => {
+    expect(
+      parsePackagePath(
+        '/app/.yarn/cache/lodash-npm-4.17.21-6382451519-eb835a2e51.zip/node_modules/lodash/map.js'
+      )
+    ).toEqual({
+      name: 'lodash',
+      installPath: '.yarn/cache/lodash-npm-4.17.21-6382451519-eb835a2e51.zip/node_modules/lodash',
+      version: '4.17.21',
+    });
+    expect(
+      parsePackagePath(
+        '.yarn/cache/@babel-runtime-npm-7.0.0-beta.1-0123456789-abcdef.zip/node_modules/@babel/runtime/index.js'
+      )!.version
+    ).toBe('7.0.0-beta.1');
+    expect(
+      parsePackagePath(
+        '.yarn/unplugged/react-native-npm-0.72.4-a1b2c3d4e5/node_modules/react-native/index.js'
+      )!.version
+    ).toBe('0.72.4');
+  });
+});
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PackageVersionResolver } from '../packageVersions';
+
+function writeFile(root: string, relativePath: string, content: string): void {
+  const filePath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+function writePackage(root: string, installPath: string, version: string): void {
+  writeFile(root, `${installPath}/package.json`, JSON.stringify({ version }));
+}
+
+describe('PackageVersionResolver', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'package-versions-'));
+    writeFile(
+      tmpDir,
+      'package.json',
+      JSON.stringify({ dependencies: { 'lib-a': '^1.0.0', tslib: '^2.0.0' } })
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should find the install path of a module', () => {
+    expect(PackageVersionResolver.getInstallPath('node_modules/lib-a/lib/index.js')).toBe(
+      'node_modules/lib-a'
+    );
+    expect(
+      PackageVersionResolver.getInstallPath(
+        '/app/node_modules/lib-a/node_modules/@scope/tslib/index.js'
+      )
+    ).toBe('node_modules/lib-a/node_modules/@scope/tslib');
+    expect(PackageVersionResolver.getInstallPath('src/App.js')).toBeUndefined();
+  });
+
+  it('should read the version installed at a nested path', () => {
+    writePackage(tmpDir, 'node_modules/tslib', '2.6.2');
+    writePackage(tmpDir, 'node_modules/lib-a/node_modules/tslib', '1.14.1');
+
+    const resolver = new PackageVersionResolver(tmpDir);
+    expect(resolver.resolve('node_modules/tslib/tslib.js')).toBe('2.6.2');
+    expect(resolver.resolve('node_modules/lib-a/node_modules/tslib/tslib.js')).toBe('1.14.1');
+    expect(resolver.resolve('node_modules/missing/index.js')).toBeUndefined();
+  });
+
+  it('should fall back to package-lock.json', () => {
+    writeFile(
+      tmpDir,
+      'package-lock.json',
+      JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'app' },
+          'node_modules/lib-a': { version: '1.2.0', dependencies: { tslib: '^1.9.0' } },
+          'node_modules/tslib': { version: '2.6.2' },
+          'node_modules/lib-a/node_modules/tslib': { version: '1.14.1' },
+        },
+      })
+    );
+
+    const resolver = new PackageVersionResolver(tmpDir);
+    expect(resolver.resolveInstallPath('node_modules/tslib')).toBe('2.6.2');
+    expect(resolver.resolveInstallPath('node_modules/lib-a/node_modules/tslib')).toBe('1.14.1');
+    expect(resolver.resolveDependencies('node_modules/lib-a')).toEqual(['tslib']);
+  });
+
+  it('should follow dependency ranges through yarn.lock', () => {
+    writeFile(
+      tmpDir,
+      'yarn.lock',
+      [
+        '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+        '# yarn lockfile v1',
+        '',
+        'lib-a@^1.0.0:',
+        '  version "1.2.0"',
+        '  dependencies:',
+        '    tslib "^1.9.0"',
+        '',
+        'tslib@^1.9.0:',
+        '  version "1.14.1"',
+        '',
+        '"tslib@^2.0.0", "tslib@^2.1.0":',
+        '  version "2.6.2"',
+        '',
+      ].join('\n')
+    );
+
+    const resolver = new PackageVersionResolver(tmpDir);
+    expect(resolver.resolveInstallPath('node_modules/lib-a')).toBe('1.2.0');
+    expect(resolver.resolveInstallPath('node_modules/tslib')).toBe('2.6.2');
+    expect(resolver.resolveInstallPath('node_modules/lib-a/node_modules/tslib')).toBe('1.14.1');
+  });
+
+  it('should read Yarn Berry and pnpm lockfiles', () => {
+    writeFile(
+      tmpDir,
+      'yarn.lock',
+      [
+        '__metadata:',
+        '  version: 6',
+        '',
+        '"lib-a@npm:^1.0.0":',
+        '  version: 1.2.0',
+        '  dependencies:',
+        '    tslib: ^1.9.0',
+        '',
+        '"tslib@npm:^1.9.0":',
+        '  version: 1.14.1',
+        '',
+        '"tslib@npm:^2.0.0":',
+        '  version: 2.6.2',
+        '',
+      ].join('\n')
+    );
+    const berry = new PackageVersionResolver(tmpDir);
+    expect(berry.resolveInstallPath('node_modules/lib-a/node_modules/tslib')).toBe('1.14.1');
+
+    fs.rmSync(path.join(tmpDir, 'yarn.lock'));
+    writeFile(
+      tmpDir,
+      'pnpm-lock.yaml',
+      [
+        "lockfileVersion: '6.0'",
+        '',
+        'importers:',
+        '  .:',
+        '    dependencies:',
+        '      lib-a:',
+        '        specifier: ^1.0.0',
+        '        version: 1.2.0',
+        '      tslib:',
+        '        specifier: ^2.0.0',
+        '        version: 2.6.2',
+        '',
+        'packages:',
+        '  /lib-a@1.2.0:',
+        '    resolution: {integrity: sha512-a}',
+        '    dependencies:',
+        '      tslib: 1.14.1',
+        '    dev: false',
+        '  /tslib@1.14.1:',
+        '    resolution: {integrity: sha512-b}',
+        '  /tslib@2.6.2:',
+        '    resolution: {integrity: sha512-c}',
+        '',
+      ].join('\n')
+    );
+    const pnpm = new PackageVersionResolver(tmpDir);
+    expect(pnpm.resolveInstallPath('node_modules/tslib')).toBe('2.6.2');
+    expect(pnpm.resolveInstallPath('node_modules/lib-a/node_modules/tslib')).toBe('1.14.1');
+  });
+});
@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadProjectConfig } from '../projectConfig';
+
+describe('loadProjectConfig', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'project-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should read .rnbundlerc.json from the project root', () => {
+    expect(loadProjectConfig(tmpDir)).toEqual({});
+
+    fs.writeFileSync(
+      path.join(tmpDir, '.rnbundlerc.json'),
+      JSON.stringify({ platform: 'ios', licenses: { deny: ['GPL'] } })
+    );
+    expect(loadProjectConfig(tmpDir).licenses).toEqual({ deny: ['GPL'] });
+  });
+
+  it('should prefer rnbi.config.js and read its exports', () => {
+    fs.writeFileSync(path.join(tmpDir, '.rnbundlerc.json'), JSON.stringify({ licenses: {} }));
+    fs.writeFileSync(
+      path.join(tmpDir, 'rnbi.config.js'),
+      "module.exports = { optimizationRules: { disable: ['axios'], thresholds: { duplicate: 1024 } } };"
+    );
+
+    expect(loadProjectConfig(tmpDir)).toEqual({
+      optimizationRules: { disable: ['axios'], thresholds: { duplicate: 1024 } },
+    });
+  });
+
+  it('should reject missing and invalid config files', () => {
+    expect(() => loadProjectConfig(tmpDir, 'missing.json')).toThrow('Config file not found');
+
+    fs.writeFileSync(path.join(tmpDir, 'bad.json'), JSON.stringify({ licenses: { allow: 'MIT' } }));
+    expect(() => loadProjectConfig(tmpDir, 'bad.json')).toThrow(
+      'licenses.allow must be a list of strings'
+    );
+
+    fs.writeFileSync(
+      path.join(tmpDir, 'bad.json'),
+      JSON.stringify({
+        optimizationRules: { rules: [{ packageName: 'x', estimatedSavings: 150 }] },
+      })
+    );
+    expect(() => loadProjectConfig(tmpDir, 'bad.json')).toThrow(
+      'optimizationRules.rules[0].estimatedSavings must be a percentage from 0 to 100'
+    );
+
+    fs.writeFileSync(
+      path.join(tmpDir, 'bad.json'),
+      JSON.stringify({
+        optimizationRules: {
+          rules: [
+            { packageName: 'Moment', estimatedSavings: 10 },
+            { packageName: '@acme/charts', estimatedSavings: 40 },
+          ],
+        },
+      })
+    );
+    expect(() => loadProjectConfig(tmpDir, 'bad.json')).toThrow(
+      'optimizationRules.rules[1] for @acme/charts has no built-in rule, so it needs an alternative, reason and estimatedSavings'
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import { computeReachableSizes } from '../reachability';
+
+function walkReachableSize(successors: number[][], sizes: number[], start: number): number {
+  const visited = new Set([start]);
+  const stack = [start];
+  let size = 0;
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    size += sizes[node];
+    successors[node].forEach((target) => {
+      if (!visited.has(target)) {
+        visited.add(target);
+        stack.push(target);
+      }
+    });
+  }
+  return size;
+}
+
+describe('computeReachableSizes', () => {
+  it('should count each node and everything it reaches once, across cycles', () => {
+    // 0 -> 1 <-> 2 -> 3, and 0 -> 3
+    const successors = [[1, 3], [2], [1, 3], []];
+    const sizes = [1, 10, 100, 1000];
+
+    expect(computeReachableSizes(successors, sizes)).toEqual([1111, 1110, 1110, 1000]);
+  });
+
+  it('should match a walk from every node on graphs larger than one batch', () => {
+    // A fixed pseudo-random graph with back edges, so it has cycles
+    let seed = 42;
+    const random = (limit: number) => {
+      seed = (seed * 1103515245 + 12345) % 2 ** 31;
+      return seed % limit;
+    };
+    const nodeCount = 2500;
+    const sizes = Array.from({ length: nodeCount }, () => random(1000) + 1);
+    const successors = sizes.map((_, node) =>
+      Array.from({ length: random(4) }, () =>
+        random(10) === 0 ? random(nodeCount) : Math.min(nodeCount - 1, node + 1 + random(50))
+      )
+    );
+
+    expect(computeReachableSizes(successors, sizes)).toEqual(
+      sizes.map((_, node) => walkReachableSize(successors, sizes, node))
+    );
+  });
+});
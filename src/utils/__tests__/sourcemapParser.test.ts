@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourcemapParser } from '../sourcemapParser';
+
+function loadSourcemap(data: object): SourcemapParser {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sourcemap-'));
+  const mapPath = path.join(tmpDir, 'index.bundle.map');
+  fs.writeFileSync(mapPath, JSON.stringify(data));
+
+  const parser = new SourcemapParser(mapPath);
+  parser.load();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  return parser;
+}
+
+describe('SourcemapParser', () => {
+  describe('decodeMappings', () => {
+    it('should decode segments with relative fields', () => {
+      const lines = SourcemapParser.decodeMappings('AAAA,ICAA;AAAA');
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0][1]).toEqual({
+        generatedColumn: 4,
+        sourceIndex: 1,
+        originalLine: 0,
+        originalColumn: 0,
+      });
+      // Source index carries over lines, generated column resets
+      expect(lines[1][0].generatedColumn).toBe(0);
+      expect(lines[1][0].sourceIndex).toBe(1);
+    });
+
+    it('should decode negative values and names', () => {
+      const lines = SourcemapParser.decodeMappings('AAAAC,CAADC');
+
+      expect(lines[0][1].originalColumn).toBe(-1);
+      expect(lines[0][1].nameIndex).toBe(2);
+    });
+
+    it('should throw on invalid characters', () => {
+      expect(() => SourcemapParser.decodeMappings('AA!A')).toThrow();
+    });
+  });
+
+  describe('computeSourceSizes', () => {
+    it('should count generated bytes per source', () => {
+      const parser = loadSourcemap({
+        version: 3,
+        sources: ['a.js', 'b.js'],
+        mappings: 'AAAA,ICAA;AAAA',
+      });
+
+      const { bySource, unmapped } = parser.computeSourceSizes('abcdefgh\nxyz');
+
+      expect(bySource.get(0)).toBe(4);
+      expect(bySource.get(1)).toBe(8);
+      expect(unmapped).toBe(0);
+    });
+
+    it('should report bytes before the first segment as unmapped', () => {
+      const parser = loadSourcemap({
+        version: 3,
+        sources: ['a.js', 'b.js'],
+        mappings: 'AAAA,ICAA;CAAA',
+      });
+
+      const { bySource, unmapped } = parser.computeSourceSizes('abcdefgh\nxyz');
+
+      expect(bySource.get(1)).toBe(7);
+      expect(unmapped).toBe(1);
+    });
+
+    it('should count multi-byte characters by their UTF-8 length', () => {
+      const parser = loadSourcemap({ version: 3, sources: ['a.js'], mappings: 'AAAA' });
+
+      expect(parser.computeSourceSizes('"é"').bySource.get(0)).toBe(4);
+    });
+  });
+
+  describe('collectSourceCode', () => {
+    it('should join the generated spans of each source', () => {
+      const parser = loadSourcemap({
+        version: 3,
+        sources: ['a.js', 'b.js'],
+        mappings: 'AAAA,ECAA,EDAA;CCAA',
+      });
+
+      const code = parser.collectSourceCode('aabbaa\nxyz');
+
+      expect(code.get(0)).toBe('aaaa\n');
+      expect(code.get(1)).toBe('bbyz');
+    });
+  });
+
+  describe('getSourceIndexAt', () => {
+    it('should find the segment covering a column', () => {
+      const parser = loadSourcemap({
+        version: 3,
+        sources: ['a.js', 'b.js'],
+        mappings: 'AAAA,ICAA',
+      });
+
+      expect(parser.getSourceIndexAt(0, 2)).toBe(0);
+      expect(parser.getSourceIndexAt(0, 6)).toBe(1);
+      expect(parser.getSourceIndexAt(3, 0)).toBeUndefined();
+    });
+  });
+
+  describe('index sourcemaps', () => {
+    it('should flatten sections into one source list with shifted mappings', () => {
+      const parser = loadSourcemap({
+        version: 3,
+        sections: [
+          {
+            offset: { line: 0, column: 0 },
+            map: { version: 3, sources: ['a.js'], mappings: 'AAAA' },
+          },
+          {
+            offset: { line: 0, column: 5 },
+            map: { version: 3, sources: ['b.js', 'a.js'], mappings: 'AAAA,CCAA;AAAA' },
+          },
+        ],
+      });
+
+      expect(parser.getAllModulePaths()).toEqual(['a.js', 'b.js']);
+      expect(parser.getSourceIndexAt(0, 2)).toBe(0);
+      expect(parser.getSourceIndexAt(0, 5)).toBe(1);
+      // Second segment of the section maps to its local "a.js", deduplicated to index 0
+      expect(parser.getSourceIndexAt(0, 6)).toBe(0);
+      // Only the first line of a section is shifted right
+      expect(parser.getMappings()[1][0].generatedColumn).toBe(0);
+    });
+
+    it('should reject sections that reference a url', () => {
+      expect(() =>
+        SourcemapParser.flatten({
+          version: 3,
+          sections: [{ offset: { line: 0, column: 0 }, url: 'other.map' }],
+        })
+      ).toThrow('not supported');
+    });
+  });
+
+  describe('Metro and Hermes extensions', () => {
+    it('should read Hermes function offsets and Metro source metadata', () => {
+      const parser = loadSourcemap({
+        version: 3,
+        sources: ['a.js'],
+        mappings: 'AAAA',
+        x_facebook_sources: [[{ names: ['<global>', 'App'], mappings: 'AAA' }]],
+        x_hermes_function_offsets: { 0: [0, 42, 97] },
+      });
+
+      expect(parser.getHermesFunctionOffsets(0)).toEqual([0, 42, 97]);
+      expect(parser.getSourceMetadata(0)?.[0].names).toContain('App');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourcemapParser } from '../sourcemapParser';
+import { SourcemapStream } from '../sourcemapStream';
+
+function writeSourcemap(data: object): { mapPath: string; cleanup: () => void } {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sourcemap-stream-'));
+  const mapPath = path.join(tmpDir, 'index.bundle.map');
+  fs.writeFileSync(mapPath, JSON.stringify(data));
+  return { mapPath, cleanup: () => fs.rmSync(tmpDir, { recursive: true, force: true }) };
+}
+
+describe('SourcemapStream', () => {
+  const data = {
+    version: 3,
+    sourceRoot: '/app',
+    sourcesContent: ['var a = "sources", b = {"mappings": [1, 2]};', null],
+    sources: ['src/a.js', 'node_modules/b/index.js'],
+    names: ['a', 'b'],
+    mappings: 'AAAA,ICAA;ADAA,KCCA;;AAAAC',
+    x_facebook_sources: [[{ names: ['<global>'], mappings: 'AAA' }], null],
+  };
+
+  it('should read the sources and locate mappings without parsing other values', () => {
+    const { mapPath, cleanup } = writeSourcemap(data);
+    const progress: number[] = [];
+
+    // A tiny chunk size splits keys and values across reads
+    const outline = new SourcemapStream(mapPath, 7).readOutline((bytesRead) =>
+      progress.push(bytesRead)
+    );
+    const content = fs.readFileSync(mapPath, 'utf-8');
+    cleanup();
+
+    expect(outline.sources).toEqual(['/app/src/a.js', '/app/node_modules/b/index.js']);
+    expect(outline.hasSections).toBe(false);
+    expect(content.slice(outline.mappingsOffset!, outline.mappingsOffset! + 4)).toBe('AAAA');
+    expect(progress[progress.length - 1]).toBe(Buffer.byteLength(content));
+  });
+
+  it('should decode mapping lines the same way as decodeMappings', () => {
+    const { mapPath, cleanup } = writeSourcemap(data);
+    const stream = new SourcemapStream(mapPath, 5);
+    const reader = stream.openMappings(stream.readOutline().mappingsOffset!);
+
+    const expected = SourcemapParser.decodeMappings(data.mappings);
+    const lines = expected.map(() => reader.nextLine());
+    const afterEnd = reader.nextLine();
+    reader.close();
+    cleanup();
+
+    expect(lines).toEqual(expected);
+    expect(afterEnd).toEqual([]);
+  });
+
+  it('should flag index sourcemaps', () => {
+    const { mapPath, cleanup } = writeSourcemap({
+      version: 3,
+      sections: [{ offset: { line: 0, column: 0 }, map: data }],
+    });
+    const outline = new SourcemapStream(mapPath).readOutline();
+    cleanup();
+
+    expect(outline.hasSections).toBe(true);
+    expect(outline.mappingsOffset).toBeNull();
+  });
+});
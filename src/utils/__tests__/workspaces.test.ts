@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findWorkspaceForPath, findWorkspaces } from '../workspaces';
+import { SourcemapParser } from '../sourcemapParser';
+
+function writeJson(root: string, relativePath: string, data: object): void {
+  const filePath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data));
+}
+
+describe('workspaces', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workspaces-'));
+    writeJson(tmpDir, 'apps/mobile/package.json', { name: 'mobile' });
+    writeJson(tmpDir, 'packages/ui/package.json', { name: '@acme/ui', version: '1.0.0' });
+    writeJson(tmpDir, 'packages/api-client/package.json', { name: '@acme/api-client' });
+    writeJson(tmpDir, 'packages/fixtures/test/package.json', { name: 'fixtures' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should read Yarn workspaces and leave out the app itself', () => {
+    writeJson(tmpDir, 'package.json', {
+      private: true,
+      workspaces: { packages: ['apps/*', 'packages/*'] },
+    });
+
+    const workspaces = findWorkspaces(path.join(tmpDir, 'apps/mobile'));
+    expect(workspaces).toEqual([
+      { name: '@acme/api-client', dir: 'packages/api-client' },
+      { name: '@acme/ui', dir: 'packages/ui', version: '1.0.0' },
+    ]);
+    expect(findWorkspaceForPath(workspaces, 'packages/ui/src/Button.tsx')!.name).toBe('@acme/ui');
+    expect(findWorkspaceForPath(workspaces, 'src/App.tsx')).toBeUndefined();
+  });
+
+  it('should read pnpm-workspace.yaml with exclusions', () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'pnpm-workspace.yaml'),
+      "packages:\n  - 'apps/*'\n  - \"packages/**\"\n  - '!**/test/**'\n"
+    );
+
+    expect(findWorkspaces(tmpDir).map((workspace) => workspace.name)).toEqual([
+      '@acme/api-client',
+      'mobile',
+      '@acme/ui',
+    ]);
+  });
+
+  it('should keep workspace directories when normalizing module paths', () => {
+    const workspaceDirs = ['packages/ui'];
+
+    expect(
+      SourcemapParser.normalizeModulePath('/repo/packages/ui/src/Button.tsx', workspaceDirs)
+    ).toBe('packages/ui/src/Button.tsx');
+    expect(
+      SourcemapParser.normalizeModulePath('../../packages/ui/src/index.ts', workspaceDirs)
+    ).toBe('packages/ui/src/index.ts');
+    expect(
+      SourcemapParser.normalizeModulePath('/repo/apps/mobile/src/App.tsx', workspaceDirs)
+    ).toBe('src/App.tsx');
+    expect(SourcemapParser.normalizeModulePath('/repo/packages/ui/src/Button.tsx')).toBe(
+      'src/Button.tsx'
+    );
+  });
+});
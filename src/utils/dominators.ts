@@ -0,0 +1,104 @@
+/**
+ * Compute immediate dominators with the Cooper-Harvey-Kennedy iterative algorithm.
+ * Nodes are indices into `successors`; node 0 is the root. Returns the immediate
+ * dominator of every node (the root dominates itself, unreachable nodes get -1)
+ * and the reverse postorder the nodes were processed in.
+ */
+export function computeImmediateDominators(successors: number[][]): {
+  idom: Int32Array;
+  order: number[];
+} {
+  const nodeCount = successors.length;
+  const order = reversePostorder(successors);
+  const orderIndex = new Int32Array(nodeCount).fill(-1);
+  order.forEach((node, index) => {
+    orderIndex[node] = index;
+  });
+
+  const predecessors: number[][] = Array.from({ length: nodeCount }, () => []);
+  successors.forEach((targets, node) => {
+    if (orderIndex[node] === -1) return;
+    targets.forEach((target) => predecessors[target].push(node));
+  });
+
+  const idom = new Int32Array(nodeCount).fill(-1);
+  if (nodeCount === 0) {
+    return { idom, order };
+  }
+  idom[0] = 0;
+
+  const intersect = (a: number, b: number): number => {
+    while (a !== b) {
+      while (orderIndex[a] > orderIndex[b]) a = idom[a];
+      while (orderIndex[b] > orderIndex[a]) b = idom[b];
+    }
+    return a;
+  };
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = 1; i < order.length; i++) {
+      const node = order[i];
+      let newIdom = -1;
+
+      predecessors[node].forEach((predecessor) => {
+        if (idom[predecessor] === -1) return;
+        newIdom = newIdom === -1 ? predecessor : intersect(predecessor, newIdom);
+      });
+
+      if (newIdom !== -1 && idom[node] !== newIdom) {
+        idom[node] = newIdom;
+        changed = true;
+      }
+    }
+  }
+
+  return { idom, order };
+}
+
+/**
+ * Sum node sizes over each node's dominator subtree. Every node retains itself plus
+ * everything it dominates, which is what would disappear if the node were removed.
+ */
+export function computeRetainedSizes(sizes: number[], idom: Int32Array, order: number[]): number[] {
+  const retained = sizes.slice();
+
+  // Reverse postorder lists dominators before the nodes they dominate
+  for (let i = order.length - 1; i > 0; i--) {
+    const node = order[i];
+    retained[idom[node]] += retained[node];
+  }
+
+  return retained;
+}
+
+function reversePostorder(successors: number[][]): number[] {
+  if (successors.length === 0) {
+    return [];
+  }
+
+  const visited = new Uint8Array(successors.length);
+  const postorder: number[] = [];
+  const stack: { node: number; next: number }[] = [{ node: 0, next: 0 }];
+  visited[0] = 1;
+
+  // Iterative DFS so large bundles do not overflow the call stack
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const targets = successors[frame.node];
+
+    if (frame.next < targets.length) {
+      const target = targets[frame.next++];
+      if (!visited[target]) {
+        visited[target] = 1;
+        stack.push({ node: target, next: 0 });
+      }
+    } else {
+      postorder.push(frame.node);
+      stack.pop();
+    }
+  }
+
+  return postorder.reverse();
+}
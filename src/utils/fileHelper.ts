@@ -34,6 +34,13 @@ export function readBundleFile(filePath: string): string {
   return fs.readFileSync(filePath, 'utf-8');
 }
 
+export function readBundleBuffer(filePath: string): Buffer {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Bundle file not found: ${filePath}`);
+  }
+  return fs.readFileSync(filePath);
+}
+
 export function ensureDir(dirPath: string): void {
   if (!fs.existsSync(dirPath)) {
     fs.mkdirSync(dirPath, { recursive: true });
@@ -0,0 +1,73 @@
+/**
+ * Where a module's package is installed, read from the module path
+ */
+export interface PackageLocation {
+  name: string;
+  // Directory of this copy of the package, such as `node_modules/a/node_modules/pkg`
+  installPath: string;
+  // Version encoded in the path by pnpm's virtual store or Yarn's cache
+  version?: string;
+}
+
+// The innermost `node_modules/<name>` in a path, scoped or not
+const PACKAGE_PATTERN = /^(.*node_modules\/)(@[^/]+\/[^/]+|[^/.][^/]*)/;
+
+// Where an install path starts: node_modules, or a Yarn PnP cache or virtual folder
+const INSTALL_ROOT_PATTERN = /(?:^|\/)((?:node_modules|\.yarn)\/.*)$/;
+
+// node_modules/.pnpm/<name>@<version>[_peers|(peers)]/node_modules/<name>
+const PNPM_STORE_PATTERN = /node_modules\/\.pnpm\/([^/]+)\/node_modules\/[^/]+(?:\/[^/]+)?$/;
+
+// .yarn/cache/<name>-npm-<version>-<hash>[-<checksum>].zip/node_modules/<name>, and
+// the equivalent unzipped folder under .yarn/unplugged
+const YARN_CACHE_PATTERN =
+  /(?:^|\/)([^/]+)-npm-([^/]+?)-[0-9a-f]{10}(?:-[0-9a-f]+)?(?:\.zip)?\/node_modules\/[^/]+(?:\/[^/]+)?$/;
+
+/**
+ * Find the package a module belongs to, understanding nested node_modules, pnpm's
+ * virtual store (`node_modules/.pnpm/lodash@4.17.21/node_modules/lodash`) and Yarn PnP
+ * cache zips (`.yarn/cache/lodash-npm-4.17.21-<hash>.zip/node_modules/lodash`).
+ * Returns undefined for modules outside any package.
+ */
+export function parsePackagePath(modulePath: string): PackageLocation | undefined {
+  const match = modulePath.replace(/\\/g, '/').match(PACKAGE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const name = match[2];
+  const fullPath = match[1] + name;
+  const root = fullPath.match(INSTALL_ROOT_PATTERN);
+  const installPath = root ? root[1] : fullPath;
+  const location: PackageLocation = { name, installPath };
+
+  const version = readPnpmVersion(installPath, name) ?? readYarnCacheVersion(installPath, name);
+  if (version) {
+    location.version = version;
+  }
+  return location;
+}
+
+function readPnpmVersion(installPath: string, name: string): string | undefined {
+  const match = installPath.match(PNPM_STORE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  // Scoped names are stored as `@scope+name`
+  const entry = match[1].replace(/^(@[^+]+)\+/, '$1/');
+  const at = entry.indexOf('@', 1);
+  // A package linked into another's dependencies keeps the entry of the dependent
+  if (at === -1 || entry.slice(0, at) !== name) {
+    return undefined;
+  }
+  return entry.slice(at + 1).replace(/[_(].*$/, '');
+}
+
+function readYarnCacheVersion(installPath: string, name: string): string | undefined {
+  const match = installPath.match(YARN_CACHE_PATTERN);
+  // Cache entries name scoped packages `@scope-name`
+  if (!match || match[1] !== name.replace('/', '-')) {
+    return undefined;
+  }
+  return match[2];
+}
@@ -0,0 +1,543 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parsePackagePath } from './packagePaths';
+
+const LOCKFILES = ['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml'];
+
+/**
+ * The package.json fields that are read. The file can hold anything, so fields are still
+ * checked where they are read.
+ */
+export interface PackageManifest {
+  name?: string;
+  version?: string;
+  // An SPDX expression, or the legacy `{ type, url }` form
+  license?: string | { type?: string; url?: string };
+  // Legacy list of licenses
+  licenses?: Array<{ type?: string; url?: string }>;
+  repository?: string | { url?: string };
+  author?: string | { name?: string };
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+/**
+ * package-lock.json: v2/v3 list every install path under `packages`, v1 nests
+ * `dependencies` the way node_modules is nested
+ */
+interface PackageLock {
+  packages?: Record<string, PackageLockEntry>;
+  dependencies?: Record<string, PackageLockV1Entry>;
+}
+
+interface PackageLockEntry {
+  version?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+interface PackageLockV1Entry {
+  version?: string;
+  // The ranges it declares for its own dependencies
+  requires?: Record<string, string>;
+  dependencies?: Record<string, PackageLockV1Entry>;
+}
+
+interface YamlMap {
+  [key: string]: string | YamlMap;
+}
+
+/**
+ * Versions recorded in a lockfile. npm lockfiles key versions by install path; yarn and
+ * pnpm only record which version each dependency range resolved to, so a nested install
+ * is resolved by following the ranges down from the project's own dependencies.
+ */
+interface LockfileVersions {
+  byInstallPath: Map<string, string>;
+  // `name@range` -> version
+  byDescriptor: Map<string, string>;
+  // Every locked version of each package
+  byName: Map<string, Set<string>>;
+  // `name@version` -> the ranges it declares for its own dependencies
+  dependencyRanges: Map<string, Map<string, string>>;
+  // The project's own dependency ranges
+  rootRanges: Map<string, string>;
+}
+
+/**
+ * Resolves the version of an installed package from where it is installed. The
+ * package.json at the install path wins; without node_modules (for example when
+ * analyzing a CI artefact) the project's lockfile is used instead.
+ */
+export class PackageVersionResolver {
+  private projectRoot: string;
+  private cache = new Map<string, string | undefined>();
+  private manifests = new Map<string, PackageManifest | undefined>();
+  private lockfile?: LockfileVersions | null;
+
+  constructor(projectRoot: string = process.cwd()) {
+    this.projectRoot = path.resolve(projectRoot);
+  }
+
+  /**
+   * Get the install path of the package a module belongs to, such as
+   * `node_modules/a/node_modules/pkg`, or undefined for modules outside node_modules
+   */
+  static getInstallPath(modulePath: string): string | undefined {
+    return parsePackagePath(modulePath)?.installPath;
+  }
+
+  /**
+   * Get the version of the package a module belongs to
+   */
+  resolve(modulePath: string): string | undefined {
+    const installPath = PackageVersionResolver.getInstallPath(modulePath);
+    return installPath ? this.resolveInstallPath(installPath) : undefined;
+  }
+
+  /**
+   * Get the version of the package installed at an install path
+   */
+  resolveInstallPath(packagePath: string): string | undefined {
+    const location = parsePackagePath(packagePath);
+    const installPath = location ? location.installPath : packagePath;
+    if (!this.cache.has(installPath)) {
+      // pnpm and Yarn PnP paths carry the version themselves
+      this.cache.set(
+        installPath,
+        location?.version ??
+          this.readInstalledVersion(installPath) ??
+          this.readLockedVersion(installPath)
+      );
+    }
+    return this.cache.get(installPath);
+  }
+
+  /**
+   * Get the names of the packages the package installed at an install path depends on,
+   * from its package.json or the lockfile. Peer dependencies are left out, since the
+   * package that installs them owns them. Returns undefined when neither is found.
+   */
+  resolveDependencies(packagePath: string): string[] | undefined {
+    const location = parsePackagePath(packagePath);
+    const installPath = location ? location.installPath : packagePath;
+
+    const manifest = this.readInstalledManifest(installPath);
+    if (manifest) {
+      return Object.keys({ ...manifest.dependencies, ...manifest.optionalDependencies });
+    }
+
+    const version = this.resolveInstallPath(installPath);
+    const name = location?.name;
+    const ranges =
+      name && version ? this.getLockfile()?.dependencyRanges.get(`${name}@${version}`) : undefined;
+    return ranges ? Array.from(ranges.keys()) : undefined;
+  }
+
+  /**
+   * Get the packages the project's own package.json depends on
+   */
+  getProjectDependencies(): Array<{ name: string; dev: boolean }> {
+    const packageJson = readManifest(path.join(this.projectRoot, 'package.json'));
+    if (!packageJson) {
+      return [];
+    }
+    const dependencies = Object.keys({
+      ...packageJson.dependencies,
+      ...packageJson.optionalDependencies,
+    }).map((name) => ({ name, dev: false }));
+    const devDependencies = Object.keys(packageJson.devDependencies || {})
+      .filter((name) => !dependencies.some((dependency) => dependency.name === name))
+      .map((name) => ({ name, dev: true }));
+    return [...dependencies, ...devDependencies];
+  }
+
+  /**
+   * Read the package.json of the package installed at an install path
+   */
+  getManifest(packagePath: string): PackageManifest | undefined {
+    return this.readInstalledManifest(parsePackagePath(packagePath)?.installPath ?? packagePath);
+  }
+
+  /**
+   * Find the directory on disk of the package installed at an install path
+   */
+  findInstallDir(packagePath: string): string | undefined {
+    const installPath = parsePackagePath(packagePath)?.installPath ?? packagePath;
+    return this.getSearchDirs()
+      .map((dir) => path.join(dir, installPath))
+      .find((dir) => fs.existsSync(path.join(dir, 'package.json')));
+  }
+
+  private readInstalledVersion(installPath: string): string | undefined {
+    const manifest = this.readInstalledManifest(installPath);
+    return manifest && typeof manifest.version === 'string' ? manifest.version : undefined;
+  }
+
+  /**
+   * Read package.json at the install path, from the project root or, for hoisted
+   * workspace installs, any directory above it
+   */
+  private readInstalledManifest(installPath: string): PackageManifest | undefined {
+    if (!this.manifests.has(installPath)) {
+      this.manifests.set(
+        installPath,
+        this.getSearchDirs()
+          .map((dir) => readManifest(path.join(dir, installPath, 'package.json')))
+          .find(Boolean)
+      );
+    }
+    return this.manifests.get(installPath);
+  }
+
+  private getLockfile(): LockfileVersions | null {
+    if (this.lockfile === undefined) {
+      this.lockfile = this.loadLockfile();
+    }
+    return this.lockfile;
+  }
+
+  private readLockedVersion(installPath: string): string | undefined {
+    const lockfile = this.getLockfile();
+    if (!lockfile) {
+      return undefined;
+    }
+
+    const locked = lockfile.byInstallPath.get(installPath);
+    if (locked) {
+      return locked;
+    }
+
+    // Follow the dependency ranges from the top-level install down to the nested one
+    const names = installPath.split(/\/?node_modules\//).filter(Boolean);
+    let version: string | undefined;
+    let ranges = lockfile.rootRanges;
+    for (const name of names) {
+      const range = ranges.get(name);
+      version = range !== undefined ? lockfile.byDescriptor.get(`${name}@${range}`) : undefined;
+      if (!version) {
+        break;
+      }
+      ranges = lockfile.dependencyRanges.get(`${name}@${version}`) || new Map();
+    }
+    if (version) {
+      return version;
+    }
+
+    // Otherwise, only a package locked at a single version is unambiguous
+    const versions = lockfile.byName.get(names[names.length - 1]);
+    return versions && versions.size === 1 ? Array.from(versions)[0] : undefined;
+  }
+
+  /**
+   * Parse the nearest lockfile at or above the project root
+   */
+  private loadLockfile(): LockfileVersions | null {
+    for (const dir of this.getSearchDirs()) {
+      for (const name of LOCKFILES) {
+        const lockfilePath = path.join(dir, name);
+        if (!fs.existsSync(lockfilePath)) {
+          continue;
+        }
+        try {
+          const content = fs.readFileSync(lockfilePath, 'utf-8');
+          const versions = createLockfileVersions();
+          if (name === 'yarn.lock') {
+            readYarnLock(content, versions);
+          } else if (name === 'pnpm-lock.yaml') {
+            readPnpmLock(content, versions);
+          } else {
+            readPackageLock(JSON.parse(content), versions);
+          }
+          if (versions.rootRanges.size === 0) {
+            readRootRanges(path.join(dir, 'package.json'), versions);
+          }
+          return versions;
+        } catch (error) {
+          // Ignore unreadable lockfiles
+        }
+      }
+    }
+    return null;
+  }
+
+  private getSearchDirs(): string[] {
+    const dirs: string[] = [];
+    let dir = this.projectRoot;
+    for (;;) {
+      dirs.push(dir);
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return dirs;
+      }
+      dir = parent;
+    }
+  }
+}
+
+function createLockfileVersions(): LockfileVersions {
+  return {
+    byInstallPath: new Map(),
+    byDescriptor: new Map(),
+    byName: new Map(),
+    dependencyRanges: new Map(),
+    rootRanges: new Map(),
+  };
+}
+
+function addVersion(versions: LockfileVersions, name: string, version: string): void {
+  if (!versions.byName.has(name)) {
+    versions.byName.set(name, new Set());
+  }
+  versions.byName.get(name)!.add(version);
+}
+
+function addDependencyRanges(
+  versions: LockfileVersions,
+  key: string,
+  dependencies: Record<string, string>
+): void {
+  versions.dependencyRanges.set(key, new Map(Object.entries(dependencies)));
+}
+
+function readPackageLock(lock: PackageLock, versions: LockfileVersions): void {
+  if (lock.packages) {
+    Object.entries(lock.packages).forEach(([installPath, entry]) => {
+      // Workspace installs (`packages/app/node_modules/...`) are left to the ranges
+      if (!installPath.startsWith('node_modules/') || !entry.version) {
+        return;
+      }
+      const name = installPath.replace(/^.*node_modules\//, '');
+      versions.byInstallPath.set(installPath, entry.version);
+      addVersion(versions, name, entry.version);
+      addDependencyRanges(versions, `${name}@${entry.version}`, {
+        ...entry.dependencies,
+        ...entry.optionalDependencies,
+      });
+    });
+    return;
+  }
+
+  const walk = (dependencies: Record<string, PackageLockV1Entry>, prefix: string) => {
+    Object.entries(dependencies).forEach(([name, entry]) => {
+      const installPath = `${prefix}node_modules/${name}`;
+      if (entry.version) {
+        versions.byInstallPath.set(installPath, entry.version);
+        addVersion(versions, name, entry.version);
+        addDependencyRanges(versions, `${name}@${entry.version}`, entry.requires || {});
+      }
+      if (entry.dependencies) {
+        walk(entry.dependencies, `${installPath}/`);
+      }
+    });
+  };
+  walk(lock.dependencies || {}, '');
+}
+
+/**
+ * yarn.lock, both the classic format and Berry's YAML. Each entry lists the
+ * descriptors (`name@range`) that resolved to it.
+ */
+function readYarnLock(content: string, versions: LockfileVersions): void {
+  const entries = parseIndented(content);
+  Object.entries(entries).forEach(([key, entry]) => {
+    if (typeof entry === 'string' || typeof entry.version !== 'string') {
+      return;
+    }
+    const version = entry.version;
+    key.split(',').forEach((descriptor) => {
+      const [name, range] = splitDescriptor(descriptor.trim().replace(/^["']|["']$/g, ''));
+      // Skips Berry's `__metadata` entry
+      if (!range) {
+        return;
+      }
+      versions.byDescriptor.set(`${name}@${stripProtocol(range)}`, version);
+      addVersion(versions, name, version);
+
+      const dependencies = entry.dependencies;
+      if (dependencies && typeof dependencies !== 'string') {
+        const ranges = new Map<string, string>();
+        Object.entries(dependencies).forEach(([dependency, dependencyRange]) => {
+          if (typeof dependencyRange === 'string') {
+            ranges.set(dependency, stripProtocol(dependencyRange));
+          }
+        });
+        versions.dependencyRanges.set(`${name}@${version}`, ranges);
+      }
+    });
+  });
+}
+
+/**
+ * pnpm-lock.yaml. Package keys hold the resolved version (`/name/1.0.0` in v5,
+ * `/name@1.0.0` in v6 and `name@1.0.0` in v9) and dependencies are recorded by version
+ * rather than range, so each version is its own descriptor.
+ */
+function readPnpmLock(content: string, versions: LockfileVersions): void {
+  const lock = parseIndented(content);
+
+  const readSection = (section: string | YamlMap | undefined) => {
+    if (!section || typeof section === 'string') {
+      return;
+    }
+    Object.entries(section).forEach(([key, entry]) => {
+      const parsed = parsePnpmKey(key);
+      if (!parsed) {
+        return;
+      }
+      const [name, version] = parsed;
+      versions.byDescriptor.set(`${name}@${version}`, version);
+      addVersion(versions, name, version);
+
+      if (typeof entry !== 'string') {
+        const ranges = new Map<string, string>();
+        ['dependencies', 'optionalDependencies'].forEach((field) => {
+          readPnpmDependencies(entry[field]).forEach((value, dependency) =>
+            ranges.set(dependency, value)
+          );
+        });
+        const existing = versions.dependencyRanges.get(`${name}@${version}`);
+        versions.dependencyRanges.set(
+          `${name}@${version}`,
+          existing ? new Map([...existing, ...ranges]) : ranges
+        );
+      }
+    });
+  };
+  readSection(lock.packages);
+  // v9 moved the resolved dependencies of each package into `snapshots`
+  readSection(lock.snapshots);
+
+  const importers = lock.importers;
+  const root = importers && typeof importers !== 'string' ? importers['.'] : lock;
+  if (root && typeof root !== 'string') {
+    ['dependencies', 'devDependencies', 'optionalDependencies'].forEach((field) => {
+      readPnpmDependencies(root[field]).forEach((version, name) =>
+        versions.rootRanges.set(name, version)
+      );
+    });
+  }
+}
+
+function readPnpmDependencies(section: string | YamlMap | undefined): Map<string, string> {
+  const dependencies = new Map<string, string>();
+  if (section && typeof section !== 'string') {
+    Object.entries(section).forEach(([name, value]) => {
+      // v6+ importers record `{ specifier, version }`, everything else the version itself
+      const version = typeof value === 'string' ? value : value.version;
+      if (typeof version === 'string' && !/^(link|file|workspace):/.test(version)) {
+        dependencies.set(name, cleanPnpmVersion(version));
+      }
+    });
+  }
+  return dependencies;
+}
+
+function parsePnpmKey(key: string): [string, string] | undefined {
+  const spec = key.replace(/^\//, '').replace(/\(.*$/, '');
+  const v5 = spec.match(/^((?:@[^/]+\/)?[^/@]+)\/(\d[^/]*)$/);
+  if (v5) {
+    return [v5[1], cleanPnpmVersion(v5[2])];
+  }
+  const [name, version] = splitDescriptor(spec);
+  return name && version ? [name, cleanPnpmVersion(version)] : undefined;
+}
+
+// Drop peer dependency suffixes: `1.0.0(react@18.2.0)` and v5's `1.0.0_react@18.2.0`
+function cleanPnpmVersion(version: string): string {
+  return version.replace(/\(.*$/, '').replace(/_.*$/, '');
+}
+
+function readRootRanges(packageJsonPath: string, versions: LockfileVersions): void {
+  const packageJson = readManifest(packageJsonPath);
+  if (!packageJson) {
+    return;
+  }
+  (['dependencies', 'devDependencies', 'optionalDependencies'] as const).forEach((field) => {
+    Object.entries(packageJson[field] || {}).forEach(([name, range]) =>
+      versions.rootRanges.set(name, stripProtocol(range))
+    );
+  });
+}
+
+/**
+ * Split `name@range`, where scoped names start with `@`
+ */
+function splitDescriptor(descriptor: string): [string, string] {
+  const at = descriptor.indexOf('@', 1);
+  return at === -1 ? [descriptor, ''] : [descriptor.slice(0, at), descriptor.slice(at + 1)];
+}
+
+function stripProtocol(range: string): string {
+  return range.replace(/^npm:/, '');
+}
+
+function stripQuotes(text: string): string {
+  return text.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Read the nested maps of a lockfile by indentation. Covers the subset of YAML that
+ * pnpm and Yarn Berry write, and classic yarn.lock's `key "value"` lines; lists and
+ * flow collections are kept as plain strings.
+ */
+function parseIndented(content: string): YamlMap {
+  const root: YamlMap = {};
+  const stack: Array<{ indent: number; map: YamlMap }> = [{ indent: -1, map: root }];
+
+  content.split(/\r?\n/).forEach((line) => {
+    const text = line.trim();
+    if (!text || text.startsWith('#') || text.startsWith('- ')) {
+      return;
+    }
+    const indent = line.length - line.trimStart().length;
+    while (stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1].map;
+
+    if (text.endsWith(':')) {
+      const child: YamlMap = {};
+      parent[stripQuotes(text.slice(0, -1))] = child;
+      stack.push({ indent, map: child });
+      return;
+    }
+
+    let key: string;
+    let rest: string;
+    const quoted = text.match(/^(["'])(.*?)\1:?\s*(.*)$/);
+    if (quoted) {
+      key = quoted[2];
+      rest = quoted[3];
+    } else {
+      const separator = text.search(/:\s|\s/);
+      if (separator === -1) {
+        return;
+      }
+      key = text.slice(0, separator);
+      rest = text.slice(separator).replace(/^:?\s*/, '');
+    }
+    parent[key] = stripQuotes(rest.trim());
+  });
+
+  return root;
+}
+
+function readManifest(filePath: string): PackageManifest | undefined {
+  const manifest = readJson(filePath);
+  return manifest && typeof manifest === 'object' && !Array.isArray(manifest)
+    ? (manifest as PackageManifest)
+    : undefined;
+}
+
+function readJson(filePath: string): unknown {
+  try {
+    if (fs.existsSync(filePath)) {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    }
+  } catch (error) {
+    // Ignore unreadable files
+  }
+  return undefined;
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { OptimizationEngine } from '../analyzer/optimizationEngine';
+import { ProjectConfig } from '../types';
+
+const loadModule = createRequire(__filename);
+
+export const CONFIG_FILE_NAMES = [
+  'rnbi.config.js',
+  'rnbi.config.json',
+  '.rnbundlerc.json',
+  '.rnbundlerc',
+];
+
+/**
+ * Load the project config, either from an explicit path or from the first of
+ * CONFIG_FILE_NAMES in the project root. JavaScript configs are required and may export
+ * the config object or a default export. A project without a config file gets an empty
+ * config; a config file that is missing or invalid throws.
+ */
+export function loadProjectConfig(
+  projectRoot: string = process.cwd(),
+  configPath?: string
+): ProjectConfig {
+  const filePath = configPath
+    ? path.resolve(projectRoot, configPath)
+    : CONFIG_FILE_NAMES.map((name) => path.join(projectRoot, name)).find((candidate) =>
+        fs.existsSync(candidate)
+      );
+  if (!filePath) {
+    return {};
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Config file not found: ${filePath}`);
+  }
+
+  let config: unknown;
+  try {
+    config = readConfigFile(filePath);
+  } catch (error) {
+    throw new Error(`Invalid config file ${filePath}: ${(error as Error).message}`);
+  }
+  if (!isObject(config)) {
+    throw new Error(`Invalid config file ${filePath}: expected an object`);
+  }
+
+  const invalid = (message: string) => new Error(`Invalid config file ${filePath}: ${message}`);
+
+  const licenses = config.licenses;
+  if (licenses !== undefined) {
+    if (!isObject(licenses)) {
+      throw invalid('licenses must be an object');
+    }
+    ['allow', 'deny'].forEach((key) => {
+      if (!isOptionalStringList(licenses[key])) {
+        throw invalid(`licenses.${key} must be a list of strings`);
+      }
+    });
+  }
+
+  const optimizationRules = config.optimizationRules;
+  if (optimizationRules !== undefined) {
+    if (!isObject(optimizationRules)) {
+      throw invalid('optimizationRules must be an object');
+    }
+    [
+      'enabled',
+      'checkDuplicates',
+      'checkHeavyPackages',
+      'checkKnownAlternatives',
+      'checkModules',
+      'checkDevCode',
+    ].forEach((key) => {
+      if (optimizationRules[key] !== undefined && typeof optimizationRules[key] !== 'boolean') {
+        throw invalid(`optimizationRules.${key} must be true or false`);
+      }
+    });
+    ['disable', 'essentialPackages'].forEach((key) => {
+      if (!isOptionalStringList(optimizationRules[key])) {
+        throw invalid(`optimizationRules.${key} must be a list of strings`);
+      }
+    });
+
+    const { rules, thresholds } = optimizationRules;
+    if (rules !== undefined) {
+      if (!Array.isArray(rules)) {
+        throw invalid('optimizationRules.rules must be a list');
+      }
+      rules.forEach((rule: unknown, index) => {
+        if (!isObject(rule) || typeof rule.packageName !== 'string') {
+          throw invalid(`optimizationRules.rules[${index}] needs a packageName`);
+        }
+        ['alternative', 'reason'].forEach((key) => {
+          if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+            throw invalid(`optimizationRules.rules[${index}].${key} must be a string`);
+          }
+        });
+        const savings = rule.estimatedSavings;
+        if (
+          savings !== undefined &&
+          !(typeof savings === 'number' && savings >= 0 && savings <= 100)
+        ) {
+          throw invalid(
+            `optimizationRules.rules[${index}].estimatedSavings must be a percentage from 0 to 100`
+          );
+        }
+        const isComplete = ['alternative', 'reason', 'estimatedSavings'].every(
+          (key) => rule[key] !== undefined
+        );
+        if (!isComplete && !OptimizationEngine.hasBuiltInRule(rule.packageName)) {
+          throw invalid(
+            `optimizationRules.rules[${index}] for ${rule.packageName} has no built-in rule, so it needs an alternative, reason and estimatedSavings`
+          );
+        }
+      });
+    }
+    if (thresholds !== undefined) {
+      if (!isObject(thresholds)) {
+        throw invalid('optimizationRules.thresholds must be an object');
+      }
+      ['largePackage', 'duplicate', 'identicalModules'].forEach((key) => {
+        const value = thresholds[key];
+        if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+          throw invalid(`optimizationRules.thresholds.${key} must be a size in bytes`);
+        }
+      });
+    }
+  }
+  return config as ProjectConfig;
+}
+
+/**
+ * Read a JSON config, or require a JavaScript config and take its default export if any
+ */
+function readConfigFile(filePath: string): unknown {
+  if (!/\.c?js$/.test(filePath)) {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+  const exported: unknown = loadModule(filePath);
+  return isObject(exported) && exported.__esModule ? exported.default : exported;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isOptionalStringList(value: unknown): value is string[] | undefined {
+  return (
+    value === undefined || (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+  );
+}
@@ -0,0 +1,129 @@
+// Components whose reachability is tracked in one pass; each component keeps a bitmask
+// of the ones it reaches
+const BATCH_SIZE = 1024;
+const BATCH_WORDS = BATCH_SIZE / 32;
+
+/**
+ * Sum the sizes of everything each node reaches, itself included. Nodes in a cycle reach
+ * the same nodes, so the graph is collapsed into its strongly connected components and
+ * reachability is propagated through the resulting acyclic graph as bitmasks, a batch
+ * of components at a time. That is O((N + E) * N / 32) rather than a walk from every node.
+ */
+export function computeReachableSizes(successors: number[][], sizes: number[]): number[] {
+  const { component, componentCount } = findComponents(successors);
+  const componentSizes = new Float64Array(componentCount);
+  const componentSuccessors: number[][] = Array.from({ length: componentCount }, () => []);
+  successors.forEach((targets, node) => {
+    componentSizes[component[node]] += sizes[node];
+    targets.forEach((target) => {
+      if (component[target] !== component[node]) {
+        componentSuccessors[component[node]].push(component[target]);
+      }
+    });
+  });
+
+  const reachable = new Float64Array(componentCount);
+  const masks = new Int32Array(componentCount * BATCH_WORDS);
+  // The summed size of every value of each byte of a mask, so a mask is summed a byte
+  // at a time rather than a bit at a time
+  const byteSums = new Float64Array((BATCH_SIZE / 8) * 256);
+
+  for (let first = 0; first < componentCount; first += BATCH_SIZE) {
+    const count = Math.min(BATCH_SIZE, componentCount - first);
+    for (let byte = 0; byte < BATCH_SIZE / 8; byte++) {
+      const base = byte * 256;
+      for (let value = 1; value < 256; value++) {
+        const bit = byte * 8 + 31 - Math.clz32(value & -value);
+        byteSums[base + value] =
+          byteSums[base + (value & (value - 1))] + (bit < count ? componentSizes[first + bit] : 0);
+      }
+    }
+
+    // Components are numbered after everything they reach, so none before the batch
+    // reaches into it and each one's successors are done before it
+    for (let node = first; node < componentCount; node++) {
+      const row = node * BATCH_WORDS;
+      masks.fill(0, row, row + BATCH_WORDS);
+      if (node < first + count) {
+        masks[row + ((node - first) >>> 5)] |= 1 << ((node - first) & 31);
+      }
+      componentSuccessors[node].forEach((target) => {
+        if (target < first) return;
+        const targetRow = target * BATCH_WORDS;
+        for (let word = 0; word < BATCH_WORDS; word++) {
+          masks[row + word] |= masks[targetRow + word];
+        }
+      });
+
+      for (let word = 0; word < BATCH_WORDS; word++) {
+        const mask = masks[row + word];
+        if (mask === 0) continue;
+        for (let byte = 0; byte < 4; byte++) {
+          reachable[node] += byteSums[(word * 4 + byte) * 256 + ((mask >>> (byte * 8)) & 0xff)];
+        }
+      }
+    }
+  }
+
+  return successors.map((_, node) => reachable[component[node]]);
+}
+
+/**
+ * Find the strongly connected components with Tarjan's algorithm. Components are
+ * numbered in the order they complete, which puts every component after the ones it
+ * reaches.
+ */
+function findComponents(successors: number[][]): {
+  component: Int32Array;
+  componentCount: number;
+} {
+  const nodeCount = successors.length;
+  const index = new Int32Array(nodeCount).fill(-1);
+  const lowLink = new Int32Array(nodeCount);
+  const component = new Int32Array(nodeCount).fill(-1);
+  const stack: number[] = [];
+  let nextIndex = 0;
+  let componentCount = 0;
+
+  // Iterative DFS so large bundles do not overflow the call stack
+  for (let start = 0; start < nodeCount; start++) {
+    if (index[start] !== -1) continue;
+    index[start] = lowLink[start] = nextIndex++;
+    stack.push(start);
+    const frames: { node: number; next: number }[] = [{ node: start, next: 0 }];
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const targets = successors[frame.node];
+
+      if (frame.next < targets.length) {
+        const target = targets[frame.next++];
+        if (index[target] === -1) {
+          index[target] = lowLink[target] = nextIndex++;
+          stack.push(target);
+          frames.push({ node: target, next: 0 });
+        } else if (component[target] === -1) {
+          // Still on the stack, so part of the component being built
+          lowLink[frame.node] = Math.min(lowLink[frame.node], index[target]);
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].node;
+        lowLink[parent] = Math.min(lowLink[parent], lowLink[frame.node]);
+      }
+      if (lowLink[frame.node] === index[frame.node]) {
+        let member: number;
+        do {
+          member = stack.pop()!;
+          component[member] = componentCount;
+        } while (member !== frame.node);
+        componentCount++;
+      }
+    }
+  }
+
+  return { component, componentCount };
+}
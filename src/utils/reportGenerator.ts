@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { BundleAnalysis } from '../types';
+import { BundleAnalysis, LicenseAnalysis, PackageLicense } from '../types';
 import { formatBytes } from './fileHelper';
 
 export class ReportGenerator {
@@ -59,6 +59,15 @@ export class ReportGenerator {
     .optimization.high { border-color: #ef4444; }
     .optimization.medium { border-color: #f59e0b; }
     .optimization.low { border-color: #10b981; }
+    .optimization.dev-code { background: #fef2f2; }
+    .dev-code-warning {
+      background: #fef2f2;
+      border: 2px solid #ef4444;
+      border-radius: 8px;
+      padding: 0 20px 10px;
+      margin: 20px 0;
+    }
+    .dev-code-warning th { background: #ef4444; }
   </style>
 </head>
 <body>
@@ -68,16 +77,56 @@ export class ReportGenerator {
     <h2>Summary</h2>
     <p><strong>Total Bundle Size:</strong> ${formatBytes(analysis.totalSize)}</p>
     <p><strong>Your Code:</strong> ${formatBytes(analysis.yourCodeSize)} (${((analysis.yourCodeSize / analysis.totalSize) * 100).toFixed(2)}%)</p>
+    ${analysis.workspaceSize ? `<p><strong>Workspace Packages:</strong> ${formatBytes(analysis.workspaceSize)} (${((analysis.workspaceSize / analysis.totalSize) * 100).toFixed(2)}%)</p>` : ''}
     <p><strong>node_modules:</strong> ${formatBytes(analysis.nodeModulesSize)} (${((analysis.nodeModulesSize / analysis.totalSize) * 100).toFixed(2)}%)</p>
     <p><strong>React Native:</strong> ${formatBytes(analysis.reactNativeSize)} (${((analysis.reactNativeSize / analysis.totalSize) * 100).toFixed(2)}%)</p>
+    ${analysis.runtimeSize ? `<p><strong>Runtime / Polyfills:</strong> ${formatBytes(analysis.runtimeSize)} (${((analysis.runtimeSize / analysis.totalSize) * 100).toFixed(2)}%)</p>` : ''}
+    ${analysis.unexplainedSize ? `<p><strong>Unexplained Bytes:</strong> ${formatBytes(analysis.unexplainedSize)}</p>` : ''}
+  </div>
+
+  ${
+    analysis.devCode && analysis.devCode.findings.length > 0
+      ? `
+  <div class="dev-code-warning">
+    <h2>🚧 Development Code in Production Bundle</h2>
+    <p><strong>${formatBytes(analysis.devCode.totalSize)}</strong> of dev-only code${
+      analysis.devCode.isDevBundle ? ': this is a development bundle' : ''
+    }</p>
+    <table>
+      <thead>
+        <tr>
+          <th>Code</th>
+          <th>Kind</th>
+          <th>Size</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${analysis.devCode.findings
+          .map(
+            (finding) => `
+          <tr>
+            <td>${finding.name}</td>
+            <td>${finding.description}</td>
+            <td>${formatBytes(finding.size)}</td>
+          </tr>
+        `
+          )
+          .join('')}
+      </tbody>
+    </table>
   </div>
+  `
+      : ''
+  }
 
   <h2>Top Dependencies</h2>
   <table>
     <thead>
       <tr>
         <th>Package</th>
-        <th>Size</th>
+        <th>Self</th>
+        <th>Retained</th>
+        <th>Shared</th>
         <th>% of Bundle</th>
         <th>Modules</th>
       </tr>
@@ -90,6 +139,8 @@ export class ReportGenerator {
         <tr>
           <td>${pkg.name}${pkg.version ? ` (${pkg.version})` : ''}</td>
           <td>${formatBytes(pkg.size)}</td>
+          <td>${formatBytes(pkg.retainedSize ?? pkg.size)}</td>
+          <td>${formatBytes(pkg.sharedSize ?? 0)}</td>
           <td>${pkg.percentage.toFixed(2)}%</td>
           <td>${pkg.modules.length}</td>
         </tr>
@@ -106,9 +157,10 @@ export class ReportGenerator {
   ${analysis.optimizations
     .map(
       (opt) => `
-    <div class="optimization ${opt.severity}">
+    <div class="optimization ${opt.severity}${opt.rule.startsWith('dev-code:') ? ' dev-code' : ''}">
       <h3>${opt.suggestion}</h3>
       <p><strong>Package:</strong> ${opt.package}</p>
+      <p><strong>Rule:</strong> ${opt.rule} (${opt.source})</p>
       <p><strong>Current Size:</strong> ${formatBytes(opt.currentSize)}</p>
       <p><strong>Potential Savings:</strong> ${formatBytes(opt.potentialSavings)}</p>
       ${opt.alternative ? `<p><strong>Alternative:</strong> ${opt.alternative}</p>` : ''}
@@ -150,6 +202,36 @@ export class ReportGenerator {
       : ''
   }
 
+  ${
+    analysis.identicalModules && analysis.identicalModules.groups.length > 0
+      ? `
+  <h2>🧬 Identical Modules</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Module</th>
+        <th>Copies</th>
+        <th>Wasted Size</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${analysis.identicalModules.groups
+        .map(
+          (group) => `
+        <tr>
+          <td>${group.modules[0].path}${group.exact ? '' : ' (near-identical)'}</td>
+          <td>${group.modules.length}</td>
+          <td>${formatBytes(group.wastedSize)}</td>
+        </tr>
+      `
+        )
+        .join('')}
+    </tbody>
+  </table>
+  `
+      : ''
+  }
+
   <p style="text-align: center; color: #666; margin-top: 40px;">
     Generated by React Native Bundle Analyzer
   </p>
@@ -170,18 +252,35 @@ export class ReportGenerator {
 
 - **Total Bundle Size:** ${formatBytes(analysis.totalSize)}
 - **Your Code:** ${formatBytes(analysis.yourCodeSize)} (${((analysis.yourCodeSize / analysis.totalSize) * 100).toFixed(2)}%)
-- **node_modules:** ${formatBytes(analysis.nodeModulesSize)} (${((analysis.nodeModulesSize / analysis.totalSize) * 100).toFixed(2)}%)
+${analysis.workspaceSize ? `- **Workspace Packages:** ${formatBytes(analysis.workspaceSize)} (${((analysis.workspaceSize / analysis.totalSize) * 100).toFixed(2)}%)\n` : ''}- **node_modules:** ${formatBytes(analysis.nodeModulesSize)} (${((analysis.nodeModulesSize / analysis.totalSize) * 100).toFixed(2)}%)
 - **React Native:** ${formatBytes(analysis.reactNativeSize)} (${((analysis.reactNativeSize / analysis.totalSize) * 100).toFixed(2)}%)
+${analysis.runtimeSize ? `- **Runtime / Polyfills:** ${formatBytes(analysis.runtimeSize)} (${((analysis.runtimeSize / analysis.totalSize) * 100).toFixed(2)}%)\n` : ''}${analysis.unexplainedSize ? `- **Unexplained Bytes:** ${formatBytes(analysis.unexplainedSize)}\n` : ''}
+${
+  analysis.devCode && analysis.devCode.findings.length > 0
+    ? `
+## 🚧 Development Code in Production Bundle
+
+> **${formatBytes(analysis.devCode.totalSize)}** of dev-only code${
+        analysis.devCode.isDevBundle ? ': this is a development bundle' : ''
+      }
 
+| Code | Kind | Size |
+|------|------|------|
+${analysis.devCode.findings
+  .map((finding) => `| ${finding.name} | ${finding.description} | ${formatBytes(finding.size)} |`)
+  .join('\n')}
+`
+    : ''
+}
 ## Top Dependencies
 
-| Package | Size | % of Bundle | Modules |
-|---------|------|-------------|---------|
+| Package | Self | Retained | Shared | % of Bundle | Modules |
+|---------|------|----------|--------|-------------|---------|
 ${analysis.packages
   .slice(0, 20)
   .map(
     (pkg) =>
-      `| ${pkg.name}${pkg.version ? ` (${pkg.version})` : ''} | ${formatBytes(pkg.size)} | ${pkg.percentage.toFixed(2)}% | ${pkg.modules.length} |`
+      `| ${pkg.name}${pkg.version ? ` (${pkg.version})` : ''} | ${formatBytes(pkg.size)} | ${formatBytes(pkg.retainedSize ?? pkg.size)} | ${formatBytes(pkg.sharedSize ?? 0)} | ${pkg.percentage.toFixed(2)}% | ${pkg.modules.length} |`
   )
   .join('\n')}
 
@@ -193,9 +292,10 @@ ${
 ${analysis.optimizations
   .map(
     (opt, i) => `
-### ${i + 1}. ${opt.suggestion}
+### ${i + 1}. ${opt.rule.startsWith('dev-code:') ? '🚧 ' : ''}${opt.suggestion}
 
 - **Package:** ${opt.package}
+- **Rule:** ${opt.rule} (${opt.source})
 - **Current Size:** ${formatBytes(opt.currentSize)}
 - **Potential Savings:** ${formatBytes(opt.potentialSavings)}
 ${opt.alternative ? `- **Alternative:** ${opt.alternative}` : ''}
@@ -218,6 +318,25 @@ ${analysis.duplicates.map((dup) => `| ${dup.name} | ${dup.versions.length} | ${f
     : ''
 }
 
+${
+  analysis.identicalModules && analysis.identicalModules.groups.length > 0
+    ? `
+## Identical Modules
+
+| Module | Copies | Wasted Size |
+|--------|--------|-------------|
+${analysis.identicalModules.groups
+  .map(
+    (group) =>
+      `| ${group.modules[0].path}${group.exact ? '' : ' (near-identical)'} | ${
+        group.modules.length
+      } | ${formatBytes(group.wastedSize)} |`
+  )
+  .join('\n')}
+`
+    : ''
+}
+
 ---
 *Generated by React Native Bundle Analyzer*
     `;
@@ -230,12 +349,106 @@ ${analysis.duplicates.map((dup) => `| ${dup.name} | ${dup.versions.length} | ${f
    */
   static generateCsvReport(analysis: BundleAnalysis, outputPath: string): void {
     const csv = [
-      'Package,Version,Size (bytes),Percentage,Modules',
+      'Package,Version,Self Size (bytes),Retained Size (bytes),Shared Size (bytes),Percentage,Modules',
       ...analysis.packages.map(
-        (pkg) => `"${pkg.name}","${pkg.version || ''}",${pkg.size},${pkg.percentage.toFixed(4)},${pkg.modules.length}`
+        (pkg) => `"${pkg.name}","${pkg.version || ''}",${pkg.size},${pkg.retainedSize ?? pkg.size},${pkg.sharedSize ?? 0},${pkg.percentage.toFixed(4)},${pkg.modules.length}`
       ),
     ].join('\n');
 
     fs.writeFileSync(outputPath, csv, 'utf-8');
   }
+
+  /**
+   * Generate a plain text third-party notices file with each package's license text
+   */
+  static generateNoticesText(licenses: LicenseAnalysis, outputPath: string): void {
+    const separator = '-'.repeat(80);
+    const text = [
+      'THIRD-PARTY SOFTWARE NOTICES',
+      '',
+      `This application includes the following ${licenses.packages.length} third-party packages.`,
+      '',
+      ...licenses.packages.map((pkg) =>
+        [
+          separator,
+          `${pkg.name}${pkg.version ? ` ${pkg.version}` : ''}`,
+          `License: ${pkg.license}`,
+          ...(pkg.repository ? [`Repository: ${pkg.repository}`] : []),
+          ...(pkg.author ? [`Author: ${pkg.author}`] : []),
+          '',
+          pkg.licenseText || 'No license text was found in the package.',
+          '',
+        ].join('\n')
+      ),
+    ].join('\n');
+
+    fs.writeFileSync(outputPath, text, 'utf-8');
+  }
+
+  /**
+   * Generate an HTML third-party notices page with each package's license text
+   */
+  static generateNoticesHtml(licenses: LicenseAnalysis, outputPath: string): void {
+    const renderPackage = (pkg: PackageLicense) => `
+  <section>
+    <h2>${escapeHtml(pkg.name)}${pkg.version ? ` ${escapeHtml(pkg.version)}` : ''}</h2>
+    <p><strong>License:</strong> ${escapeHtml(pkg.license)}</p>
+    ${pkg.repository ? `<p><strong>Repository:</strong> ${escapeHtml(pkg.repository)}</p>` : ''}
+    ${pkg.author ? `<p><strong>Author:</strong> ${escapeHtml(pkg.author)}</p>` : ''}
+    <pre>${escapeHtml(pkg.licenseText || 'No license text was found in the package.')}</pre>
+  </section>`;
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Third-Party Software Notices</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      max-width: 1200px;
+      margin: 0 auto;
+      padding: 20px;
+      color: #333;
+    }
+    section { border-top: 1px solid #ddd; padding: 10px 0; }
+    h2 { font-size: 18px; }
+    pre { white-space: pre-wrap; background: #f5f5f5; padding: 12px; border-radius: 4px; }
+  </style>
+</head>
+<body>
+  <h1>Third-Party Software Notices</h1>
+  <p>This application includes the following ${licenses.packages.length} third-party packages.</p>
+  ${licenses.packages.map(renderPackage).join('')}
+</body>
+</html>
+    `;
+
+    fs.writeFileSync(outputPath, html, 'utf-8');
+  }
+
+  /**
+   * Generate a JSON third-party notices file
+   */
+  static generateNoticesJson(licenses: LicenseAnalysis, outputPath: string): void {
+    const packages = licenses.packages.map((pkg) => ({
+      name: pkg.name,
+      version: pkg.version,
+      license: pkg.license,
+      repository: pkg.repository,
+      author: pkg.author,
+      licenseText: pkg.licenseText,
+    }));
+
+    fs.writeFileSync(outputPath, JSON.stringify({ packages }, null, 2), 'utf-8');
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
 }
@@ -6,11 +6,54 @@ export interface SourceMapData {
   sources: string[];
   names?: string[];
   mappings?: string;
+  sourceRoot?: string;
+  // Metro per-source metadata (function maps), parallel to `sources`
+  x_facebook_sources?: (FacebookSourceMetadata | null)[];
+  // Hermes virtual offset of each function, keyed by bytecode segment ID
+  x_hermes_function_offsets?: { [segmentId: string]: number[] };
+  // Generated line each module starts on, by module ID, in RAM bundle maps
+  x_facebook_offsets?: number[];
 }
 
+export type FacebookSourceMetadata = Array<{ names: string[]; mappings: string }>;
+
+export interface IndexSourceMapData {
+  version: number;
+  sections: Array<{
+    offset: { line: number; column: number };
+    map?: SourceMapData | IndexSourceMapData;
+    url?: string;
+  }>;
+  x_facebook_offsets?: number[];
+}
+
+export interface MappingSegment {
+  generatedColumn: number;
+  sourceIndex?: number;
+  originalLine?: number;
+  originalColumn?: number;
+  nameIndex?: number;
+}
+
+export interface SourceSizes {
+  bySource: Map<number, number>;
+  unmapped: number;
+}
+
+// Module path used for generated bytes that no mapping attributes to a source
+export const UNMAPPED_SOURCE = '[unmapped]';
+
+// Larger maps are recognized by their first bytes rather than parsed whole
+const FULL_VALIDATION_LIMIT = 16 * 1024 * 1024;
+const HEADER_PROBE_SIZE = 64 * 1024;
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map(BASE64_CHARS.split('').map((char, index) => [char, index]));
+
 export class SourcemapParser {
   private sourcemapPath: string;
   private sourcemapData: SourceMapData | null = null;
+  private decodedMappings: MappingSegment[][] | null = null;
 
   constructor(sourcemapPath: string) {
     this.sourcemapPath = sourcemapPath;
@@ -22,7 +65,9 @@ export class SourcemapParser {
   load(): void {
     try {
       const content = fs.readFileSync(this.sourcemapPath, 'utf-8');
-      this.sourcemapData = JSON.parse(content);
+      const flattened = SourcemapParser.flatten(JSON.parse(content));
+      this.sourcemapData = flattened.data;
+      this.decodedMappings = flattened.mappings;
     } catch (error) {
       console.error('Error loading sourcemap:', error);
       throw new Error(`Failed to load sourcemap: ${this.sourcemapPath}`);
@@ -62,6 +107,155 @@ export class SourcemapParser {
     return this.sourcemapData.sources.length;
   }
 
+  /**
+   * Get the decoded mappings, one array of segments per generated line
+   */
+  getMappings(): MappingSegment[][] {
+    if (this.decodedMappings) {
+      return this.decodedMappings;
+    }
+
+    if (!this.sourcemapData || !this.sourcemapData.mappings) {
+      return [];
+    }
+
+    this.decodedMappings = SourcemapParser.decodeMappings(this.sourcemapData.mappings);
+    return this.decodedMappings;
+  }
+
+  /**
+   * Find the source index of the segment covering a generated position (0-based line and column)
+   */
+  getSourceIndexAt(line: number, column: number): number | undefined {
+    const segments = this.getMappings()[line];
+    if (!segments || segments.length === 0) {
+      return undefined;
+    }
+
+    // Binary search for the last segment starting at or before the column
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid].generatedColumn <= column) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return found === -1 ? undefined : segments[found].sourceIndex;
+  }
+
+  /**
+   * Check if the sourcemap carries mappings that can be decoded
+   */
+  hasMappings(): boolean {
+    return this.decodedMappings !== null || (!!this.sourcemapData && !!this.sourcemapData.mappings);
+  }
+
+  /**
+   * Get the Hermes virtual offset of each function in a bytecode segment, if present
+   */
+  getHermesFunctionOffsets(segmentId = 0): number[] | undefined {
+    const offsets = this.sourcemapData?.x_hermes_function_offsets;
+    return offsets ? offsets[String(segmentId)] : undefined;
+  }
+
+  /**
+   * Get the generated line a RAM bundle module starts on, if the map records it
+   */
+  getModuleLine(moduleId: number): number | undefined {
+    const line = this.sourcemapData?.x_facebook_offsets?.[moduleId];
+    return typeof line === 'number' ? line : undefined;
+  }
+
+  /**
+   * Get the Metro metadata (function map) recorded for a source
+   */
+  getSourceMetadata(index: number): FacebookSourceMetadata | undefined {
+    const metadata = this.sourcemapData?.x_facebook_sources?.[index];
+    return metadata || undefined;
+  }
+
+  /**
+   * Count the generated bytes attributed to each source by walking the mappings over the code.
+   * Each segment owns the bytes up to the next segment on its line, or to the end of the line
+   * including its line break. Bytes before the first segment or in segments without a source
+   * are counted as unmapped. `firstLine` is the generated line the code starts on, for
+   * code kept apart from the rest, such as a RAM bundle module.
+   */
+  computeSourceSizes(generatedCode: string, firstLine = 0): SourceSizes {
+    const bySource = new Map<number, number>();
+    let unmapped = 0;
+
+    this.forEachMappedSpan(generatedCode, firstLine, (sourceIndex, span) => {
+      const bytes = Buffer.byteLength(span, 'utf-8');
+      if (sourceIndex === undefined) {
+        unmapped += bytes;
+      } else {
+        bySource.set(sourceIndex, (bySource.get(sourceIndex) || 0) + bytes);
+      }
+    });
+
+    return { bySource, unmapped };
+  }
+
+  /**
+   * Collect the generated code attributed to each source, split the same way as
+   * `computeSourceSizes`
+   */
+  collectSourceCode(generatedCode: string): Map<number, string> {
+    const chunks = new Map<number, string[]>();
+
+    this.forEachMappedSpan(generatedCode, 0, (sourceIndex, span) => {
+      if (sourceIndex === undefined) return;
+      if (!chunks.has(sourceIndex)) {
+        chunks.set(sourceIndex, []);
+      }
+      chunks.get(sourceIndex)!.push(span);
+    });
+
+    const code = new Map<number, string>();
+    chunks.forEach((spans, sourceIndex) => code.set(sourceIndex, spans.join('')));
+    return code;
+  }
+
+  private forEachMappedSpan(
+    generatedCode: string,
+    firstLine: number,
+    visit: (sourceIndex: number | undefined, span: string) => void
+  ): void {
+    const mappings = this.getMappings();
+
+    let lineStart = 0;
+    for (let line = 0; lineStart <= generatedCode.length; line++) {
+      const newlineIndex = generatedCode.indexOf('\n', lineStart);
+      const lineEnd = newlineIndex === -1 ? generatedCode.length : newlineIndex + 1;
+      const lineCode = generatedCode.slice(lineStart, lineEnd);
+      const segments = mappings[firstLine + line] || [];
+
+      if (segments.length === 0) {
+        if (lineCode !== '') visit(undefined, lineCode);
+      } else {
+        if (segments[0].generatedColumn > 0) {
+          visit(undefined, lineCode.slice(0, segments[0].generatedColumn));
+        }
+        segments.forEach((segment, index) => {
+          const end =
+            index + 1 < segments.length ? segments[index + 1].generatedColumn : lineCode.length;
+          const span = lineCode.slice(segment.generatedColumn, end);
+          if (span !== '') visit(segment.sourceIndex, span);
+        });
+      }
+
+      if (newlineIndex === -1) break;
+      lineStart = lineEnd;
+    }
+  }
+
   /**
    * Check if sourcemap is loaded
    */
@@ -84,10 +278,17 @@ export class SourcemapParser {
       if (fs.existsSync(mapPath)) {
         // Validate that it's actually a sourcemap file
         try {
+          if (fs.statSync(mapPath).size > FULL_VALIDATION_LIMIT) {
+            if (hasSourcemapHeader(mapPath)) {
+              return mapPath;
+            }
+            continue;
+          }
+
           const content = fs.readFileSync(mapPath, 'utf-8');
           // Check if it's valid JSON and has sourcemap structure
           const data = JSON.parse(content);
-          if (data.version && data.sources) {
+          if (data.version && (data.sources || Array.isArray(data.sections))) {
             return mapPath;
           }
         } catch (error) {
@@ -100,11 +301,122 @@ export class SourcemapParser {
     return null;
   }
 
+  /**
+   * Flatten an index (sectioned) sourcemap into a single source list and decoded mappings.
+   * Flat maps pass through with their mappings left to be decoded lazily.
+   */
+  static flatten(map: SourceMapData | IndexSourceMapData): {
+    data: SourceMapData;
+    mappings: MappingSegment[][] | null;
+  } {
+    if (!('sections' in map) || !Array.isArray(map.sections)) {
+      const data = map as SourceMapData;
+      if (data.sourceRoot && data.sources) {
+        data.sources = data.sources.map((source) => joinSourceRoot(data.sourceRoot!, source));
+      }
+      return { data, mappings: null };
+    }
+
+    const sources: string[] = [];
+    const sourceIndices = new Map<string, number>();
+    const names: string[] = [];
+    const nameIndices = new Map<string, number>();
+    const facebookSources: (FacebookSourceMetadata | null)[] = [];
+    let hermesFunctionOffsets: SourceMapData['x_hermes_function_offsets'];
+    const lines: MappingSegment[][] = [];
+
+    map.sections.forEach((section) => {
+      if (!section.map) {
+        throw new Error('Index sourcemap sections referencing a "url" are not supported');
+      }
+
+      const flattened = this.flatten(section.map);
+      const sectionData = flattened.data;
+      const sectionMappings = flattened.mappings || this.decodeMappings(sectionData.mappings || '');
+
+      // Deduplicate sources and names across sections
+      const sourceMapping = (sectionData.sources || []).map((source, index) => {
+        if (!sourceIndices.has(source)) {
+          sourceIndices.set(source, sources.length);
+          sources.push(source);
+          facebookSources.push(sectionData.x_facebook_sources?.[index] || null);
+        }
+        return sourceIndices.get(source)!;
+      });
+      const nameMapping = (sectionData.names || []).map((name) => {
+        if (!nameIndices.has(name)) {
+          nameIndices.set(name, names.length);
+          names.push(name);
+        }
+        return nameIndices.get(name)!;
+      });
+
+      if (!hermesFunctionOffsets && sectionData.x_hermes_function_offsets) {
+        hermesFunctionOffsets = sectionData.x_hermes_function_offsets;
+      }
+
+      // Shift the section into place: every line moves down, only the first line moves right
+      sectionMappings.forEach((segments, lineIndex) => {
+        const line = section.offset.line + lineIndex;
+        const columnOffset = lineIndex === 0 ? section.offset.column : 0;
+        const target = lines[line] || (lines[line] = []);
+
+        segments.forEach((segment) => {
+          target.push({
+            ...segment,
+            generatedColumn: segment.generatedColumn + columnOffset,
+            sourceIndex:
+              segment.sourceIndex !== undefined ? sourceMapping[segment.sourceIndex] : undefined,
+            nameIndex: segment.nameIndex !== undefined ? nameMapping[segment.nameIndex] : undefined,
+          });
+        });
+      });
+    });
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i]) lines[i] = [];
+    }
+
+    const data: SourceMapData = { version: map.version, sources, names };
+    if (facebookSources.some((metadata) => metadata !== null)) {
+      data.x_facebook_sources = facebookSources;
+    }
+    if (hermesFunctionOffsets) {
+      data.x_hermes_function_offsets = hermesFunctionOffsets;
+    }
+    if (map.x_facebook_offsets) {
+      data.x_facebook_offsets = map.x_facebook_offsets;
+    }
+
+    return { data, mappings: lines };
+  }
+
+  /**
+   * Decode a Base64 VLQ "mappings" string into absolute segment positions
+   */
+  static decodeMappings(mappings: string): MappingSegment[][] {
+    const lines: MappingSegment[][] = [];
+    const decoder = new MappingsDecoder((segments) => lines.push(segments));
+    decoder.write(mappings);
+    decoder.end();
+    return lines;
+  }
+
   /**
    * Normalize module path for analysis
-   * Converts absolute paths to relative and cleans them up
+   * Converts absolute paths to relative and cleans them up. Files in `workspaceDirs`, the
+   * monorepo workspace package directories (such as `packages/ui`), keep their path from
+   * the workspace root, so they stay apart from the app's own `src/` and from each other.
    */
-  static normalizeModulePath(modulePath: string): string {
+  static normalizeModulePath(modulePath: string, workspaceDirs: string[] = []): string {
+    // Yarn PnP paths keep their cache entry, which holds the package version
+    // Example: /repo/.yarn/cache/react-npm-18.2.0-<hash>.zip/node_modules/react
+    //   -> .yarn/cache/react-npm-18.2.0-<hash>.zip/node_modules/react
+    const yarnMatch = modulePath.match(/(?:^|\/)(\.yarn\/.*?node_modules\/.*)$/);
+    if (yarnMatch) {
+      return yarnMatch[1];
+    }
+
     // Remove absolute path prefix
     // Example: /Users/name/project/node_modules/react -> node_modules/react
     const nodeModulesIndex = modulePath.indexOf('node_modules/');
@@ -112,6 +424,16 @@ export class SourcemapParser {
       return modulePath.substring(nodeModulesIndex);
     }
 
+    for (const dir of workspaceDirs) {
+      if (modulePath.startsWith(`${dir}/`)) {
+        return modulePath;
+      }
+      const workspaceIndex = modulePath.indexOf(`/${dir}/`);
+      if (workspaceIndex !== -1) {
+        return modulePath.substring(workspaceIndex + 1);
+      }
+    }
+
     // For source files, try to extract relative path
     const srcIndex = modulePath.indexOf('/src/');
     if (srcIndex !== -1) {
@@ -136,3 +458,117 @@ export class SourcemapParser {
     return path.basename(modulePath);
   }
 }
+
+/**
+ * Decodes a "mappings" string that may arrive in pieces, passing each generated line's
+ * segments to `onLine` as soon as the line is complete
+ */
+export class MappingsDecoder {
+  private onLine: (segments: MappingSegment[]) => void;
+  private segments: MappingSegment[] = [];
+
+  // Source, original line/column and name indices are relative across the whole map,
+  // while the generated column resets on every line
+  private generatedColumn = 0;
+  private sourceIndex = 0;
+  private originalLine = 0;
+  private originalColumn = 0;
+  private nameIndex = 0;
+
+  private fields: number[] = [];
+  private value = 0;
+  private shift = 0;
+
+  constructor(onLine: (segments: MappingSegment[]) => void) {
+    this.onLine = onLine;
+  }
+
+  write(mappings: string): void {
+    for (let i = 0; i < mappings.length; i++) {
+      const char = mappings[i];
+
+      if (char === ',' || char === ';') {
+        this.flushSegment();
+        if (char === ';') {
+          this.onLine(this.segments);
+          this.segments = [];
+          this.generatedColumn = 0;
+        }
+        continue;
+      }
+
+      const digit = BASE64_VALUES.get(char);
+      if (digit === undefined) {
+        throw new Error(`Invalid character in sourcemap mappings: ${char}`);
+      }
+
+      // Each digit carries 5 bits of data plus a continuation bit
+      this.value += (digit & 31) * Math.pow(2, this.shift);
+      if (digit & 32) {
+        this.shift += 5;
+        continue;
+      }
+
+      // The lowest bit of the assembled value is the sign
+      const value = this.value;
+      this.fields.push(value % 2 === 1 ? -Math.floor(value / 2) : Math.floor(value / 2));
+      this.value = 0;
+      this.shift = 0;
+    }
+  }
+
+  /**
+   * Emit the last line, which has no trailing semicolon
+   */
+  end(): void {
+    this.flushSegment();
+    this.onLine(this.segments);
+    this.segments = [];
+  }
+
+  private flushSegment(): void {
+    const fields = this.fields;
+    if (fields.length === 0) {
+      return;
+    }
+
+    this.generatedColumn += fields[0];
+    const segment: MappingSegment = { generatedColumn: this.generatedColumn };
+
+    if (fields.length >= 4) {
+      this.sourceIndex += fields[1];
+      this.originalLine += fields[2];
+      this.originalColumn += fields[3];
+      segment.sourceIndex = this.sourceIndex;
+      segment.originalLine = this.originalLine;
+      segment.originalColumn = this.originalColumn;
+    }
+
+    if (fields.length >= 5) {
+      this.nameIndex += fields[4];
+      segment.nameIndex = this.nameIndex;
+    }
+
+    this.segments.push(segment);
+    this.fields = [];
+  }
+}
+
+function hasSourcemapHeader(mapPath: string): boolean {
+  const header = Buffer.alloc(HEADER_PROBE_SIZE);
+  const fd = fs.openSync(mapPath, 'r');
+  try {
+    const bytesRead = fs.readSync(fd, header, 0, HEADER_PROBE_SIZE, 0);
+    const text = header.toString('utf-8', 0, bytesRead);
+    return /^\s*\{/.test(text) && /"version"\s*:/.test(text);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export function joinSourceRoot(sourceRoot: string, source: string): string {
+  if (!source || source.startsWith('/') || /^[a-z]+:/i.test(source)) {
+    return source;
+  }
+  return sourceRoot.endsWith('/') ? sourceRoot + source : `${sourceRoot}/${source}`;
+}
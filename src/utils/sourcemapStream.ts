@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import { joinSourceRoot, MappingSegment, MappingsDecoder } from './sourcemapParser';
+
+export interface SourcemapOutline {
+  sources: string[];
+  // Byte offset of the first character inside the "mappings" string
+  mappingsOffset: number | null;
+  // Index maps keep their sources and mappings in sections, which are not streamed
+  hasSections: boolean;
+}
+
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+// Bytes the top-level key scanner cares about
+const QUOTE = 34;
+const COMMA = 44;
+const COLON = 58;
+const OPEN_BRACKET = 91;
+const BACKSLASH = 92;
+const CLOSE_BRACKET = 93;
+const OPEN_BRACE = 123;
+const CLOSE_BRACE = 125;
+
+// Top-level values worth keeping; everything else, sourcesContent included, is skipped
+const CAPTURED_KEYS = new Set(['sources', 'sourceRoot']);
+
+/**
+ * Reads a sourcemap file in fixed-size chunks so that maps larger than the heap can be
+ * analyzed: the outline pass keeps only the sources list, and mappings are decoded one
+ * generated line at a time.
+ */
+export class SourcemapStream {
+  private sourcemapPath: string;
+  private chunkSize: number;
+
+  constructor(sourcemapPath: string, chunkSize = DEFAULT_CHUNK_SIZE) {
+    this.sourcemapPath = sourcemapPath;
+    this.chunkSize = chunkSize;
+  }
+
+  /**
+   * Scan the top-level keys of the map once, without parsing the values that are not needed
+   */
+  readOutline(onProgress?: (bytesRead: number, totalBytes: number) => void): SourcemapOutline {
+    const outline: SourcemapOutline = { sources: [], mappingsOffset: null, hasSections: false };
+    let sourceRoot: string | undefined;
+
+    const fd = fs.openSync(this.sourcemapPath, 'r');
+    const totalBytes = fs.fstatSync(fd).size;
+    const buffer = Buffer.alloc(this.chunkSize);
+
+    let position = 0;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let inValue = false;
+    let keyBytes: number[] | null = null;
+    let key: string | null = null;
+    let valueParts: Buffer[] | null = null;
+
+    try {
+      let bytesRead: number;
+      while ((bytesRead = fs.readSync(fd, buffer, 0, this.chunkSize, position)) > 0) {
+        let captureFrom = 0;
+
+        const endValue = (index: number) => {
+          if (valueParts) {
+            valueParts.push(Buffer.from(buffer.subarray(captureFrom, index)));
+            const value = JSON.parse(Buffer.concat(valueParts).toString('utf-8'));
+            if (key === 'sources' && Array.isArray(value)) {
+              outline.sources = value;
+            } else if (key === 'sourceRoot' && typeof value === 'string') {
+              sourceRoot = value;
+            }
+            valueParts = null;
+          }
+          inValue = false;
+          key = null;
+        };
+
+        for (let i = 0; i < bytesRead; i++) {
+          const byte = buffer[i];
+
+          if (inString) {
+            if (escaped) {
+              escaped = false;
+            } else if (byte === BACKSLASH) {
+              escaped = true;
+            } else if (byte === QUOTE) {
+              inString = false;
+              if (keyBytes) {
+                key = Buffer.from(keyBytes).toString('utf-8');
+                keyBytes = null;
+              }
+            } else if (keyBytes) {
+              keyBytes.push(byte);
+            }
+            continue;
+          }
+
+          if (byte === QUOTE) {
+            inString = true;
+            if (depth === 1 && !inValue) {
+              keyBytes = [];
+            } else if (depth === 1 && key === 'mappings' && outline.mappingsOffset === null) {
+              outline.mappingsOffset = position + i + 1;
+            }
+          } else if (byte === COLON && depth === 1 && !inValue) {
+            inValue = true;
+            if (key === 'sections') {
+              outline.hasSections = true;
+            } else if (key !== null && CAPTURED_KEYS.has(key)) {
+              valueParts = [];
+              captureFrom = i + 1;
+            }
+          } else if (byte === OPEN_BRACE || byte === OPEN_BRACKET) {
+            depth++;
+          } else if (byte === CLOSE_BRACE || byte === CLOSE_BRACKET) {
+            if (depth === 1 && inValue) endValue(i);
+            depth--;
+          } else if (byte === COMMA && depth === 1 && inValue) {
+            endValue(i);
+          }
+        }
+
+        if (valueParts) {
+          (valueParts as Buffer[]).push(Buffer.from(buffer.subarray(captureFrom, bytesRead)));
+        }
+        position += bytesRead;
+        onProgress?.(position, totalBytes);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    if (sourceRoot) {
+      outline.sources = outline.sources.map((source) => joinSourceRoot(sourceRoot!, source));
+    }
+    return outline;
+  }
+
+  /**
+   * Start reading the "mappings" string at the offset found by `readOutline`
+   */
+  openMappings(mappingsOffset: number): MappingLineReader {
+    return new MappingLineReader(this.sourcemapPath, mappingsOffset, this.chunkSize);
+  }
+}
+
+/**
+ * Hands out decoded mapping lines in order, reading more of the file only when the
+ * lines decoded so far have been consumed
+ */
+export class MappingLineReader {
+  private fd: number;
+  private position: number;
+  private buffer: Buffer;
+  private decoder: MappingsDecoder;
+  private pending: MappingSegment[][] = [];
+  private pendingIndex = 0;
+  private done = false;
+
+  constructor(sourcemapPath: string, mappingsOffset: number, chunkSize = DEFAULT_CHUNK_SIZE) {
+    this.fd = fs.openSync(sourcemapPath, 'r');
+    this.position = mappingsOffset;
+    this.buffer = Buffer.alloc(chunkSize);
+    this.decoder = new MappingsDecoder((segments) => this.pending.push(segments));
+  }
+
+  /**
+   * Segments of the next generated line; empty once the mappings are exhausted
+   */
+  nextLine(): MappingSegment[] {
+    while (this.pendingIndex >= this.pending.length && !this.done) {
+      this.pending = [];
+      this.pendingIndex = 0;
+      this.readChunk();
+    }
+
+    if (this.pendingIndex < this.pending.length) {
+      return this.pending[this.pendingIndex++];
+    }
+    return [];
+  }
+
+  close(): void {
+    if (!this.done) {
+      this.done = true;
+      fs.closeSync(this.fd);
+    }
+  }
+
+  private readChunk(): void {
+    const bytesRead = fs.readSync(this.fd, this.buffer, 0, this.buffer.length, this.position);
+    // Mappings are plain Base64, so the closing quote is the first quote byte
+    const quote = this.buffer.subarray(0, bytesRead).indexOf(QUOTE);
+    const end = quote === -1 ? bytesRead : quote;
+
+    this.decoder.write(this.buffer.toString('latin1', 0, end));
+    this.position += end;
+
+    if (quote !== -1 || bytesRead === 0) {
+      this.decoder.end();
+      this.close();
+    }
+  }
+}
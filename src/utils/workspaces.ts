@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A package of a Yarn, npm or pnpm workspace
+ */
+export interface Workspace {
+  name: string;
+  // Directory relative to the workspace root, such as `packages/ui`
+  dir: string;
+  version?: string;
+}
+
+/**
+ * Find the workspace packages of the monorepo a project belongs to, from the root
+ * package.json `workspaces` field or pnpm-workspace.yaml. The project's own package is
+ * left out, so only shared packages are returned, deepest directories first.
+ */
+export function findWorkspaces(projectRoot: string = process.cwd()): Workspace[] {
+  const project = path.resolve(projectRoot);
+  let dir = project;
+  for (;;) {
+    const patterns = readWorkspacePatterns(dir);
+    if (patterns) {
+      return expandPatterns(dir, patterns)
+        .filter((workspace) => path.resolve(dir, workspace.dir) !== project)
+        .sort((a, b) => b.dir.length - a.dir.length);
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return [];
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Find the workspace package a normalized module path belongs to
+ */
+export function findWorkspaceForPath(
+  workspaces: Workspace[],
+  modulePath: string
+): Workspace | undefined {
+  if (modulePath.includes('node_modules/')) {
+    return undefined;
+  }
+  return workspaces.find((workspace) => modulePath.startsWith(`${workspace.dir}/`));
+}
+
+function readWorkspacePatterns(dir: string): string[] | undefined {
+  const pnpmWorkspacePath = path.join(dir, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmWorkspacePath)) {
+    return readPnpmWorkspace(fs.readFileSync(pnpmWorkspacePath, 'utf-8'));
+  }
+
+  try {
+    const packageJsonPath = path.join(dir, 'package.json');
+    if (fs.existsSync(packageJsonPath)) {
+      const { workspaces } = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+      // Either a list of globs, or Yarn's `{ packages: [...], nohoist: [...] }`
+      const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+      if (Array.isArray(patterns)) {
+        return patterns;
+      }
+    }
+  } catch (error) {
+    // Ignore unreadable package.json
+  }
+  return undefined;
+}
+
+/**
+ * Read the `packages:` list of pnpm-workspace.yaml
+ */
+function readPnpmWorkspace(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  content.split(/\r?\n/).forEach((line) => {
+    if (/^\S/.test(line)) {
+      inPackages = /^packages:\s*$/.test(line);
+      return;
+    }
+    const item = line.match(/^\s+-\s*(.+?)\s*$/);
+    if (inPackages && item) {
+      patterns.push(item[1].replace(/^(["'])(.*)\1$/, '$2'));
+    }
+  });
+  return patterns;
+}
+
+/**
+ * Expand workspace globs (`packages/*`, `apps/**`, plain paths and `!` exclusions) into
+ * the directories that hold a named package.json
+ */
+function expandPatterns(root: string, patterns: string[]): Workspace[] {
+  const dirs = new Set<string>();
+  patterns
+    .filter((pattern) => !pattern.startsWith('!'))
+    .forEach((pattern) => matchSegments(root, '', pattern.split('/').filter(Boolean), dirs));
+
+  const exclusions = patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => globToRegExp(pattern.slice(1)));
+
+  const workspaces: Workspace[] = [];
+  dirs.forEach((dir) => {
+    if (exclusions.some((exclusion) => exclusion.test(dir))) {
+      return;
+    }
+    try {
+      const packageJson = JSON.parse(
+        fs.readFileSync(path.join(root, dir, 'package.json'), 'utf-8')
+      );
+      if (typeof packageJson.name === 'string') {
+        workspaces.push({ name: packageJson.name, dir, version: packageJson.version });
+      }
+    } catch (error) {
+      // Not a package
+    }
+  });
+  return workspaces;
+}
+
+function matchSegments(root: string, dir: string, segments: string[], found: Set<string>): void {
+  if (segments.length === 0) {
+    if (dir && fs.existsSync(path.join(root, dir, 'package.json'))) {
+      found.add(dir);
+    }
+    return;
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment === '**') {
+    matchSegments(root, dir, rest, found);
+    listDirs(path.join(root, dir)).forEach((child) =>
+      matchSegments(root, joinDir(dir, child), segments, found)
+    );
+  } else if (segment.includes('*')) {
+    const pattern = globToRegExp(segment);
+    listDirs(path.join(root, dir))
+      .filter((child) => pattern.test(child))
+      .forEach((child) => matchSegments(root, joinDir(dir, child), rest, found));
+  } else {
+    matchSegments(root, joinDir(dir, segment), rest, found);
+  }
+}
+
+function listDirs(dir: string): string[] {
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter(
+        (entry) =>
+          entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.')
+      )
+      .map((entry) => entry.name);
+  } catch (error) {
+    return [];
+  }
+}
+
+function joinDir(dir: string, child: string): string {
+  return dir ? `${dir}/${child}` : child;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('/')
+    .map((segment) =>
+      segment === '**'
+        ? '.*'
+        : segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')
+    )
+    .join('/')
+    .replace(/\.\*\//g, '(?:.*/)?')
+    .replace(/\/\.\*$/, '(?:/.*)?');
+  return new RegExp(`^${source}$`);
+}